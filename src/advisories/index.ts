@@ -0,0 +1,243 @@
+/**
+ * Advisories - Loads a local vulnerability advisory file (JSON or CSV) and
+ * matches it against the detected WordPress core, theme and plugin versions
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import { splitCsvLine } from "../batch/siteList.js";
+import { SEVERITY_ORDER } from "../analyzers/findings.js";
+import { parseVersionRange, versionInRange } from "./versions.js";
+import type {
+  Advisory,
+  DetectedPlugin,
+  VulnerabilityMatch,
+  WpDetectionResult,
+} from "../types.js";
+
+const ADVISORY_KEYS = [
+  "id",
+  "type",
+  "slug",
+  "title",
+  "severity",
+  "affected",
+  "fixedIn",
+  "references",
+];
+const ADVISORY_TYPES = ["core", "plugin", "theme"];
+
+/**
+ * Read and parse an advisory file. The format is picked from the file
+ * extension: .csv, anything else is JSON. Throws when the file cannot be
+ * read or an advisory is invalid.
+ */
+export function loadAdvisories(filePath: string): Advisory[] {
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new Error(
+      `Cannot read advisory file ${filePath}: ${(error as Error).message}`
+    );
+  }
+  return parseAdvisories(content, filePath);
+}
+
+export function parseAdvisories(content: string, fileName: string): Advisory[] {
+  return path.extname(fileName).toLowerCase() === ".csv"
+    ? parseCsvAdvisories(content, fileName)
+    : parseJsonAdvisories(content, fileName);
+}
+
+/**
+ * Advisories that apply to the detected components. Components whose
+ * version was not detected are never matched.
+ */
+export function matchAdvisories(
+  detection: WpDetectionResult,
+  advisories: Advisory[]
+): VulnerabilityMatch[] {
+  const components: Array<{
+    type: Advisory["type"];
+    slug?: string;
+    version?: string;
+    confidence: DetectedPlugin["confidence"];
+  }> = [
+    { type: "core", version: detection.wpVersion, confidence: "high" },
+    {
+      type: "theme",
+      slug: detection.themeName,
+      version: detection.themeVersion,
+      confidence: "medium",
+    },
+    ...detection.plugins.map((plugin) => ({
+      type: "plugin" as const,
+      ...plugin,
+    })),
+  ];
+
+  const matches: VulnerabilityMatch[] = [];
+  for (const component of components) {
+    const { version } = component;
+    if (!version) continue;
+
+    for (const advisory of advisories) {
+      if (
+        advisory.type === component.type &&
+        (advisory.type === "core" || advisory.slug === component.slug) &&
+        versionInRange(version, advisory.affected)
+      ) {
+        matches.push({
+          advisory,
+          component: component.slug ?? "WordPress",
+          installedVersion: version,
+          confidence: component.confidence,
+        });
+      }
+    }
+  }
+
+  return matches.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.advisory.severity) -
+      SEVERITY_ORDER.indexOf(b.advisory.severity)
+  );
+}
+
+/**
+ * JSON: an array (or { "advisories": [...] }) of advisory objects
+ */
+function parseJsonAdvisories(content: string, fileName: string): Advisory[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`${fileName}: invalid JSON (${msg})`);
+  }
+
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    data = (data as { advisories?: unknown }).advisories;
+  }
+  if (!Array.isArray(data)) {
+    throw new Error(
+      `${fileName}: expected an array of advisories or an object with an "advisories" array`
+    );
+  }
+
+  return data.map((item, idx) => {
+    const where = `${fileName} advisories[${idx}]`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error(`${where}: expected an object`);
+    }
+    return toAdvisory(item as Record<string, unknown>, where);
+  });
+}
+
+/**
+ * CSV: a header row naming the columns (id, type, slug, title, severity,
+ * affected, fixedIn, references). Multiple references are separated by
+ * "|" or spaces.
+ */
+function parseCsvAdvisories(content: string, fileName: string): Advisory[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line, idx) => ({ cells: splitCsvLine(line), lineNo: idx + 1 }))
+    .filter((row) => row.cells.some((cell) => cell !== ""));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const columns = rows.shift()!.cells.map((cell) => cell.trim());
+  for (const column of columns) {
+    if (!ADVISORY_KEYS.includes(column)) {
+      throw new Error(`${fileName} line 1: unknown column "${column}"`);
+    }
+  }
+
+  return rows.map(({ cells, lineNo }) => {
+    const entry: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = (cells[i] ?? "").trim();
+      if (value === "") return;
+      entry[column] =
+        column === "references"
+          ? value.split(/[|\s]+/).filter(Boolean)
+          : value;
+    });
+    return toAdvisory(entry, `${fileName} line ${lineNo}`);
+  });
+}
+
+function toAdvisory(entry: Record<string, unknown>, where: string): Advisory {
+  for (const key of Object.keys(entry)) {
+    if (!ADVISORY_KEYS.includes(key)) {
+      throw new Error(`${where}: unknown key "${key}"`);
+    }
+  }
+
+  for (const key of ["id", "title"]) {
+    if (typeof entry[key] !== "string" || entry[key] === "") {
+      throw new Error(`${where}: "${key}" is required`);
+    }
+  }
+  if (!ADVISORY_TYPES.includes(entry.type as string)) {
+    throw new Error(`${where}: "type" must be one of: core, plugin, theme`);
+  }
+  if (!SEVERITY_ORDER.includes(entry.severity as Advisory["severity"])) {
+    throw new Error(
+      `${where}: "severity" must be one of: ${SEVERITY_ORDER.join(", ")}`
+    );
+  }
+
+  const advisory: Advisory = {
+    id: entry.id as string,
+    type: entry.type as Advisory["type"],
+    title: entry.title as string,
+    severity: entry.severity as Advisory["severity"],
+    affected: "",
+  };
+
+  if (advisory.type !== "core") {
+    if (typeof entry.slug !== "string" || entry.slug === "") {
+      throw new Error(
+        `${where}: "slug" is required for ${advisory.type} advisories`
+      );
+    }
+    advisory.slug = entry.slug;
+  }
+
+  if (entry.fixedIn !== undefined) {
+    if (typeof entry.fixedIn !== "string") {
+      throw new Error(`${where}: "fixedIn" must be a string`);
+    }
+    advisory.fixedIn = entry.fixedIn;
+  }
+
+  // Without a range, every version before the fix is affected
+  const affected =
+    entry.affected ?? (advisory.fixedIn ? `<${advisory.fixedIn}` : undefined);
+  if (typeof affected !== "string") {
+    throw new Error(`${where}: "affected" or "fixedIn" is required`);
+  }
+  try {
+    parseVersionRange(affected);
+  } catch (error) {
+    throw new Error(`${where}: ${(error as Error).message}`);
+  }
+  advisory.affected = affected;
+
+  if (entry.references !== undefined) {
+    if (
+      !Array.isArray(entry.references) ||
+      !entry.references.every((ref) => typeof ref === "string")
+    ) {
+      throw new Error(`${where}: "references" must be an array of strings`);
+    }
+    advisory.references = entry.references;
+  }
+
+  return advisory;
+}
@@ -0,0 +1,94 @@
+/**
+ * Version Ranges - Compares WordPress-style version strings and checks them
+ * against advisory ranges such as ">=8.0 <8.2.2 || <7.9"
+ */
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+interface Comparator {
+  operator: Operator;
+  version: string;
+}
+
+// Alternatives joined by "||", each a list of comparators that must all hold
+type VersionRange = Comparator[][];
+
+const COMPARATOR = /^(<=|>=|<|>|=)?(\d[0-9A-Za-z.+-]*)$/;
+
+/**
+ * Compare two versions numerically part by part ("6.10" > "6.9", "6.4" ==
+ * "6.4.0"). A pre-release suffix ("6.5-RC1") sorts before the release.
+ * Returns a negative number, zero or a positive number.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [aRelease, aSuffix] = splitSuffix(a);
+  const [bRelease, bSuffix] = splitSuffix(b);
+
+  const aParts = aRelease.split(".").map((part) => parseInt(part, 10) || 0);
+  const bParts = bRelease.split(".").map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  if (aSuffix === bSuffix) return 0;
+  if (!aSuffix) return 1;
+  if (!bSuffix) return -1;
+  return aSuffix.localeCompare(bSuffix, undefined, { numeric: true });
+}
+
+/**
+ * Parse a version range. Throws when the range is empty or a comparator is
+ * not an operator followed by a version; "*" matches every version.
+ */
+export function parseVersionRange(range: string): VersionRange {
+  const alternatives = range.split("||").map((alternative) => {
+    const parts = alternative.trim().split(/\s+/).filter(Boolean);
+    if (parts.length === 0) {
+      throw new Error(`invalid version range "${range}"`);
+    }
+    if (parts.length === 1 && parts[0] === "*") {
+      return [];
+    }
+
+    return parts.map((part) => {
+      const match = part.match(COMPARATOR);
+      if (!match) {
+        throw new Error(`invalid version range "${range}"`);
+      }
+      return { operator: (match[1] ?? "=") as Operator, version: match[2] };
+    });
+  });
+
+  return alternatives;
+}
+
+/**
+ * Whether a version falls inside a range
+ */
+export function versionInRange(version: string, range: string): boolean {
+  return parseVersionRange(range).some((comparators) =>
+    comparators.every(({ operator, version: bound }) => {
+      const diff = compareVersions(version, bound);
+      switch (operator) {
+        case "<":
+          return diff < 0;
+        case "<=":
+          return diff <= 0;
+        case ">":
+          return diff > 0;
+        case ">=":
+          return diff >= 0;
+        case "=":
+          return diff === 0;
+      }
+    })
+  );
+}
+
+function splitSuffix(version: string): [string, string] {
+  const match = version.match(/^([\d.]*)(.*)$/)!;
+  return [match[1], match[2].replace(/^[-+.]/, "")];
+}
@@ -0,0 +1,45 @@
+/**
+ * Findings - Shared helpers for building and ranking analyzer findings
+ */
+
+import type { CategoryScores, Finding, FindingSeverity } from "../types.js";
+
+export const SEVERITY_ORDER: FindingSeverity[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+];
+
+export type AddFinding = ReturnType<typeof createFindingList>["add"];
+
+/**
+ * Collects an analyzer's findings and recommendations. Adding a finding
+ * also records its recommendation.
+ */
+export function createFindingList(category: keyof CategoryScores) {
+  const findings: Finding[] = [];
+  const recommendations: string[] = [];
+
+  const add = (
+    finding: Omit<Finding, "category" | "pages"> & { pages?: string[] }
+  ): void => {
+    findings.push({ category, pages: [], ...finding });
+    if (!recommendations.includes(finding.recommendation)) {
+      recommendations.push(finding.recommendation);
+    }
+  };
+
+  return { findings, recommendations, add };
+}
+
+/**
+ * Sort findings from most to least severe, keeping analyzer order within
+ * a severity
+ */
+export function rankFindings(findings: Finding[]): Finding[] {
+  return [...findings].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+}
@@ -2,13 +2,14 @@
  * Modernization Analyzer - Evaluates headless/modern architecture readiness
  */
 
+import { createFindingList } from "./findings.js";
 import type { ModernizationResult, ModernizationAnalysis } from "../types.js";
 
 export function analyzeModernization(
   modData: ModernizationResult
 ): ModernizationAnalysis {
-  const issues: string[] = [];
-  const recommendations: string[] = [];
+  const { findings, recommendations, add } =
+    createFindingList("modernization");
 
   // Analyze REST API status
   let restApiStatus: ModernizationAnalysis["restApiStatus"];
@@ -20,21 +21,35 @@ export function analyzeModernization(
     restApiStatus = "full";
   } else if (modData.hasRestApi) {
     restApiStatus = "partial";
+    const recommendation =
+      "Ensure all necessary REST API endpoints are enabled and accessible";
     if (!modData.hasPostsEndpoint) {
-      issues.push("Posts endpoint not accessible");
+      add({
+        id: "MOD-REST-POSTS-MISSING",
+        severity: "medium",
+        title: "Posts endpoint not accessible",
+        recommendation,
+        evidence: "/wp/v2/posts",
+      });
     }
     if (!modData.hasPagesEndpoint) {
-      issues.push("Pages endpoint not accessible");
+      add({
+        id: "MOD-REST-PAGES-MISSING",
+        severity: "medium",
+        title: "Pages endpoint not accessible",
+        recommendation,
+        evidence: "/wp/v2/pages",
+      });
     }
-    recommendations.push(
-      "Ensure all necessary REST API endpoints are enabled and accessible"
-    );
   } else {
     restApiStatus = "none";
-    issues.push("WordPress REST API is not accessible");
-    recommendations.push(
-      "Enable WordPress REST API for headless/modern architecture compatibility"
-    );
+    add({
+      id: "MOD-REST-API-MISSING",
+      severity: "high",
+      title: "WordPress REST API is not accessible",
+      recommendation:
+        "Enable WordPress REST API for headless/modern architecture compatibility",
+    });
   }
 
   // Analyze permalink modernity
@@ -43,10 +58,13 @@ export function analyzeModernization(
     permalinkModernity = "modern";
   } else {
     permalinkModernity = "legacy";
-    issues.push("Using query-string based URLs instead of pretty permalinks");
-    recommendations.push(
-      "Enable pretty permalinks for better SEO and modern URL structure"
-    );
+    add({
+      id: "MOD-PERMALINKS-LEGACY",
+      severity: "medium",
+      title: "Using query-string based URLs instead of pretty permalinks",
+      recommendation:
+        "Enable pretty permalinks for better SEO and modern URL structure",
+    });
   }
 
   // Analyze CDN usage
@@ -55,10 +73,13 @@ export function analyzeModernization(
     cdnUsage = "yes";
   } else {
     cdnUsage = "no";
-    issues.push("No CDN detected for static assets");
-    recommendations.push(
-      "Implement a CDN to improve global performance and reduce origin server load"
-    );
+    add({
+      id: "MOD-CDN-MISSING",
+      severity: "low",
+      title: "No CDN detected for static assets",
+      recommendation:
+        "Implement a CDN to improve global performance and reduce origin server load",
+    });
   }
 
   // Overall headless readiness
@@ -91,7 +112,7 @@ export function analyzeModernization(
     permalinkModernity,
     cdnUsage,
     headlessReadiness,
-    issues,
+    findings,
     recommendations,
   };
 }
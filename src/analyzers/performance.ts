@@ -2,18 +2,30 @@
  * Performance Analyzer - Interprets performance data into actionable analysis
  */
 
+import { createFindingList } from "./findings.js";
+import { addRedirectPerformanceFindings } from "./redirects.js";
 import type {
   PerformanceResult,
   PerformanceAnalysis,
   LighthouseData,
+  PageResult,
+  SiteResult,
 } from "../types.js";
 
+/**
+ * Analyze site-wide (averaged) performance data. pageResults are the pages
+ * behind the averages and are used to list the pages each finding affects.
+ * site adds the redirect probes of the base URL.
+ */
 export function analyzePerformance(
   perfData: PerformanceResult,
-  lighthouseData?: LighthouseData
+  lighthouseData?: LighthouseData,
+  pageResults: PageResult[] = [],
+  site?: SiteResult
 ): PerformanceAnalysis {
-  const issues: string[] = [];
-  const recommendations: string[] = [];
+  const { findings, recommendations, add } = createFindingList("performance");
+  const pagesWhere = (test: (perf: PerformanceResult) => boolean): string[] =>
+    pageResults.filter((p) => test(p.performanceResult)).map((p) => p.path);
 
   // Analyze HTML size
   let htmlSizeCategory: PerformanceAnalysis["htmlSizeCategory"];
@@ -23,18 +35,26 @@ export function analyzePerformance(
     htmlSizeCategory = "good";
   } else if (perfData.htmlSizeBytes < 300_000) {
     htmlSizeCategory = "fair";
-    issues.push(`HTML size is ${Math.round(perfData.htmlSizeBytes / 1024)} KB`);
-    recommendations.push(
-      "Consider reducing HTML size through minification and removing unused code"
-    );
+    add({
+      id: "PERF-HTML-SIZE",
+      severity: "low",
+      title: `HTML size is ${Math.round(perfData.htmlSizeBytes / 1024)} KB`,
+      recommendation:
+        "Consider reducing HTML size through minification and removing unused code",
+      pages: pagesWhere((perf) => perf.htmlSizeBytes >= 200_000),
+      evidence: `${perfData.htmlSizeBytes} bytes`,
+    });
   } else {
     htmlSizeCategory = "poor";
-    issues.push(
-      `Large HTML size: ${Math.round(perfData.htmlSizeBytes / 1024)} KB`
-    );
-    recommendations.push(
-      "Significantly reduce HTML payload - consider lazy loading content"
-    );
+    add({
+      id: "PERF-HTML-SIZE",
+      severity: "medium",
+      title: `Large HTML size: ${Math.round(perfData.htmlSizeBytes / 1024)} KB`,
+      recommendation:
+        "Significantly reduce HTML payload - consider lazy loading content",
+      pages: pagesWhere((perf) => perf.htmlSizeBytes >= 300_000),
+      evidence: `${perfData.htmlSizeBytes} bytes`,
+    });
   }
 
   // Analyze script load
@@ -45,15 +65,26 @@ export function analyzePerformance(
     scriptLoadCategory = "good";
   } else {
     scriptLoadCategory = "heavy";
-    issues.push(`${perfData.numScripts} JavaScript files loaded`);
-    recommendations.push("Consolidate and minify JavaScript files");
+    add({
+      id: "PERF-SCRIPTS-HEAVY",
+      severity: "medium",
+      title: `${perfData.numScripts} JavaScript files loaded`,
+      recommendation: "Consolidate and minify JavaScript files",
+      pages: pagesWhere((perf) => perf.numScripts >= 20),
+      evidence: `${perfData.numScripts} scripts`,
+    });
   }
 
   if (perfData.blockingScripts > 0) {
-    issues.push(`${perfData.blockingScripts} blocking scripts in <head>`);
-    recommendations.push(
-      "Add async or defer attributes to scripts, or move them to bottom of page"
-    );
+    add({
+      id: "PERF-SCRIPTS-BLOCKING",
+      severity: "medium",
+      title: `${perfData.blockingScripts} blocking scripts in <head>`,
+      recommendation:
+        "Add async or defer attributes to scripts, or move them to bottom of page",
+      pages: pagesWhere((perf) => perf.blockingScripts > 0),
+      evidence: `${perfData.blockingScripts} blocking scripts`,
+    });
   }
 
   // Analyze image optimization
@@ -73,14 +104,19 @@ export function analyzePerformance(
     recommendations.push("Increase usage of WebP/AVIF image formats");
   } else {
     imageOptimization = "poor";
-    issues.push(
-      `Most images use legacy formats (JPEG/PNG: ${
-        perfData.imageFormats.jpeg + perfData.imageFormats.png
-      })`
-    );
-    recommendations.push(
-      "Convert images to WebP or AVIF for better compression"
-    );
+    const legacyImages = perfData.imageFormats.jpeg + perfData.imageFormats.png;
+    add({
+      id: "PERF-IMAGES-LEGACY",
+      severity: "medium",
+      title: `Most images use legacy formats (JPEG/PNG: ${legacyImages})`,
+      recommendation: "Convert images to WebP or AVIF for better compression",
+      pages: pagesWhere(
+        (perf) =>
+          perf.imageFormats.jpeg + perf.imageFormats.png >
+          perf.imageFormats.webp + perf.imageFormats.avif
+      ),
+      evidence: `${legacyImages} of ${totalImages} images are JPEG/PNG`,
+    });
   }
 
   // Analyze caching
@@ -92,14 +128,22 @@ export function analyzePerformance(
     recommendations.push("Review and optimize cache-control headers");
   } else {
     caching = "none";
-    issues.push("No caching headers detected");
-    recommendations.push("Implement cache-control headers for static assets");
+    add({
+      id: "PERF-CACHE-MISSING",
+      severity: "medium",
+      title: "No caching headers detected",
+      recommendation: "Implement cache-control headers for static assets",
+      pages: pagesWhere((perf) => !perf.hasCacheControl),
+    });
   }
 
   // Analyze Core Web Vitals (v0.4.0) - if PageSpeed data available
   let coreWebVitals: PerformanceAnalysis["coreWebVitals"] | undefined;
 
   if (lighthouseData) {
+    const vitalsPages = pageResults
+      .filter((p) => p.lighthouseData === lighthouseData)
+      .map((p) => p.path);
     // LCP (Largest Contentful Paint) - Good: <2.5s, Needs work: 2.5-4s, Poor: >4s
     const lcpStatus =
       lighthouseData.lcp < 2500
@@ -109,12 +153,17 @@ export function analyzePerformance(
         : "poor";
 
     if (lcpStatus === "poor") {
-      issues.push(
-        `Poor LCP: ${(lighthouseData.lcp / 1000).toFixed(2)}s (target: <2.5s)`
-      );
-      recommendations.push(
-        "Improve Largest Contentful Paint by optimizing images, removing render-blocking resources, and using CDN"
-      );
+      add({
+        id: "PERF-LCP-POOR",
+        severity: "high",
+        title: `Poor LCP: ${(lighthouseData.lcp / 1000).toFixed(
+          2
+        )}s (target: <2.5s)`,
+        recommendation:
+          "Improve Largest Contentful Paint by optimizing images, removing render-blocking resources, and using CDN",
+        pages: vitalsPages,
+        evidence: `${lighthouseData.lcp}ms`,
+      });
     } else if (lcpStatus === "needs-improvement") {
       recommendations.push(
         `LCP could be better: ${(lighthouseData.lcp / 1000).toFixed(
@@ -132,10 +181,15 @@ export function analyzePerformance(
         : "poor";
 
     if (clsStatus === "poor") {
-      issues.push(`Poor CLS: ${lighthouseData.cls.toFixed(3)} (target: <0.1)`);
-      recommendations.push(
-        "Reduce Cumulative Layout Shift by setting image dimensions, avoiding injected content, and using CSS transforms"
-      );
+      add({
+        id: "PERF-CLS-POOR",
+        severity: "medium",
+        title: `Poor CLS: ${lighthouseData.cls.toFixed(3)} (target: <0.1)`,
+        recommendation:
+          "Reduce Cumulative Layout Shift by setting image dimensions, avoiding injected content, and using CSS transforms",
+        pages: vitalsPages,
+        evidence: `${lighthouseData.cls}`,
+      });
     } else if (clsStatus === "needs-improvement") {
       recommendations.push(
         `CLS could be better: ${lighthouseData.cls.toFixed(3)} (target: <0.1)`
@@ -151,10 +205,15 @@ export function analyzePerformance(
         : "poor";
 
     if (inpStatus === "poor") {
-      issues.push(`Poor INP: ${lighthouseData.inp}ms (target: <200ms)`);
-      recommendations.push(
-        "Improve Interaction to Next Paint by reducing JavaScript execution time and optimizing event handlers"
-      );
+      add({
+        id: "PERF-INP-POOR",
+        severity: "high",
+        title: `Poor INP: ${lighthouseData.inp}ms (target: <200ms)`,
+        recommendation:
+          "Improve Interaction to Next Paint by reducing JavaScript execution time and optimizing event handlers",
+        pages: vitalsPages,
+        evidence: `${lighthouseData.inp}ms`,
+      });
     } else if (inpStatus === "needs-improvement") {
       recommendations.push(
         `INP could be better: ${lighthouseData.inp}ms (target: <200ms)`
@@ -170,10 +229,15 @@ export function analyzePerformance(
         : "poor";
 
     if (ttfbStatus === "poor") {
-      issues.push(`Slow TTFB: ${lighthouseData.ttfb}ms (target: <800ms)`);
-      recommendations.push(
-        "Improve Time to First Byte by optimizing server response time, using CDN, and enabling caching"
-      );
+      add({
+        id: "PERF-TTFB-SLOW",
+        severity: "medium",
+        title: `Slow TTFB: ${lighthouseData.ttfb}ms (target: <800ms)`,
+        recommendation:
+          "Improve Time to First Byte by optimizing server response time, using CDN, and enabling caching",
+        pages: vitalsPages,
+        evidence: `${lighthouseData.ttfb}ms`,
+      });
     } else if (ttfbStatus === "needs-improvement") {
       recommendations.push(
         `TTFB could be faster: ${lighthouseData.ttfb}ms (target: <800ms)`
@@ -188,13 +252,16 @@ export function analyzePerformance(
     };
   }
 
+  // Analyze redirect chains
+  addRedirectPerformanceFindings(add, pageResults, site);
+
   return {
     htmlSizeCategory,
     scriptLoadCategory,
     imageOptimization,
     caching,
     coreWebVitals,
-    issues,
+    findings,
     recommendations,
   };
 }
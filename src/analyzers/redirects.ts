@@ -0,0 +1,212 @@
+/**
+ * Redirect Checks - Redirect chain findings shared by the SEO and
+ * performance analyzers
+ */
+
+import type { AddFinding } from "./findings.js";
+import type {
+  PageResult,
+  RedirectFailure,
+  RedirectHop,
+  SiteResult,
+} from "../types.js";
+
+// A requested URL and the redirects it went through
+interface RedirectSubject {
+  label: string; // Page path, or the probed URL for site variants
+  redirects: RedirectHop[];
+  error?: string; // Why fetching stopped, for subjects that never resolved
+}
+
+/**
+ * Performance: every extra hop costs a round trip before the page loads
+ */
+export function addRedirectPerformanceFindings(
+  add: AddFinding,
+  pageResults: PageResult[],
+  site?: SiteResult
+): void {
+  const longChains = redirectSubjects(pageResults, site).filter(
+    (subject) => subject.redirects.length > 1
+  );
+  if (longChains.length === 0) {
+    return;
+  }
+
+  const longest = longChains.reduce((a, b) =>
+    b.redirects.length > a.redirects.length ? b : a
+  );
+  add({
+    id: "PERF-REDIRECT-CHAIN",
+    severity: "medium",
+    title: `${longChains.length} URL(s) redirect through more than one hop`,
+    recommendation:
+      "Point redirects straight at the final URL so each request needs a single hop",
+    pages: longChains.map((subject) => subject.label),
+    evidence: describeChain(longest.redirects),
+  });
+}
+
+/**
+ * SEO: redirect loops and overlong chains, missing HTTPS and host canonicalization, and
+ * temporary redirects used for permanent moves. redirectFailures are the
+ * audited pages that never stopped redirecting.
+ */
+export function addRedirectSeoFindings(
+  add: AddFinding,
+  pageResults: PageResult[],
+  site?: SiteResult,
+  redirectFailures: RedirectFailure[] = []
+): void {
+  const probes = site?.redirectProbes ?? [];
+
+  // Pages and probed variants that loop
+  const loops: RedirectSubject[] = [
+    ...redirectFailures
+      .filter((failure) => isLoop(failure.redirects))
+      .map((failure) => ({
+        label: failure.path,
+        redirects: failure.redirects,
+        error: failure.error,
+      })),
+    ...probes
+      .filter((probe) => isLoop(probe.redirects))
+      .map((probe) => ({ label: probe.url, redirects: probe.redirects })),
+  ];
+  if (loops.length > 0) {
+    add({
+      id: "SEO-REDIRECT-LOOP",
+      severity: "critical",
+      title: "Redirect loop detected",
+      recommendation:
+        "Fix the redirect rules so every URL ends on a page instead of looping",
+      pages: loops.map((subject) => subject.label),
+      evidence: describeFailure(loops),
+    });
+  }
+
+  // Pages and probed variants that gave up at the hop limit without looping
+  const tooMany: RedirectSubject[] = [
+    ...redirectFailures
+      .filter((failure) => !isLoop(failure.redirects))
+      .map((failure) => ({
+        label: failure.path,
+        redirects: failure.redirects,
+        error: failure.error,
+      })),
+    ...probes
+      .filter(
+        (probe) =>
+          probe.error &&
+          probe.status >= 300 &&
+          probe.status < 400 &&
+          !isLoop(probe.redirects)
+      )
+      .map((probe) => ({
+        label: probe.url,
+        redirects: probe.redirects,
+        error: probe.error,
+      })),
+  ];
+  if (tooMany.length > 0) {
+    add({
+      id: "SEO-REDIRECT-TOO-MANY",
+      severity: "high",
+      title: "Redirect chain exceeds the redirect limit",
+      recommendation:
+        "Shorten the redirect chain so crawlers reach the page in a few hops",
+      pages: tooMany.map((subject) => subject.label),
+      evidence: describeFailure(tooMany),
+    });
+  }
+
+  // The http:// variant must end on HTTPS
+  const httpProbe = probes.find((probe) => probe.variant === "http");
+  if (
+    httpProbe &&
+    httpProbe.status === 200 &&
+    new URL(httpProbe.finalUrl).protocol === "http:"
+  ) {
+    add({
+      id: "SEO-REDIRECT-HTTPS-MISSING",
+      severity: "high",
+      title: "HTTP version of the site does not redirect to HTTPS",
+      recommendation:
+        "Redirect every http:// request to its https:// URL with a 301",
+      pages: [httpProbe.url],
+    });
+  }
+
+  // The www/non-www variant must end on the host the audited pages use
+  const wwwProbe = probes.find((probe) => probe.variant === "www");
+  const canonicalHost = pageResults[0]
+    ? new URL(pageResults[0].httpResult.finalUrl).host
+    : undefined;
+  if (
+    wwwProbe &&
+    canonicalHost &&
+    wwwProbe.status === 200 &&
+    new URL(wwwProbe.finalUrl).host !== canonicalHost
+  ) {
+    add({
+      id: "SEO-REDIRECT-HOST-INCONSISTENT",
+      severity: "medium",
+      title: "Both www and non-www hosts serve the site",
+      recommendation: `Redirect ${
+        new URL(wwwProbe.url).host
+      } to ${canonicalHost} with a 301 so search engines index one host`,
+      pages: [wwwProbe.url],
+    });
+  }
+
+  const temporary = redirectSubjects(pageResults, site).filter((subject) =>
+    subject.redirects.some((hop) => hop.status === 302 || hop.status === 307)
+  );
+  if (temporary.length > 0) {
+    const hop = temporary[0].redirects.find(
+      (h) => h.status === 302 || h.status === 307
+    )!;
+    add({
+      id: "SEO-REDIRECT-TEMPORARY",
+      severity: "low",
+      title: "Temporary redirects (302/307) used where a permanent move is likely",
+      recommendation:
+        "Use 301 or 308 for permanent redirects so search engines transfer ranking signals",
+      pages: temporary.map((subject) => subject.label),
+      evidence: `${hop.url} -> ${hop.location} (${hop.status})`,
+    });
+  }
+}
+
+function redirectSubjects(
+  pageResults: PageResult[],
+  site?: SiteResult
+): RedirectSubject[] {
+  return [
+    ...pageResults.map((page) => ({
+      label: page.path,
+      redirects: page.httpResult.redirects,
+    })),
+    ...(site?.redirectProbes ?? []).map((probe) => ({
+      label: probe.url,
+      redirects: probe.redirects,
+    })),
+  ];
+}
+
+function isLoop(redirects: RedirectHop[]): boolean {
+  const last = redirects[redirects.length - 1];
+  return !!last && redirects.some((hop) => hop.url === last.location);
+}
+
+// The first subject's fetch error, or its chain when there is none
+function describeFailure(subjects: RedirectSubject[]): string {
+  return subjects[0].error ?? describeChain(subjects[0].redirects);
+}
+
+function describeChain(redirects: RedirectHop[]): string {
+  const hops = redirects.map(
+    (hop) => `${hop.url} (${hop.status}, ${hop.latencyMs} ms)`
+  );
+  return [...hops, redirects[redirects.length - 1].location].join(" -> ");
+}
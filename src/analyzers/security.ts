@@ -2,21 +2,251 @@
  * Security Analyzer - Assesses security posture and provides recommendations
  */
 
-import type { SecurityResult, SecurityAnalysis } from "../types.js";
+import { createFindingList, SEVERITY_ORDER } from "./findings.js";
+import type { AddFinding } from "./findings.js";
+import type { SecurityAggregation } from "../audit/aggregate.js";
+import type {
+  CookieIssue,
+  Finding,
+  MixedContentResource,
+  PageResult,
+  PolicyWeakness,
+  SecurityResult,
+  SecurityAnalysis,
+  SensitivePath,
+  SetCookie,
+  SiteResult,
+  VulnerabilityMatch,
+} from "../types.js";
 
-export function analyzeSecurity(secData: SecurityResult): SecurityAnalysis {
-  const issues: string[] = [];
-  const recommendations: string[] = [];
+// Finding raised when a sensitive path check finds its file exposed
+const SENSITIVE_PATH_FINDINGS: Record<
+  SensitivePath["check"],
+  Omit<Finding, "category" | "pages" | "evidence">
+> = {
+  "config-backup": {
+    id: "SEC-CONFIG-BACKUP-EXPOSED",
+    severity: "critical",
+    title: "A wp-config.php backup with database credentials is downloadable",
+    recommendation:
+      "Delete wp-config.php backups from the web root and change the database password and salts",
+  },
+  "debug-log": {
+    id: "SEC-DEBUG-LOG-EXPOSED",
+    severity: "high",
+    title: "The WordPress debug log is publicly readable",
+    recommendation:
+      "Disable WP_DEBUG_LOG in production or log outside the web root, and delete wp-content/debug.log",
+  },
+  "uploads-listing": {
+    id: "SEC-UPLOADS-LISTING",
+    severity: "medium",
+    title: "Directory listing is enabled for /wp-content/uploads/",
+    recommendation:
+      "Turn off directory listings on the web server (e.g. Options -Indexes)",
+  },
+  xmlrpc: {
+    id: "SEC-XMLRPC-ENABLED",
+    severity: "medium",
+    title: "xmlrpc.php is enabled and answers XML-RPC requests",
+    recommendation:
+      "Disable XML-RPC or block xmlrpc.php unless a service such as Jetpack needs it; its system.multicall method can batch hundreds of login attempts in one request",
+  },
+  readme: {
+    id: "SEC-README-EXPOSED",
+    severity: "low",
+    title: "readme.html is public and reveals the WordPress version",
+    recommendation: "Delete readme.html or block access to it",
+  },
+  license: {
+    id: "SEC-LICENSE-EXPOSED",
+    severity: "low",
+    title: "license.txt is public and confirms the site runs WordPress",
+    recommendation: "Delete license.txt or block access to it",
+  },
+};
+
+// Finding raised for each CSP or HSTS weakness
+const POLICY_FINDINGS: Record<
+  PolicyWeakness["id"],
+  Omit<Finding, "category" | "pages" | "evidence">
+> = {
+  "csp-report-only": {
+    id: "SEC-CSP-REPORT-ONLY",
+    severity: "medium",
+    title:
+      "Content-Security-Policy is only sent in report-only mode and blocks nothing",
+    recommendation:
+      "Once the reports are clean, send the policy as Content-Security-Policy",
+  },
+  "csp-unsafe-inline": {
+    id: "SEC-CSP-UNSAFE-INLINE",
+    severity: "medium",
+    title: "Content-Security-Policy allows inline scripts ('unsafe-inline')",
+    recommendation:
+      "Replace 'unsafe-inline' with nonces or hashes for the inline scripts the site needs",
+  },
+  "csp-unsafe-eval": {
+    id: "SEC-CSP-UNSAFE-EVAL",
+    severity: "medium",
+    title: "Content-Security-Policy allows eval() ('unsafe-eval')",
+    recommendation:
+      "Remove 'unsafe-eval' and replace the scripts that depend on eval()",
+  },
+  "csp-wildcard-source": {
+    id: "SEC-CSP-WILDCARD",
+    severity: "medium",
+    title: "Content-Security-Policy allows scripts from any host",
+    recommendation:
+      "List the script hosts explicitly instead of *, http:, https: or data:",
+  },
+  "csp-missing-default-src": {
+    id: "SEC-CSP-DEFAULT-SRC-MISSING",
+    severity: "low",
+    title: "Content-Security-Policy has no default-src fallback",
+    recommendation:
+      "Add default-src 'self' so resource types without a directive are restricted",
+  },
+  "csp-missing-object-src": {
+    id: "SEC-CSP-OBJECT-SRC-MISSING",
+    severity: "low",
+    title: "Content-Security-Policy does not block plugin content (object-src)",
+    recommendation: "Add object-src 'none'",
+  },
+  "csp-missing-frame-ancestors": {
+    id: "SEC-CSP-FRAME-ANCESTORS-MISSING",
+    severity: "low",
+    title: "Content-Security-Policy does not restrict framing (frame-ancestors)",
+    recommendation:
+      "Add frame-ancestors 'self' (it replaces X-Frame-Options in modern browsers)",
+  },
+  "hsts-missing": {
+    id: "SEC-HSTS-MISSING",
+    severity: "medium",
+    title: "HTTPS pages do not send a valid Strict-Transport-Security header",
+    recommendation:
+      "Send Strict-Transport-Security: max-age=31536000; includeSubDomains",
+  },
+  "hsts-max-age-short": {
+    id: "SEC-HSTS-MAX-AGE-SHORT",
+    severity: "low",
+    title: "Strict-Transport-Security max-age is shorter than 180 days",
+    recommendation: "Raise max-age to at least 15552000 (one year is common)",
+  },
+  "hsts-no-include-subdomains": {
+    id: "SEC-HSTS-NO-SUBDOMAINS",
+    severity: "low",
+    title: "Strict-Transport-Security does not cover subdomains",
+    recommendation:
+      "Add includeSubDomains once every subdomain is served over HTTPS",
+  },
+  "hsts-no-preload": {
+    id: "SEC-HSTS-NO-PRELOAD",
+    severity: "low",
+    title: "Strict-Transport-Security is not eligible for browser preload lists",
+    recommendation:
+      "Add preload and submit the domain to hstspreload.org once includeSubDomains is in place",
+  },
+};
+
+// Finding raised for each cookie attribute problem; severity is raised to
+// high when a login or session cookie is affected (see addCookieFindings)
+const COOKIE_FINDINGS: Record<
+  CookieIssue,
+  Omit<Finding, "category" | "pages" | "evidence">
+> = {
+  "missing-secure": {
+    id: "SEC-COOKIE-NO-SECURE",
+    severity: "medium",
+    title: "Cookies are set without the Secure attribute",
+    recommendation:
+      "Add Secure to every cookie set over HTTPS so it is never sent over plain HTTP",
+  },
+  "missing-httponly": {
+    id: "SEC-COOKIE-NO-HTTPONLY",
+    severity: "low",
+    title: "Cookies are readable by JavaScript (no HttpOnly attribute)",
+    recommendation:
+      "Add HttpOnly to cookies that scripts do not need, above all session cookies",
+  },
+  "missing-samesite": {
+    id: "SEC-COOKIE-NO-SAMESITE",
+    severity: "low",
+    title: "Cookies are set without a SameSite attribute",
+    recommendation:
+      "Set SameSite=Lax (or Strict) explicitly to limit cross-site requests carrying the cookie",
+  },
+};
+
+// Finding raised for each type of mixed content
+const MIXED_CONTENT_FINDINGS: Record<
+  MixedContentResource["type"],
+  Omit<Finding, "category" | "pages" | "evidence">
+> = {
+  active: {
+    id: "SEC-MIXED-CONTENT-ACTIVE",
+    severity: "high",
+    title:
+      "HTTPS pages load scripts, stylesheets or frames over HTTP; browsers block them and the pages break",
+    recommendation:
+      "Load every script, stylesheet and frame over HTTPS (update hard-coded http:// URLs in the theme, plugins and content)",
+  },
+  passive: {
+    id: "SEC-MIXED-CONTENT-PASSIVE",
+    severity: "medium",
+    title: "HTTPS pages load images or media over HTTP",
+    recommendation:
+      "Serve images and media over HTTPS, e.g. by rewriting http:// URLs in the database",
+  },
+};
+
+// Mixed content evidence lists at most this many URLs
+const MAX_EVIDENCE_URLS = 5;
+
+/**
+ * Analyze security data. pageResults are the pages behind the (possibly
+ * aggregated) data and are used to list the pages each finding affects.
+ * vulnerabilities are the site's advisory matches, or null when no
+ * advisories were checked; site adds user enumeration and the sensitive
+ * path probes.
+ */
+export function analyzeSecurity(
+  secData: SecurityResult & { _aggregation?: SecurityAggregation },
+  pageResults: PageResult[] = [],
+  vulnerabilities: VulnerabilityMatch[] | null = null,
+  site?: SiteResult
+): SecurityAnalysis {
+  const { findings, recommendations, add } = createFindingList("security");
+  const pagesWhere = (test: (sec: SecurityResult) => boolean): string[] =>
+    pageResults.filter((p) => test(p.securityResult)).map((p) => p.path);
+  const allPages = pageResults.map((p) => p.path);
 
   // Analyze HTTPS
-  const httpsStatus: SecurityAnalysis["httpsStatus"] = secData.isHttps
-    ? "secure"
-    : "insecure";
-  if (!secData.isHttps) {
-    issues.push("Site is not using HTTPS");
-    recommendations.push(
-      "CRITICAL: Migrate to HTTPS immediately for security and SEO"
-    );
+  const httpsPages = secData._aggregation?.httpsPages ?? 0;
+  let httpsStatus: SecurityAnalysis["httpsStatus"];
+  if (secData.isHttps) {
+    httpsStatus = "secure";
+  } else if (httpsPages > 0) {
+    httpsStatus = "mixed";
+    const httpPages = pagesWhere((sec) => !sec.isHttps);
+    add({
+      id: "SEC-HTTPS-MIXED",
+      severity: "high",
+      title: `${httpPages.length} of ${allPages.length} pages are served over HTTP`,
+      recommendation:
+        "Serve every page over HTTPS and redirect HTTP requests to HTTPS",
+      pages: httpPages,
+    });
+  } else {
+    httpsStatus = "insecure";
+    add({
+      id: "SEC-HTTPS-MISSING",
+      severity: "critical",
+      title: "Site is not using HTTPS",
+      recommendation:
+        "CRITICAL: Migrate to HTTPS immediately for security and SEO",
+      pages: allPages,
+    });
   }
 
   // Analyze headers coverage
@@ -27,52 +257,206 @@ export function analyzeSecurity(secData: SecurityResult): SecurityAnalysis {
     secData.hasContentSecurityPolicy,
   ];
   const presentCount = requiredHeaders.filter(Boolean).length;
+  // Headers set on only some pages still count as partial coverage
+  const presentOnSomePages = pageResults.some(
+    ({ securityResult: sec }) =>
+      sec.hasXContentTypeOptions ||
+      sec.hasXFrameOptions ||
+      sec.hasContentSecurityPolicy
+  );
 
   if (presentCount === 3) {
     headersCoverage = "excellent";
-  } else if (presentCount >= 1) {
+  } else if (presentCount >= 1 || presentOnSomePages) {
     headersCoverage = "partial";
     if (!secData.hasXContentTypeOptions) {
-      issues.push("Missing X-Content-Type-Options header");
-      recommendations.push("Add X-Content-Type-Options: nosniff header");
+      add({
+        id: "SEC-XCTO-MISSING",
+        severity: "medium",
+        title: "Missing X-Content-Type-Options header",
+        recommendation: "Add X-Content-Type-Options: nosniff header",
+        pages: pagesWhere((sec) => !sec.hasXContentTypeOptions),
+      });
     }
     if (!secData.hasXFrameOptions) {
-      issues.push("Missing X-Frame-Options header");
-      recommendations.push(
-        "Add X-Frame-Options header to prevent clickjacking"
-      );
+      add({
+        id: "SEC-XFO-MISSING",
+        severity: "medium",
+        title: "Missing X-Frame-Options header",
+        recommendation: "Add X-Frame-Options header to prevent clickjacking",
+        pages: pagesWhere((sec) => !sec.hasXFrameOptions),
+      });
     }
     if (!secData.hasContentSecurityPolicy) {
-      issues.push("Missing Content-Security-Policy header");
-      recommendations.push(
-        "Implement Content-Security-Policy to mitigate XSS attacks"
-      );
+      add({
+        id: "SEC-CSP-MISSING",
+        severity: "medium",
+        title: "Missing Content-Security-Policy header",
+        recommendation:
+          "Implement Content-Security-Policy to mitigate XSS attacks",
+        pages: pagesWhere((sec) => !sec.hasContentSecurityPolicy),
+      });
     }
   } else {
     headersCoverage = "none";
-    issues.push("Critical security headers are missing");
-    recommendations.push(
-      "Implement essential security headers (CSP, X-Frame-Options, X-Content-Type-Options)"
-    );
+    add({
+      id: "SEC-HEADERS-MISSING",
+      severity: "high",
+      title: "Critical security headers are missing",
+      recommendation:
+        "Implement essential security headers (CSP, X-Frame-Options, X-Content-Type-Options)",
+      pages: allPages,
+    });
+  }
+
+  // Headers that are missing or set differently on some pages
+  const inconsistentHeaders = secData._aggregation?.inconsistentHeaders ?? [];
+  if (inconsistentHeaders.length > 0) {
+    add({
+      id: "SEC-HEADERS-INCONSISTENT",
+      severity: "low",
+      title: "Security headers differ between pages",
+      recommendation:
+        "Set security headers at the server or CDN level so every page sends the same values",
+      pages: secData._aggregation?.inconsistentPages ?? [],
+      evidence: inconsistentHeaders.join(", "),
+    });
+  }
+
+  // Weaknesses of the CSP and HSTS headers, one finding each
+  for (const weakness of secData.policyWeaknesses) {
+    add({
+      ...POLICY_FINDINGS[weakness.id],
+      pages: pagesWhere((sec) =>
+        sec.policyWeaknesses.some((w) => w.id === weakness.id)
+      ),
+      evidence: weakness.evidence,
+    });
   }
 
   // Analyze version exposure
   const versionExposure: SecurityAnalysis["versionExposure"] =
     secData.exposedWpVersion ? "exposed" : "hidden";
   if (secData.exposedWpVersion) {
-    issues.push("WordPress version is publicly exposed");
-    recommendations.push("Hide WordPress version to reduce attack surface");
+    add({
+      id: "SEC-WP-VERSION-EXPOSED",
+      severity: "medium",
+      title: "WordPress version is publicly exposed",
+      recommendation: "Hide WordPress version to reduce attack surface",
+      pages: pagesWhere((sec) => sec.exposedWpVersion),
+    });
+  }
+
+  // Known vulnerabilities in the detected versions (matches are sorted by
+  // severity, so the first one sets the status)
+  const vulnerabilityStatus: SecurityAnalysis["vulnerabilityStatus"] =
+    vulnerabilities === null
+      ? "unchecked"
+      : vulnerabilities[0]?.advisory.severity ?? "none";
+  for (const match of vulnerabilities ?? []) {
+    const { advisory, component, installedVersion, confidence } = match;
+    const name = component === "WordPress" ? "WordPress" : `"${component}"`;
+    add({
+      id: `SEC-VULN-${advisory.id}`,
+      severity: advisory.severity,
+      title: `${name} ${installedVersion} is affected by ${advisory.id}: ${advisory.title}`,
+      recommendation: advisory.fixedIn
+        ? `Update ${name} to ${advisory.fixedIn} or later`
+        : `Remove or replace ${name}; no fixed version is available`,
+      evidence:
+        `Affected versions: ${advisory.affected}` +
+        (confidence === "low" ? " (installed version is uncertain)" : ""),
+    });
+  }
+
+  // Usernames listed by the REST API or revealed by author archives
+  const users = site?.userEnumeration;
+  const usernameExposure: SecurityAnalysis["usernameExposure"] =
+    users && users.exposedUsers > 0 ? "exposed" : "hidden";
+  if (users && users.restApiUsers > 0) {
+    add({
+      id: "SEC-USERS-REST-EXPOSED",
+      severity: "medium",
+      title: `The REST API lists ${users.restApiUsers} username${
+        users.restApiUsers === 1 ? "" : "s"
+      } to anonymous visitors`,
+      recommendation:
+        "Restrict /wp-json/wp/v2/users to logged-in users (e.g. with a rest_endpoints filter or a security plugin)",
+      evidence: `/wp-json/wp/v2/users returned ${users.restApiUsers} users`,
+    });
+  }
+  if (users && users.authorArchiveUsers > 0) {
+    add({
+      id: "SEC-USERS-AUTHOR-ENUMERATION",
+      severity: "medium",
+      title: `Author archives reveal ${users.authorArchiveUsers} username${
+        users.authorArchiveUsers === 1 ? "" : "s"
+      } through /?author=N`,
+      recommendation:
+        "Block /?author=N requests or stop them redirecting to author archives",
+      evidence: `${users.authorArchiveUsers} of ${users.authorIdsProbed} author IDs revealed a username`,
+    });
+  }
+
+  const exposedPaths = addSensitivePathFindings(add, site?.sensitivePaths);
+  const fileExposure: SecurityAnalysis["fileExposure"] = !site?.sensitivePaths
+    ? "unchecked"
+    : SEVERITY_ORDER.find((severity) =>
+        exposedPaths.some(
+          (item) => SENSITIVE_PATH_FINDINGS[item.check].severity === severity
+        )
+      ) ?? "none";
+
+  // http:// subresources on HTTPS pages
+  const mixedContent: SecurityAnalysis["mixedContent"] =
+    secData.mixedContent.some((resource) => resource.type === "active")
+      ? "active"
+      : secData.mixedContent.length > 0
+      ? "passive"
+      : "none";
+  for (const type of ["active", "passive"] as const) {
+    const resources = secData.mixedContent.filter(
+      (resource) => resource.type === type
+    );
+    if (resources.length === 0) continue;
+    add({
+      ...MIXED_CONTENT_FINDINGS[type],
+      pages: pagesWhere((sec) =>
+        sec.mixedContent.some((resource) => resource.type === type)
+      ),
+      evidence: listResources(resources.map((resource) => resource.url)),
+    });
   }
 
+  const insecureCookies = addCookieFindings(add, secData.cookies, pagesWhere);
+  // Session cookies that can be stolen over HTTP or by an injected script
+  const sessionCookieAtRisk = secData.cookies.some(
+    (cookie) =>
+      cookie.session &&
+      cookie.issues.some((issue) => issue !== "missing-samesite")
+  );
+
   // Overall posture
   let overallPosture: SecurityAnalysis["overallPosture"];
   if (
     httpsStatus === "secure" &&
     headersCoverage === "excellent" &&
-    versionExposure === "hidden"
+    versionExposure === "hidden" &&
+    ["unchecked", "none"].includes(vulnerabilityStatus) &&
+    exposedPaths.length === 0 &&
+    !sessionCookieAtRisk &&
+    mixedContent === "none"
   ) {
     overallPosture = "strong";
-  } else if (httpsStatus === "insecure" || headersCoverage === "none") {
+  } else if (
+    httpsStatus === "insecure" ||
+    headersCoverage === "none" ||
+    mixedContent === "active" ||
+    ["critical", "high"].includes(vulnerabilityStatus) ||
+    exposedPaths.some((item) =>
+      ["config-backup", "debug-log"].includes(item.check)
+    )
+  ) {
     overallPosture = "weak";
   } else {
     overallPosture = "moderate";
@@ -83,7 +467,77 @@ export function analyzeSecurity(secData: SecurityResult): SecurityAnalysis {
     headersCoverage,
     versionExposure,
     overallPosture,
-    issues,
+    inconsistentHeaders,
+    vulnerabilities: vulnerabilities ?? [],
+    vulnerabilityStatus,
+    exposedPaths: exposedPaths.map((item) => item.path),
+    fileExposure,
+    usernameExposure,
+    insecureCookies,
+    mixedContent,
+    findings,
     recommendations,
   };
 }
+
+/**
+ * One finding per exposed check; config backups found under several names
+ * share a finding listing every path. Returns the exposed paths.
+ */
+function addSensitivePathFindings(
+  add: AddFinding,
+  sensitivePaths: SensitivePath[] = []
+): SensitivePath[] {
+  const exposed = sensitivePaths.filter((item) => item.exposure === "exposed");
+
+  for (const check of Object.keys(
+    SENSITIVE_PATH_FINDINGS
+  ) as SensitivePath["check"][]) {
+    const paths = exposed
+      .filter((item) => item.check === check)
+      .map((item) => item.path);
+    if (paths.length > 0) {
+      add({ ...SENSITIVE_PATH_FINDINGS[check], evidence: paths.join(", ") });
+    }
+  }
+
+  return exposed;
+}
+
+/**
+ * One finding per cookie issue, listing the affected cookies and pages.
+ * Returns the names of cookies with any issue.
+ */
+function addCookieFindings(
+  add: AddFinding,
+  cookies: SetCookie[],
+  pagesWhere: (test: (sec: SecurityResult) => boolean) => string[]
+): string[] {
+  for (const issue of Object.keys(COOKIE_FINDINGS) as CookieIssue[]) {
+    const affected = cookies.filter((cookie) => cookie.issues.includes(issue));
+    if (affected.length === 0) continue;
+
+    // SameSite defaults to Lax in modern browsers, so it stays low
+    const sessionAffected =
+      issue !== "missing-samesite" && affected.some((cookie) => cookie.session);
+    add({
+      ...COOKIE_FINDINGS[issue],
+      ...(sessionAffected ? { severity: "high" as const } : {}),
+      pages: pagesWhere((sec) =>
+        sec.cookies.some((cookie) => cookie.issues.includes(issue))
+      ),
+      evidence: affected.map((cookie) => cookie.name).join(", "),
+    });
+  }
+
+  return cookies
+    .filter((cookie) => cookie.issues.length > 0)
+    .map((cookie) => cookie.name);
+}
+
+function listResources(urls: string[]): string {
+  const shown = urls.slice(0, MAX_EVIDENCE_URLS).join(", ");
+  return urls.length > MAX_EVIDENCE_URLS
+    ? `${shown} and ${urls.length - MAX_EVIDENCE_URLS} more`
+    : shown;
+}
@@ -2,13 +2,33 @@
  * SEO Analyzer - Evaluates SEO fundamentals and provides recommendations
  */
 
-import type { SeoResult, SeoAnalysis } from "../types.js";
+import { createFindingList } from "./findings.js";
+import { addRedirectSeoFindings } from "./redirects.js";
+import type {
+  SeoResult,
+  SeoAnalysis,
+  PageResult,
+  RedirectFailure,
+  SiteResult,
+} from "../types.js";
 
+/**
+ * Analyze SEO data. pageResults are the pages behind the (possibly
+ * aggregated) data and are used to list the pages each finding affects.
+ * site adds the redirect probes of the base URL, and redirectFailures the
+ * requested pages that never stopped redirecting.
+ */
 export function analyzeSeo(
-  seoData: SeoResult & { _aggregation?: any }
+  seoData: SeoResult & { _aggregation?: any },
+  pageResults: PageResult[] = [],
+  site?: SiteResult,
+  redirectFailures: RedirectFailure[] = []
 ): SeoAnalysis {
-  const issues: string[] = [];
-  const recommendations: string[] = [];
+  const { findings, recommendations, add } = createFindingList("seo");
+  const pagesWhere = (test: (seo: SeoResult) => boolean): string[] =>
+    pageResults.filter((p) => test(p.seoResult)).map((p) => p.path);
+  const pagesWithoutTitle = pagesWhere((seo) => !seo.title);
+  const pagesWithoutMeta = pagesWhere((seo) => !seo.metaDescription);
 
   // Check if we have multi-page aggregation data
   const hasAggregation = !!seoData._aggregation;
@@ -24,26 +44,39 @@ export function analyzeSeo(
     } else if (coverage >= 0.7) {
       titleQuality = "good";
       const missingPercent = Math.round((1 - coverage) * 100);
-      issues.push(`${missingPercent}% of pages are missing title tags`);
-      recommendations.push(
-        "Add descriptive, keyword-rich title tags to all pages"
-      );
+      add({
+        id: "SEO-TITLE-MISSING",
+        severity: "medium",
+        title: `${missingPercent}% of pages are missing title tags`,
+        recommendation: "Add descriptive, keyword-rich title tags to all pages",
+        pages: pagesWithoutTitle,
+        evidence: `Weighted title coverage ${Math.round(coverage * 100)}%`,
+      });
     } else {
       titleQuality = "missing";
       const missingPercent = Math.round((1 - coverage) * 100);
-      issues.push(`${missingPercent}% of pages are missing title tags`);
-      recommendations.push(
-        "Critically: Many pages lack title tags. Add unique titles to every page"
-      );
+      add({
+        id: "SEO-TITLE-MISSING",
+        severity: "high",
+        title: `${missingPercent}% of pages are missing title tags`,
+        recommendation:
+          "Critically: Many pages lack title tags. Add unique titles to every page",
+        pages: pagesWithoutTitle,
+        evidence: `Weighted title coverage ${Math.round(coverage * 100)}%`,
+      });
     }
   } else {
     // Single page analysis
     if (!seoData.title) {
       titleQuality = "missing";
-      issues.push("Page title is missing");
-      recommendations.push(
-        "Add a descriptive, keyword-rich title tag to every page"
-      );
+      add({
+        id: "SEO-TITLE-MISSING",
+        severity: "high",
+        title: "Page title is missing",
+        recommendation:
+          "Add a descriptive, keyword-rich title tag to every page",
+        pages: pagesWithoutTitle,
+      });
     } else if (seoData.title.length < 30 || seoData.title.length > 60) {
       titleQuality = "good";
       if (seoData.title.length < 30) {
@@ -69,26 +102,44 @@ export function analyzeSeo(
     } else if (coverage >= 0.7) {
       metaDescriptionQuality = "good";
       const missingPercent = Math.round((1 - coverage) * 100);
-      issues.push(`${missingPercent}% of pages are missing meta descriptions`);
-      recommendations.push(
-        "Add unique meta descriptions to all pages (aim for 150-160 characters)"
-      );
+      add({
+        id: "SEO-META-DESCRIPTION-MISSING",
+        severity: "low",
+        title: `${missingPercent}% of pages are missing meta descriptions`,
+        recommendation:
+          "Add unique meta descriptions to all pages (aim for 150-160 characters)",
+        pages: pagesWithoutMeta,
+        evidence: `Weighted meta description coverage ${Math.round(
+          coverage * 100
+        )}%`,
+      });
     } else {
       metaDescriptionQuality = "missing";
       const missingPercent = Math.round((1 - coverage) * 100);
-      issues.push(`${missingPercent}% of pages are missing meta descriptions`);
-      recommendations.push(
-        "Critically: Many pages lack meta descriptions. Add unique descriptions to improve click-through rates"
-      );
+      add({
+        id: "SEO-META-DESCRIPTION-MISSING",
+        severity: "medium",
+        title: `${missingPercent}% of pages are missing meta descriptions`,
+        recommendation:
+          "Critically: Many pages lack meta descriptions. Add unique descriptions to improve click-through rates",
+        pages: pagesWithoutMeta,
+        evidence: `Weighted meta description coverage ${Math.round(
+          coverage * 100
+        )}%`,
+      });
     }
   } else {
     // Single page analysis
     if (!seoData.metaDescription) {
       metaDescriptionQuality = "missing";
-      issues.push("Meta description is missing");
-      recommendations.push(
-        "Add unique meta descriptions to improve click-through rates (aim for 150-160 characters)"
-      );
+      add({
+        id: "SEO-META-DESCRIPTION-MISSING",
+        severity: "medium",
+        title: "Meta description is missing",
+        recommendation:
+          "Add unique meta descriptions to improve click-through rates (aim for 150-160 characters)",
+        pages: pagesWithoutMeta,
+      });
     } else if (
       seoData.metaDescription.length < 120 ||
       seoData.metaDescription.length > 160
@@ -106,43 +157,66 @@ export function analyzeSeo(
     }
   }
 
-  // Analyze H1
+  // Analyze H1. Missing and multiple H1s keep their own finding IDs on
+  // multi-page runs; coverage only decides the quality and severity.
   let h1Quality: SeoAnalysis["h1Quality"];
   if (isMultiPage) {
     const coverage = seoData._aggregation.h1Coverage;
+    const evidence = `Weighted H1 coverage ${Math.round(coverage * 100)}%`;
+    const pagesWithoutH1 = pagesWhere((seo) => seo.h1Tags.length === 0);
+    const pagesWithManyH1 = pagesWhere((seo) => seo.h1Tags.length > 1);
+    const ofPages = (pages: string[]) =>
+      `${pages.length} of ${pageResults.length} pages`;
     if (coverage >= 0.95) {
       h1Quality = "excellent";
-    } else if (coverage >= 0.7) {
-      h1Quality = "issues";
-      const missingPercent = Math.round((1 - coverage) * 100);
-      issues.push(
-        `${missingPercent}% of pages have missing or multiple H1 tags`
-      );
-      recommendations.push("Ensure every page has exactly one H1 heading");
     } else {
-      h1Quality = "missing";
-      const missingPercent = Math.round((1 - coverage) * 100);
-      issues.push(
-        `${missingPercent}% of pages have missing or multiple H1 tags`
-      );
-      recommendations.push(
-        "Critically: Fix H1 structure - every page needs exactly one H1"
-      );
+      h1Quality = coverage >= 0.7 ? "issues" : "missing";
+      if (pagesWithoutH1.length > 0) {
+        add({
+          id: "SEO-H1-MISSING",
+          severity: coverage >= 0.7 ? "low" : "medium",
+          title: `${ofPages(pagesWithoutH1)} have no H1 heading`,
+          recommendation:
+            coverage >= 0.7
+              ? "Ensure every page has exactly one H1 heading"
+              : "Critically: Fix H1 structure - every page needs exactly one H1",
+          pages: pagesWithoutH1,
+          evidence,
+        });
+      }
+      if (pagesWithManyH1.length > 0) {
+        add({
+          id: "SEO-H1-MULTIPLE",
+          severity: "low",
+          title: `${ofPages(pagesWithManyH1)} have multiple H1 tags`,
+          recommendation: "Use only one H1 per page; use H2-H6 for subheadings",
+          pages: pagesWithManyH1,
+          evidence,
+        });
+      }
     }
   } else {
     // Single page analysis
     if (seoData.h1Tags.length === 0) {
       h1Quality = "missing";
-      issues.push("No H1 heading found");
-      recommendations.push(
-        "Add exactly one H1 heading per page for better structure"
-      );
+      add({
+        id: "SEO-H1-MISSING",
+        severity: "medium",
+        title: "No H1 heading found",
+        recommendation:
+          "Add exactly one H1 heading per page for better structure",
+        pages: pagesWhere((seo) => seo.h1Tags.length === 0),
+      });
     } else if (seoData.h1Tags.length > 1) {
       h1Quality = "issues";
-      issues.push(`Multiple H1 tags found (${seoData.h1Tags.length})`);
-      recommendations.push(
-        "Use only one H1 per page; use H2-H6 for subheadings"
-      );
+      add({
+        id: "SEO-H1-MULTIPLE",
+        severity: "low",
+        title: `Multiple H1 tags found (${seoData.h1Tags.length})`,
+        recommendation: "Use only one H1 per page; use H2-H6 for subheadings",
+        pages: pagesWhere((seo) => seo.h1Tags.length > 1),
+        evidence: seoData.h1Tags.join(" | "),
+      });
     } else {
       h1Quality = "excellent";
     }
@@ -158,18 +232,27 @@ export function analyzeSeo(
 
   // Check robots.txt
   if (!seoData.hasRobotsTxt) {
-    issues.push("No robots.txt file found");
-    recommendations.push("Create robots.txt to guide search engine crawlers");
+    add({
+      id: "SEO-ROBOTS-MISSING",
+      severity: "low",
+      title: "No robots.txt file found",
+      recommendation: "Create robots.txt to guide search engine crawlers",
+    });
   }
 
   // Check sitemap
   if (!seoData.hasSitemap) {
-    issues.push("No sitemap.xml found");
-    recommendations.push(
-      "Generate and submit an XML sitemap to search engines"
-    );
+    add({
+      id: "SEO-SITEMAP-MISSING",
+      severity: "medium",
+      title: "No sitemap.xml found",
+      recommendation: "Generate and submit an XML sitemap to search engines",
+    });
   }
 
+  // Check redirects
+  addRedirectSeoFindings(add, pageResults, site, redirectFailures);
+
   return {
     titleQuality,
     metaDescriptionQuality,
@@ -177,7 +260,7 @@ export function analyzeSeo(
     hasCanonical,
     hasRobotsTxt: seoData.hasRobotsTxt,
     hasSitemap: seoData.hasSitemap,
-    issues,
+    findings,
     recommendations,
   };
 }
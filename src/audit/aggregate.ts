@@ -0,0 +1,229 @@
+/**
+ * Aggregation - Combines per-page collector results into site-level inputs
+ * for the analyzers
+ */
+
+import type {
+  PageResult,
+  PerformanceResult,
+  SecurityResult,
+  SeoResult,
+  SetCookie,
+} from "../types.js";
+
+export interface SeoAggregation {
+  titleCoverage: number;
+  metaCoverage: number;
+  canonicalCoverage: number;
+  h1Coverage: number;
+  totalPages: number;
+}
+
+export interface SecurityAggregation {
+  httpsPages: number;
+  totalPages: number;
+  // Security headers that are missing or set differently on some pages
+  inconsistentHeaders: string[];
+  // Pages that differ from the most common value of any of those headers
+  inconsistentPages: string[];
+}
+
+export function isHomepage(path: string): boolean {
+  return path === "/" || path === "";
+}
+
+/**
+ * Average performance metrics across all pages (zero when none loaded)
+ */
+export function aggregatePerformance(
+  pageResults: PageResult[]
+): PerformanceResult {
+  const average = (pick: (perf: PerformanceResult) => number): number =>
+    Math.round(
+      pageResults.reduce((sum, p) => sum + pick(p.performanceResult), 0) /
+        Math.max(pageResults.length, 1)
+    );
+
+  return {
+    htmlSizeBytes: average((perf) => perf.htmlSizeBytes),
+    numScripts: average((perf) => perf.numScripts),
+    numStylesheets: average((perf) => perf.numStylesheets),
+    blockingScripts: average((perf) => perf.blockingScripts),
+    blockingStylesheets: average((perf) => perf.blockingStylesheets),
+    imageFormats: {
+      jpeg: average((perf) => perf.imageFormats.jpeg),
+      png: average((perf) => perf.imageFormats.png),
+      webp: average((perf) => perf.imageFormats.webp),
+      avif: average((perf) => perf.imageFormats.avif),
+      svg: average((perf) => perf.imageFormats.svg),
+      gif: average((perf) => perf.imageFormats.gif),
+    },
+    hasCacheControl: pageResults.some(
+      (p) => p.performanceResult.hasCacheControl
+    ),
+    cacheControlValue: pageResults.find(
+      (p) => p.performanceResult.cacheControlValue
+    )?.performanceResult.cacheControlValue,
+  };
+}
+
+/**
+ * Aggregate SEO data (weighted average - homepage gets 2x weight)
+ */
+export function aggregateSeo(
+  pageResults: PageResult[]
+): SeoResult & { _aggregation: SeoAggregation } {
+  const seoScores = pageResults.map((p) => ({
+    page: p,
+    weight: isHomepage(p.path) ? 2 : 1,
+  }));
+
+  const totalSeoWeight = Math.max(
+    seoScores.reduce((sum, s) => sum + s.weight, 0),
+    1
+  );
+
+  // Count pages with good SEO elements (weighted)
+  const pagesWithTitle = seoScores
+    .filter((s) => s.page.seoResult.title)
+    .reduce((sum, s) => sum + s.weight, 0);
+  const pagesWithMeta = seoScores
+    .filter((s) => s.page.seoResult.metaDescription)
+    .reduce((sum, s) => sum + s.weight, 0);
+  const pagesWithCanonical = seoScores
+    .filter((s) => s.page.seoResult.canonicalUrl)
+    .reduce((sum, s) => sum + s.weight, 0);
+  const pagesWithGoodH1 = seoScores
+    .filter((s) => s.page.seoResult.h1Tags.length === 1)
+    .reduce((sum, s) => sum + s.weight, 0);
+
+  return {
+    title: pagesWithTitle > 0 ? pageResults[0].seoResult.title : undefined, // Use first page's title for display
+    metaDescription:
+      pagesWithMeta > 0 ? pageResults[0].seoResult.metaDescription : undefined,
+    canonicalUrl:
+      pagesWithCanonical > 0
+        ? pageResults[0].seoResult.canonicalUrl
+        : undefined,
+    h1Tags: pagesWithGoodH1 > 0 ? pageResults[0].seoResult.h1Tags : [],
+    hasRobotsTxt: pageResults.some((p) => p.seoResult.hasRobotsTxt),
+    hasSitemap: pageResults.some((p) => p.seoResult.hasSitemap),
+    // Add aggregation metadata for analyzer
+    _aggregation: {
+      titleCoverage: pagesWithTitle / totalSeoWeight,
+      metaCoverage: pagesWithMeta / totalSeoWeight,
+      canonicalCoverage: pagesWithCanonical / totalSeoWeight,
+      h1Coverage: pagesWithGoodH1 / totalSeoWeight,
+      totalPages: pageResults.length,
+    },
+  };
+}
+
+/**
+ * Merge security results across all pages. A protection only counts when
+ * every page has it, and at least one page loaded; a weakness counts when
+ * any page has it.
+ */
+export function aggregateSecurity(
+  pageResults: PageResult[]
+): SecurityResult & { _aggregation: SecurityAggregation } {
+  const results = pageResults.map((p) => p.securityResult);
+  const every = (pick: (sec: SecurityResult) => boolean): boolean =>
+    results.length > 0 && results.every(pick);
+
+  // Headers that are absent on some pages or whose value varies
+  const headerNames = new Set(
+    results.flatMap((sec) => Object.keys(sec.securityHeaders))
+  );
+  const valueOf = (sec: SecurityResult, name: string): string =>
+    normalizeHeaderValue(sec.securityHeaders[name] ?? "");
+  const inconsistentHeaders = [...headerNames].filter(
+    (name) => new Set(results.map((sec) => valueOf(sec, name))).size > 1
+  );
+  const commonValues = new Map(
+    inconsistentHeaders.map((name) => [
+      name,
+      mostCommon(results.map((sec) => valueOf(sec, name))),
+    ])
+  );
+  const inconsistentPages = pageResults
+    .filter((p) =>
+      inconsistentHeaders.some(
+        (name) => valueOf(p.securityResult, name) !== commonValues.get(name)
+      )
+    )
+    .map((p) => p.path);
+
+  // Keep header values that every page agrees on
+  const securityHeaders: Record<string, string> = {};
+  for (const name of headerNames) {
+    if (!inconsistentHeaders.includes(name)) {
+      securityHeaders[name] = results[0].securityHeaders[name];
+    }
+  }
+
+  return {
+    isHttps: every((sec) => sec.isHttps),
+    hasXContentTypeOptions: every((sec) => sec.hasXContentTypeOptions),
+    hasXFrameOptions: every((sec) => sec.hasXFrameOptions),
+    hasContentSecurityPolicy: every((sec) => sec.hasContentSecurityPolicy),
+    exposedWpVersion: results.some((sec) => sec.exposedWpVersion),
+    securityHeaders,
+    // Each weakness once, with the evidence from the first page that has it
+    policyWeaknesses: results
+      .flatMap((sec) => sec.policyWeaknesses)
+      .filter(
+        (weakness, i, all) => all.findIndex((w) => w.id === weakness.id) === i
+      ),
+    cookies: mergeCookies(results.flatMap((sec) => sec.cookies)),
+    // Each resource once; the pages that load it are listed per finding
+    mixedContent: results
+      .flatMap((sec) => sec.mixedContent)
+      .filter(
+        (resource, i, all) =>
+          all.findIndex((r) => r.url === resource.url) === i
+      ),
+    _aggregation: {
+      httpsPages: results.filter((sec) => sec.isHttps).length,
+      totalPages: results.length,
+      inconsistentHeaders,
+      inconsistentPages,
+    },
+  };
+}
+
+/**
+ * One entry per cookie name; a cookie set differently on some pages keeps
+ * every issue found on any page
+ */
+function mergeCookies(cookies: SetCookie[]): SetCookie[] {
+  const merged = new Map<string, SetCookie>();
+  for (const cookie of cookies) {
+    const existing = merged.get(cookie.name);
+    merged.set(
+      cookie.name,
+      existing
+        ? {
+            ...existing,
+            issues: [...new Set([...existing.issues, ...cookie.issues])],
+          }
+        : cookie
+    );
+  }
+  return [...merged.values()];
+}
+
+// Per-response CSP nonces are expected to differ between pages
+function normalizeHeaderValue(value: string): string {
+  return value.replace(/'nonce-[^']*'/g, "'nonce'").trim().toLowerCase();
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()].reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best
+  )[0];
+}
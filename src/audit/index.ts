@@ -0,0 +1,470 @@
+/**
+ * Audit Runner - Programmatic entry point that orchestrates collectors,
+ * analyzers and scoring without any console output or process exits
+ */
+
+import {
+  createHttpContext,
+  fetchPage,
+  redactError,
+  requestSecrets,
+  stripCredentials,
+} from "../collectors/httpCollector.js";
+import type { HttpContext } from "../collectors/httpCollector.js";
+import { detectWordPress } from "../collectors/wpDetector.js";
+import { collectSeoData } from "../collectors/seoCollector.js";
+import { collectPerformanceData } from "../collectors/performanceCollector.js";
+import { collectSecurityData } from "../collectors/securityCollector.js";
+import { collectModernizationData } from "../collectors/modernizationCollector.js";
+import {
+  collectLighthouseData,
+  PAGESPEED_API_URL,
+} from "../collectors/lighthouseCollector.js";
+import {
+  archiveFileFor,
+  replayHasHost,
+  saveRecording,
+  startRecording,
+  startReplay,
+} from "../collectors/archive.js";
+import { fetchSitemap, selectTopPages } from "../collectors/sitemapCollector.js";
+import { collectSiteData } from "../collectors/siteCollector.js";
+import { matchAdvisories } from "../advisories/index.js";
+import { analyzePerformance } from "../analyzers/performance.js";
+import { analyzeSeo } from "../analyzers/seo.js";
+import { analyzeSecurity } from "../analyzers/security.js";
+import { analyzeModernization } from "../analyzers/modernization.js";
+import { calculateScores } from "../scoring/scorer.js";
+import { rankFindings } from "../analyzers/findings.js";
+import { resolveProfile } from "../scoring/profiles.js";
+import {
+  aggregatePerformance,
+  aggregateSecurity,
+  aggregateSeo,
+} from "./aggregate.js";
+import { runPool } from "./pool.js";
+import type {
+  AuditConfig,
+  AuditOptions,
+  AuditProgressEvent,
+  AuditResult,
+  LighthouseData,
+  ModernizationAnalysis,
+  PageResult,
+  PageScore,
+  RedirectFailure,
+  RequestOptions,
+  RequestSummary,
+  ScoringProfile,
+  SiteResult,
+  VulnerabilityMatch,
+} from "../types.js";
+
+/**
+ * Run a full audit and resolve with the structured result.
+ *
+ * Progress is reported through `options.onProgress`. Collector debug logging
+ * is only printed when `config.verbose` is set.
+ */
+export async function audit(
+  config: AuditConfig,
+  options: AuditOptions = {}
+): Promise<AuditResult> {
+  const emit = (event: AuditProgressEvent) => options.onProgress?.(event);
+
+  // Resolve the scoring profile up front so a bad name fails before any requests
+  const profile =
+    typeof config.scoringProfile === "object"
+      ? config.scoringProfile
+      : resolveProfile(config.scoringProfile ?? "default");
+
+  // Credentials in the URL itself become basic auth so they are never
+  // written to reports
+  const { url, request } = extractCredentials(config.url, config.request ?? {});
+  config = { ...config, url, request };
+
+  // Replay serves recorded responses; a missing archive fails before any work
+  const archive = config.replay
+    ? startReplay(archiveFileFor(config.replay, url))
+    : config.record
+    ? startRecording(archiveFileFor(config.record, url))
+    : null;
+
+  // All HTTP state belongs to this run, so concurrent audits stay apart.
+  // Every request made during the run is fetched at most once.
+  const http = createHttpContext({
+    request,
+    credentialHosts: [new URL(url).host],
+    limits: {
+      maxConcurrent: config.hostConcurrency ?? 2,
+      minDelayMs: config.requestDelayMs ?? 0,
+    },
+    archive,
+    cache: true,
+  });
+
+  try {
+    return await runAudit(http, config, profile, emit);
+  } catch (error) {
+    throw redactError(error, requestSecrets(request));
+  } finally {
+    // Failed runs are saved too so the failure can be reproduced
+    const saved = saveRecording(archive);
+    if (saved) {
+      emit({ type: "archive:saved", ...saved });
+    }
+  }
+}
+
+async function runAudit(
+  http: HttpContext,
+  config: AuditConfig,
+  profile: ScoringProfile,
+  emit: (event: AuditProgressEvent) => void
+): Promise<AuditResult> {
+  const verbose = config.verbose ?? false;
+
+  const pagesToAudit = await resolvePages(http, config, emit);
+
+  emit({ type: "audit:start", url: config.url, pages: pagesToAudit });
+
+  // Site-wide facts (robots.txt, sitemap.xml, REST API root, user enumeration,
+  // sensitive paths) are checked once
+  const site = await collectSiteData(http, config.url, verbose, {
+    probeSensitivePaths: config.probeSensitivePaths,
+    reportUsernames: config.reportUsernames,
+  });
+  emit({ type: "site:complete", site });
+
+  // Audit pages in parallel; results keep the order of pagesToAudit
+  const auditedPages = await runPool(
+    pagesToAudit,
+    config.concurrency ?? 1,
+    (pagePath, index) => auditPage(http, config, site, pagePath, index, emit)
+  );
+  const pageResults = auditedPages.filter(
+    (page): page is PageResult => page !== null && "httpResult" in page
+  );
+  const redirectFailures = auditedPages.filter(
+    (page): page is RedirectFailure => page !== null && "error" in page
+  );
+
+  // A site whose pages only redirect in circles is still reported, with the
+  // loop as its finding
+  if (pageResults.length === 0 && redirectFailures.length === 0) {
+    throw new Error("No pages could be successfully audited.");
+  }
+
+  // Detect WordPress (using first successful page)
+  const firstPage = pageResults[0] as PageResult | undefined;
+  const firstHtml = firstPage?.httpResult.body ?? "";
+  emit({ type: "wordpress:start" });
+  const wpDetection = await detectWordPress(
+    http,
+    config.url,
+    firstHtml,
+    verbose,
+    config.probePluginReadmes ?? false
+  );
+  emit({ type: "wordpress:complete", detection: wpDetection });
+  const vulnerabilities = config.advisories
+    ? matchAdvisories(wpDetection, config.advisories)
+    : null;
+
+  // Collect modernization data
+  emit({ type: "modernization:start" });
+  const modernizationResult = await collectModernizationData(
+    http,
+    config.url,
+    firstHtml,
+    verbose
+  );
+
+  // Aggregate results across all pages
+  const aggregatedPerf = aggregatePerformance(pageResults);
+  const aggregatedSeo = aggregateSeo(pageResults);
+  const aggregatedSecurity = aggregateSecurity(pageResults);
+
+  // Get lighthouse data from homepage if available (v0.4.0)
+  const lighthouseData =
+    pageResults.find((p) => p.path === "/")?.lighthouseData ||
+    firstPage?.lighthouseData;
+
+  // Run analyzers
+  emit({ type: "analysis:start" });
+  const performanceAnalysis = analyzePerformance(
+    aggregatedPerf,
+    lighthouseData,
+    pageResults,
+    site
+  );
+  const seoAnalysis = analyzeSeo(
+    aggregatedSeo,
+    pageResults,
+    site,
+    redirectFailures
+  );
+  const securityAnalysis = analyzeSecurity(
+    aggregatedSecurity,
+    pageResults,
+    vulnerabilities,
+    site
+  );
+  const modernizationAnalysis = analyzeModernization(modernizationResult);
+
+  // Calculate scores
+  const scores = calculateScores(
+    performanceAnalysis,
+    seoAnalysis,
+    securityAnalysis,
+    modernizationAnalysis,
+    profile
+  );
+
+  // Score every page on its own so a weak page is not hidden in the average
+  const pageScores = pageResults.map((page) =>
+    scorePage(page, site, modernizationAnalysis, vulnerabilities, profile)
+  );
+
+  // Top issues are the most severe findings; ties keep category order
+  const topIssues = rankFindings([
+    ...securityAnalysis.findings,
+    ...performanceAnalysis.findings,
+    ...seoAnalysis.findings,
+    ...modernizationAnalysis.findings,
+  ]);
+
+  const result: AuditResult = {
+    url: config.url,
+    pages: pageResults,
+    redirectFailures,
+    timestamp: new Date().toISOString(),
+    site,
+    wpDetection,
+    scores,
+    analyses: {
+      performance: performanceAnalysis,
+      seo: seoAnalysis,
+      security: securityAnalysis,
+      modernization: modernizationAnalysis,
+    },
+    topIssues: topIssues.slice(0, 5),
+    pageScores,
+    request: summarizeRequest(config.request ?? {}),
+  };
+
+  emit({ type: "audit:complete", result });
+
+  return result;
+}
+
+/**
+ * Move user:password from the site URL into the basic auth option. URLs
+ * without credentials are returned unchanged.
+ */
+function extractCredentials(
+  siteUrl: string,
+  request: RequestOptions
+): { url: string; request: RequestOptions } {
+  const parsed = new URL(siteUrl);
+  if (!parsed.username && !parsed.password) {
+    return { url: siteUrl, request };
+  }
+
+  const auth = request.auth ?? {
+    username: decodeURIComponent(parsed.username),
+    password: decodeURIComponent(parsed.password),
+  };
+  return { url: stripCredentials(siteUrl), request: { ...request, auth } };
+}
+
+function summarizeRequest(request: RequestOptions): RequestSummary {
+  return {
+    userAgent: request.userAgent,
+    authenticated: !!request.auth,
+    headers: Object.keys(request.headers ?? {}),
+    cookies: request.cookies?.length ?? 0,
+  };
+}
+
+/**
+ * Run the analyzers and scorer on a single page's collector results.
+ * Site-wide facts (redirect probes, user enumeration, sensitive paths,
+ * advisories, modernization) count in every category of every page, so
+ * pages only differ in what they show themselves.
+ */
+function scorePage(
+  page: PageResult,
+  site: SiteResult,
+  modernizationAnalysis: ModernizationAnalysis,
+  vulnerabilities: VulnerabilityMatch[] | null,
+  profile: ScoringProfile
+): PageScore {
+  const analyses = {
+    performance: analyzePerformance(
+      page.performanceResult,
+      page.lighthouseData,
+      [page],
+      site
+    ),
+    seo: analyzeSeo(page.seoResult, [page], site),
+    security: analyzeSecurity(
+      page.securityResult,
+      [page],
+      vulnerabilities,
+      site
+    ),
+    modernization: modernizationAnalysis,
+  };
+
+  return {
+    path: page.path,
+    url: page.url,
+    scores: calculateScores(
+      analyses.performance,
+      analyses.seo,
+      analyses.security,
+      analyses.modernization,
+      profile
+    ),
+    analyses,
+  };
+}
+
+/**
+ * Fetch and collect a single page. Resolves with the redirect chain when the
+ * page never stopped redirecting, and with null when it could not be fetched.
+ */
+async function auditPage(
+  http: HttpContext,
+  config: AuditConfig,
+  site: SiteResult,
+  pagePath: string,
+  index: number,
+  emit: (event: AuditProgressEvent) => void
+): Promise<PageResult | RedirectFailure | null> {
+  const verbose = config.verbose ?? false;
+  const pageUrl = new URL(pagePath, config.url).toString();
+
+  emit({ type: "page:start", path: pagePath, url: pageUrl });
+
+  // Fetch the page
+  const httpResult = await fetchPage(http, pageUrl, verbose);
+
+  if (httpResult.error || httpResult.status !== 200) {
+    emit({
+      type: "page:skipped",
+      path: pagePath,
+      url: pageUrl,
+      status: httpResult.status,
+      error: httpResult.error,
+    });
+    // Network errors come back without a chain; loops keep theirs
+    return httpResult.error && httpResult.redirects.length > 0
+      ? {
+          path: pagePath,
+          url: pageUrl,
+          redirects: httpResult.redirects,
+          error: httpResult.error,
+        }
+      : null;
+  }
+
+  // Collect data
+  const seoResult = collectSeoData(httpResult.body, site, verbose);
+  const performanceResult = collectPerformanceData(
+    httpResult.body,
+    httpResult.headers
+  );
+  // HTTPS and mixed content depend on where the page was served from, which
+  // a redirect may have changed
+  const securityResult = collectSecurityData(
+    httpResult.finalUrl,
+    httpResult.headers,
+    httpResult.body,
+    httpResult.setCookies
+  );
+
+  // Collect PageSpeed Insights data if API key is provided (v0.4.0) or a
+  // replayed recording includes PageSpeed responses
+  let lighthouseData: LighthouseData | null = null;
+  if (
+    config.psApiKey ||
+    replayHasHost(http.archive, new URL(PAGESPEED_API_URL).host)
+  ) {
+    // Only fetch PageSpeed data for homepage or first few pages to avoid rate limits
+    const shouldFetchPageSpeed = pagePath === "/" || index < 3; // Limit to 3 pages max
+
+    if (shouldFetchPageSpeed) {
+      lighthouseData = await collectLighthouseData(http, pageUrl, {
+        apiKey: config.psApiKey ?? "",
+        strategy: config.psStrategy === "both" ? "mobile" : config.psStrategy,
+        verbose,
+        onWarning: (message) => emit({ type: "warning", message }),
+      });
+
+      // If strategy is "both", also fetch desktop data
+      // For now, we'll just use mobile. Desktop can be added later.
+    }
+  }
+
+  emit({ type: "page:complete", path: pagePath, url: pageUrl });
+
+  return {
+    path: pagePath,
+    url: pageUrl,
+    httpResult,
+    seoResult,
+    performanceResult,
+    securityResult,
+    lighthouseData: lighthouseData || undefined,
+  };
+}
+
+/**
+ * Resolve the list of paths to audit, discovering them from the sitemap
+ * when auto-pages is enabled
+ */
+async function resolvePages(
+  http: HttpContext,
+  config: AuditConfig,
+  emit: (event: AuditProgressEvent) => void
+): Promise<string[]> {
+  if (!config.autoPages) {
+    return config.pages;
+  }
+
+  emit({ type: "discovery:start", url: config.url });
+
+  const sitemapUrls = await fetchSitemap(
+    http,
+    config.url,
+    config.verbose ?? false
+  );
+  let pages: string[];
+
+  if (sitemapUrls.length > 0) {
+    const selectedUrls = selectTopPages(sitemapUrls, config.maxPages || 10);
+
+    // Convert full URLs to paths relative to base URL
+    pages = selectedUrls.map((url) => {
+      try {
+        const urlObj = new URL(url);
+        return urlObj.pathname + urlObj.search || "/";
+      } catch {
+        return "/";
+      }
+    });
+  } else {
+    // No sitemap found, fall back to homepage
+    pages = ["/"];
+  }
+
+  emit({
+    type: "discovery:complete",
+    sitemapUrls: sitemapUrls.length,
+    pages,
+  });
+
+  return pages;
+}
@@ -0,0 +1,29 @@
+/**
+ * Worker Pool - Runs async tasks with bounded concurrency
+ */
+
+/**
+ * Map items through an async worker with at most `concurrency` tasks in
+ * flight. Results keep the order of the input items regardless of which
+ * task finishes first.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return results;
+}
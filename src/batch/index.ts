@@ -0,0 +1,58 @@
+/**
+ * Batch Runner - Audits a list of sites one after another, recording
+ * failures instead of aborting the batch
+ */
+
+import { audit } from "../audit/index.js";
+import type {
+  AuditConfig,
+  BatchOptions,
+  BatchSite,
+  BatchSiteOutcome,
+} from "../types.js";
+
+/**
+ * Audit every site in order. `defaults` supplies the settings each site
+ * does not override.
+ */
+export async function auditBatch(
+  sites: BatchSite[],
+  defaults: Omit<AuditConfig, "url" | "pages"> & { pages?: string[] },
+  options: BatchOptions = {}
+): Promise<BatchSiteOutcome[]> {
+  const outcomes: BatchSiteOutcome[] = [];
+  const total = sites.length;
+
+  for (const [index, site] of sites.entries()) {
+    options.onProgress?.({ type: "site:start", site, index, total });
+
+    const config: AuditConfig = {
+      ...defaults,
+      url: site.url,
+      pages: site.pages ?? defaults.pages ?? ["/"],
+      apiUrl: site.apiUrl ?? defaults.apiUrl,
+      autoPages: site.autoPages ?? defaults.autoPages,
+      maxPages: site.maxPages ?? defaults.maxPages,
+    };
+
+    try {
+      const result = await audit(config, {
+        onProgress: (event) => options.onAuditProgress?.(site, event),
+      });
+      outcomes.push({ site, result });
+      options.onProgress?.({ type: "site:complete", site, index, total, result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcomes.push({ site, error: message });
+      options.onProgress?.({
+        type: "site:failed",
+        site,
+        index,
+        total,
+        error: message,
+      });
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,246 @@
+/**
+ * Site List - Parses batch site lists from plain text, CSV or JSON files
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import type { BatchSite } from "../types.js";
+
+const SITE_KEYS = ["url", "name", "pages", "apiUrl", "autoPages", "maxPages"];
+
+/**
+ * Read and parse a site list file. The format is picked from the file
+ * extension: .json, .csv, anything else is plain text.
+ */
+export async function loadSiteList(filePath: string): Promise<BatchSite[]> {
+  const content = await readFile(filePath, "utf-8");
+  return parseSiteList(content, filePath);
+}
+
+/**
+ * Parse a site list. Entries repeated with the same URL and settings are
+ * audited once; the same URL with other pages or options is kept.
+ */
+export function parseSiteList(content: string, fileName: string): BatchSite[] {
+  const extension = path.extname(fileName).toLowerCase();
+  const sites =
+    extension === ".json"
+      ? parseJsonList(content, fileName)
+      : extension === ".csv"
+      ? parseCsvList(content, fileName)
+      : parseTextList(content, fileName);
+
+  if (sites.length === 0) {
+    throw new Error(`${fileName}: no sites found`);
+  }
+
+  const seen = new Set<string>();
+  return sites.filter((site) => {
+    const key = JSON.stringify(site);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Plain text: one URL per line, blank lines and # comments ignored
+ */
+function parseTextList(content: string, fileName: string): BatchSite[] {
+  const sites: BatchSite[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) return;
+    sites.push({ url: checkUrl(line, `${fileName} line ${idx + 1}`) });
+  });
+
+  return sites;
+}
+
+/**
+ * CSV: optional header row naming the columns (url, name, pages, apiUrl,
+ * autoPages, maxPages). Without a header the columns are url, name, pages.
+ * Multiple pages are separated by "|" or spaces.
+ */
+function parseCsvList(content: string, fileName: string): BatchSite[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line, idx) => ({ cells: splitCsvLine(line), lineNo: idx + 1 }))
+    .filter((row) => row.cells.some((cell) => cell !== ""));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  let columns = ["url", "name", "pages"];
+  const firstRow = rows[0].cells.map((cell) => cell.trim());
+  if (firstRow.some((cell) => cell.toLowerCase() === "url")) {
+    columns = firstRow;
+    for (const column of columns) {
+      if (!SITE_KEYS.includes(column)) {
+        throw new Error(`${fileName} line 1: unknown column "${column}"`);
+      }
+    }
+    rows.shift();
+  }
+
+  return rows.map(({ cells, lineNo }) => {
+    const where = `${fileName} line ${lineNo}`;
+    const entry: Record<string, unknown> = {};
+
+    columns.forEach((column, i) => {
+      const value = (cells[i] ?? "").trim();
+      if (value === "") return;
+
+      switch (column) {
+        case "pages":
+          entry.pages = value.split(/[|\s]+/).filter(Boolean);
+          break;
+        case "autoPages":
+          if (!["true", "false"].includes(value.toLowerCase())) {
+            throw new Error(`${where}: "autoPages" must be true or false`);
+          }
+          entry.autoPages = value.toLowerCase() === "true";
+          break;
+        case "maxPages":
+          entry.maxPages = Number(value);
+          break;
+        default:
+          entry[column] = value;
+      }
+    });
+
+    return toBatchSite(entry, where);
+  });
+}
+
+/**
+ * JSON: an array (or { "sites": [...] }) of URL strings or site objects
+ */
+function parseJsonList(content: string, fileName: string): BatchSite[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`${fileName}: invalid JSON (${msg})`);
+  }
+
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    data = (data as { sites?: unknown }).sites;
+  }
+  if (!Array.isArray(data)) {
+    throw new Error(
+      `${fileName}: expected an array of sites or an object with a "sites" array`
+    );
+  }
+
+  return data.map((item, idx) => {
+    const where = `${fileName} sites[${idx}]`;
+    if (typeof item === "string") {
+      return { url: checkUrl(item, where) };
+    }
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error(`${where}: expected a URL string or an object`);
+    }
+    return toBatchSite(item as Record<string, unknown>, where);
+  });
+}
+
+function toBatchSite(entry: Record<string, unknown>, where: string): BatchSite {
+  for (const key of Object.keys(entry)) {
+    if (!SITE_KEYS.includes(key)) {
+      throw new Error(`${where}: unknown key "${key}"`);
+    }
+  }
+
+  if (typeof entry.url !== "string") {
+    throw new Error(`${where}: "url" is required`);
+  }
+
+  const site: BatchSite = { url: checkUrl(entry.url, where) };
+
+  if (entry.name !== undefined) {
+    if (typeof entry.name !== "string") {
+      throw new Error(`${where}: "name" must be a string`);
+    }
+    site.name = entry.name;
+  }
+  if (entry.pages !== undefined) {
+    if (
+      !Array.isArray(entry.pages) ||
+      !entry.pages.every((page) => typeof page === "string")
+    ) {
+      throw new Error(`${where}: "pages" must be an array of strings`);
+    }
+    site.pages = entry.pages;
+  }
+  if (entry.apiUrl !== undefined) {
+    if (typeof entry.apiUrl !== "string") {
+      throw new Error(`${where}: "apiUrl" must be a string`);
+    }
+    site.apiUrl = checkUrl(entry.apiUrl, where);
+  }
+  if (entry.autoPages !== undefined) {
+    if (typeof entry.autoPages !== "boolean") {
+      throw new Error(`${where}: "autoPages" must be true or false`);
+    }
+    site.autoPages = entry.autoPages;
+  }
+  if (entry.maxPages !== undefined) {
+    const maxPages = entry.maxPages;
+    if (
+      typeof maxPages !== "number" ||
+      !Number.isInteger(maxPages) ||
+      maxPages < 1
+    ) {
+      throw new Error(`${where}: "maxPages" must be a positive integer`);
+    }
+    site.maxPages = maxPages;
+  }
+
+  return site;
+}
+
+function checkUrl(value: string, where: string): string {
+  try {
+    new URL(value);
+    return value;
+  } catch {
+    throw new Error(`${where}: invalid URL "${value}"`);
+  }
+}
+
+/**
+ * Split one CSV line, honoring double-quoted fields and "" escapes
+ */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells;
+}
@@ -0,0 +1,203 @@
+/**
+ * Batch Command - Audits every site in a list file and writes a portfolio
+ * summary next to the per-site reports
+ */
+
+import { Command } from "commander";
+import path from "path";
+import chalk from "chalk";
+import { auditBatch } from "../batch/index.js";
+import { loadSiteList } from "../batch/siteList.js";
+import { stripCredentials } from "../collectors/httpCollector.js";
+import { generateReport } from "../report/index.js";
+import { generatePortfolioReport } from "../report/portfolio.js";
+import { evaluateThresholds } from "../gate/index.js";
+import {
+  addSharedOptions,
+  loadCommandConfig,
+  resolveSharedOptions,
+  resolveThresholds,
+  type SharedOptions,
+} from "./options.js";
+import {
+  defaultReportPath,
+  getRatingColor,
+  printViolations,
+  writeReport,
+} from "./output.js";
+import type {
+  BatchSite,
+  BatchSiteOutcome,
+  FileConfig,
+  SummaryFormat,
+  Thresholds,
+  ThresholdViolation,
+} from "../types.js";
+
+export function registerBatchCommand(program: Command): void {
+  const batch = program
+    .command("batch")
+    .description(
+      "Audit many sites from a list file (.txt, .csv or .json) and write a portfolio summary"
+    )
+    .argument("<list>", "Path to the site list file")
+    .option("--out-dir <dir>", "Directory for per-site reports", "./reports")
+    .option(
+      "--summary <path>",
+      "Summary report path (default: <out-dir>/portfolio-summary.<format>)"
+    );
+
+  addSharedOptions(batch).action((listPath: string) =>
+    runBatch(batch, listPath)
+  );
+}
+
+async function runBatch(command: Command, listPath: string): Promise<void> {
+  let fileConfig: FileConfig;
+  let shared: SharedOptions;
+  let sites: BatchSite[];
+  let thresholds: Thresholds | null;
+  try {
+    fileConfig = loadCommandConfig(command).config;
+    shared = resolveSharedOptions(command, fileConfig);
+    thresholds = resolveThresholds(command, fileConfig);
+    sites = await loadSiteList(listPath);
+  } catch (error) {
+    console.error(chalk.red((error as Error).message));
+    process.exit(1);
+  }
+
+  // SARIF and JUnit describe a single audit, so their summary is JSON
+  const summaryFormat: SummaryFormat =
+    shared.format === "sarif" || shared.format === "junit"
+      ? "json"
+      : shared.format;
+  const { outDir } = command.opts();
+  const summaryPath =
+    command.opts().summary ||
+    path.join(outDir, `portfolio-summary.${summaryFormat}`);
+
+  console.log(chalk.blue.bold("\n📁 WordPress Portfolio Audit\n"));
+  console.log(`Sites: ${chalk.cyan(sites.length.toString())}\n`);
+
+  const outcomes = await auditBatch(
+    sites,
+    { ...shared, pages: fileConfig.pages, apiUrl: fileConfig.apiUrl },
+    {
+      onProgress: (event) => {
+        const counter = chalk.gray(`[${event.index + 1}/${event.total}]`);
+        switch (event.type) {
+          case "site:start":
+            console.log(`${counter} Auditing ${chalk.cyan(
+              stripCredentials(event.site.url)
+            )}`);
+            break;
+          case "site:complete":
+            console.log(
+              `${counter} ${chalk.green("✅")} ${
+                event.result.scores.overall
+              }/100 ${getRatingColor(event.result.scores.rating)(
+                event.result.scores.rating.replace(/-/g, " ")
+              )}`
+            );
+            break;
+          case "site:failed":
+            console.warn(
+              `${counter} ${chalk.red("❌ Failed:")} ${event.error}`
+            );
+            break;
+        }
+      },
+      onAuditProgress: (_site, event) => {
+        if (event.type === "archive:saved") {
+          console.log(
+            chalk.gray(`   Recorded ${event.entries} responses to ${event.file}`)
+          );
+        }
+        if (shared.verbose && event.type === "page:skipped") {
+          console.warn(
+            chalk.yellow(
+              `   ⚠️  Could not fetch ${event.path} (${
+                event.error ?? `status: ${event.status}`
+              })`
+            )
+          );
+        }
+      },
+    }
+  );
+
+  await writeSiteReports(
+    outcomes,
+    outDir,
+    shared.format,
+    path.dirname(summaryPath)
+  );
+
+  await writeReport(
+    summaryPath,
+    generatePortfolioReport(outcomes, summaryFormat)
+  );
+
+  const failed = outcomes.filter((o) => !o.result).length;
+  console.log(
+    chalk.blue.bold(
+      `\n📊 Batch Complete: ${outcomes.length - failed} succeeded, ${failed} failed\n`
+    )
+  );
+  console.log(
+    chalk.green(`✅ Summary saved to: ${chalk.bold(summaryPath)}\n`)
+  );
+
+  // Only fail the process when no site could be audited at all
+  if (failed === outcomes.length) {
+    process.exit(2);
+  }
+
+  if (thresholds) {
+    const violations: ThresholdViolation[] = [];
+    for (const outcome of outcomes) {
+      if (!outcome.result) continue;
+      for (const violation of evaluateThresholds(outcome.result, thresholds)) {
+        violations.push({
+          ...violation,
+          message: `${outcome.result.url}: ${violation.message}`,
+        });
+      }
+    }
+    if (violations.length > 0) {
+      printViolations(violations);
+      process.exit(4);
+    }
+    console.log(chalk.green("✅ All thresholds passed\n"));
+  }
+
+  process.exit(0);
+}
+
+/**
+ * Write one report per successful site, keeping file names unique. Report
+ * paths are recorded relative to the summary so its links resolve.
+ */
+async function writeSiteReports(
+  outcomes: BatchSiteOutcome[],
+  outDir: string,
+  format: SharedOptions["format"],
+  summaryDir: string
+): Promise<void> {
+  const usedPaths = new Set<string>();
+
+  for (const outcome of outcomes) {
+    if (!outcome.result) continue;
+
+    const basePath = defaultReportPath(outcome.site.url, format, outDir);
+    let reportPath = basePath;
+    for (let n = 2; usedPaths.has(reportPath); n++) {
+      reportPath = basePath.replace(/(\.\w+)$/, `-${n}$1`);
+    }
+    usedPaths.add(reportPath);
+
+    await writeReport(reportPath, generateReport(outcome.result, format));
+    outcome.reportPath = path.relative(summaryDir, reportPath);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Diff Command - Compares two JSON reports and writes the changes
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { diffReports, loadJsonReport } from "../diff/index.js";
+import { generateDiffReport } from "../report/diff.js";
+import { writeReport } from "./output.js";
+import type { SummaryFormat } from "../types.js";
+
+export function registerDiffCommand(program: Command): void {
+  program
+    .command("diff")
+    .description(
+      "Compare two JSON reports and highlight score changes and regressions"
+    )
+    .argument("<before>", "JSON report from the earlier audit")
+    .argument("<after>", "JSON report from the later audit")
+    .option("--format <format>", "Output format: md, html, json", "md")
+    .option("--out <path>", "Output file path (default: print to stdout)")
+    .action((beforePath: string, afterPath: string, options) =>
+      runDiff(beforePath, afterPath, options)
+    );
+}
+
+async function runDiff(
+  beforePath: string,
+  afterPath: string,
+  options: { format: string; out?: string }
+): Promise<void> {
+  // Validate format
+  if (!["md", "html", "json"].includes(options.format)) {
+    console.error(
+      chalk.red(
+        `Invalid format: ${options.format}. Must be one of: md, html, json`
+      )
+    );
+    process.exit(1);
+  }
+
+  try {
+    const [before, after] = await Promise.all([
+      loadJsonReport(beforePath),
+      loadJsonReport(afterPath),
+    ]);
+
+    const diff = diffReports(before, after);
+    const content = generateDiffReport(diff, options.format as SummaryFormat);
+
+    if (options.out) {
+      await writeReport(options.out, content);
+      console.log(
+        chalk.green(`✅ Comparison saved to: ${chalk.bold(options.out)}`)
+      );
+      if (diff.regressions.length > 0) {
+        console.log(
+          chalk.yellow(`⚠️  ${diff.regressions.length} regression(s) found`)
+        );
+      }
+    } else {
+      process.stdout.write(content + "\n");
+    }
+  } catch (error) {
+    console.error(chalk.red((error as Error).message));
+    process.exit(1);
+  }
+}
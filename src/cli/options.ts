@@ -0,0 +1,429 @@
+/**
+ * CLI Options - Shared flags, config file merging and validation for the
+ * audit and batch commands
+ */
+
+import { Command } from "commander";
+import { loadConfigFile, CONFIG_FILE_NAME } from "../config/configFile.js";
+import { validateIssuePattern } from "../gate/index.js";
+import { resolveProfile } from "../scoring/profiles.js";
+import { loadCookieJar } from "../collectors/cookieJar.js";
+import { loadAdvisories } from "../advisories/index.js";
+import type {
+  Advisory,
+  CategoryScores,
+  FileConfig,
+  ReportFormat,
+  RequestOptions,
+  ScoringProfile,
+  Thresholds,
+} from "../types.js";
+
+export interface SharedOptions {
+  format: ReportFormat;
+  autoPages: boolean;
+  maxPages: number;
+  concurrency: number;
+  hostConcurrency: number;
+  requestDelayMs: number;
+  psApiKey?: string;
+  psStrategy: "mobile" | "desktop" | "both";
+  scoringProfile: ScoringProfile;
+  request: RequestOptions;
+  probePluginReadmes: boolean;
+  probeSensitivePaths: boolean;
+  reportUsernames: boolean;
+  advisories?: Advisory[];
+  record?: string;
+  replay?: string;
+  verbose: boolean;
+}
+
+const REPORT_FORMATS: readonly ReportFormat[] = [
+  "md",
+  "html",
+  "json",
+  "sarif",
+  "junit",
+];
+const PS_STRATEGIES: readonly SharedOptions["psStrategy"][] = [
+  "mobile",
+  "desktop",
+  "both",
+];
+
+// RFC 7230 token characters allowed in a header name
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Register the flags shared by every command that runs audits
+ */
+export function addSharedOptions(command: Command): Command {
+  return command
+    .option(
+      "--config <path>",
+      `Path to a config file (default: ./${CONFIG_FILE_NAME} if present)`
+    )
+    .option(
+      "--format <format>",
+      "Output format: md, html, json, sarif, junit",
+      "md"
+    )
+    .option(
+      "--auto-pages",
+      "Automatically discover pages from sitemap.xml",
+      false
+    )
+    .option(
+      "--max-pages <number>",
+      "Maximum number of pages to audit (default: 10 with --auto-pages)",
+      "10"
+    )
+    .option(
+      "--concurrency <number>",
+      "Number of pages fetched and analyzed in parallel",
+      "1"
+    )
+    .option(
+      "--host-concurrency <number>",
+      "Maximum simultaneous requests to a single host",
+      "2"
+    )
+    .option(
+      "--request-delay <ms>",
+      "Minimum delay in milliseconds between requests to the same host",
+      "0"
+    )
+    .option(
+      "--ps-api-key <key>",
+      "Google PageSpeed Insights API key (optional, enables Core Web Vitals)"
+    )
+    .option(
+      "--ps-strategy <strategy>",
+      "PageSpeed strategy: mobile, desktop, or both (default: mobile)",
+      "mobile"
+    )
+    .option(
+      "--profile <name>",
+      "Scoring profile: default, ecommerce, headless, or one defined in the config file",
+      "default"
+    )
+    .option(
+      "--auth <user:password>",
+      "HTTP basic auth credentials for the audited site (or set WPAUDIT_AUTH)"
+    )
+    .option(
+      "--header <headers...>",
+      'Extra request headers for the audited site, as "Name: value"'
+    )
+    .option(
+      "--cookie-jar <file>",
+      "Send cookies from a Netscape-format cookie file (e.g. a logged-in session)"
+    )
+    .option("--user-agent <ua>", "User-Agent sent with every request")
+    .option(
+      "--probe-plugin-readmes",
+      "Request each detected plugin's readme.txt to read its version",
+      false
+    )
+    .option(
+      "--probe-sensitive-paths",
+      "Check for public readme.html, config backups, debug.log, upload listings and xmlrpc.php",
+      false
+    )
+    .option(
+      "--report-usernames",
+      "Include publicly enumerable usernames in reports (only counts by default)",
+      false
+    )
+    .option(
+      "--advisories <file>",
+      "Match detected versions against a local JSON or CSV advisory file"
+    )
+    .option(
+      "--record <dir>",
+      "Record every HTTP and PageSpeed response to an archive in <dir>"
+    )
+    .option(
+      "--replay <dir>",
+      "Serve responses from an archive recorded with --record instead of the network"
+    )
+    .option("--verbose", "Print additional debug information", false)
+    .option("--min-score <number>", "Fail (exit 4) if the overall score is lower")
+    .option("--min-performance <number>", "Fail if the performance score is lower")
+    .option("--min-seo <number>", "Fail if the SEO score is lower")
+    .option("--min-security <number>", "Fail if the security score is lower")
+    .option(
+      "--min-modernization <number>",
+      "Fail if the modernization score is lower"
+    )
+    .option(
+      "--fail-on-issue <patterns...>",
+      "Fail if any issue contains the text (or matches /regex/)"
+    );
+}
+
+/**
+ * Load the config file named by --config, or auto-discover one.
+ * Returns the parsed file and its path, or an empty config.
+ */
+export function loadCommandConfig(command: Command): {
+  path?: string;
+  config: FileConfig;
+} {
+  const loaded = loadConfigFile(command.opts().config);
+  return loaded ?? { config: {} };
+}
+
+/**
+ * Read an option value, letting config file values replace flag defaults
+ * but never a flag the user actually passed
+ */
+export function optionWithFile(
+  command: Command,
+  key: string,
+  fileValue: unknown
+): unknown {
+  if (fileValue === undefined || command.getOptionValueSource(key) === "cli") {
+    return command.opts()[key];
+  }
+  return fileValue;
+}
+
+/**
+ * Narrow an option value to a string. Flags give strings and config file
+ * values are validated on load, so anything else means the option is unset.
+ */
+export function stringOption(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Narrow an option value to a list of strings (variadic flags and arrays
+ * in the config file)
+ */
+export function stringListOption(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.map(String) : undefined;
+}
+
+function isOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[]
+): value is T {
+  return (allowed as readonly unknown[]).includes(value);
+}
+
+/**
+ * Merge and validate the shared options. Throws an error describing the
+ * first invalid flag.
+ */
+export function resolveSharedOptions(
+  command: Command,
+  fileConfig: FileConfig
+): SharedOptions {
+  const pick = (key: string, fileValue: unknown) =>
+    optionWithFile(command, key, fileValue);
+  const pickString = (key: string, fileValue: unknown) =>
+    stringOption(pick(key, fileValue));
+  const pickInt = (key: string, fileValue: unknown) =>
+    parseInt(String(pick(key, fileValue)), 10);
+
+  // Validate format
+  const format = pick("format", fileConfig.format);
+  if (!isOneOf(format, REPORT_FORMATS)) {
+    throw new Error(
+      `Invalid format: ${format}. Must be one of: md, html, json, sarif, junit`
+    );
+  }
+
+  // Validate maxPages
+  const maxPages = pickInt("maxPages", fileConfig.maxPages);
+  if (isNaN(maxPages) || maxPages < 1) {
+    throw new Error("--max-pages must be a positive integer");
+  }
+
+  // Validate concurrency and politeness limits
+  const concurrency = pickInt("concurrency", fileConfig.concurrency);
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new Error("--concurrency must be a positive integer");
+  }
+
+  const hostConcurrency = pickInt(
+    "hostConcurrency",
+    fileConfig.hostConcurrency
+  );
+  if (isNaN(hostConcurrency) || hostConcurrency < 1) {
+    throw new Error("--host-concurrency must be a positive integer");
+  }
+
+  const requestDelayMs = pickInt("requestDelay", fileConfig.requestDelay);
+  if (isNaN(requestDelayMs) || requestDelayMs < 0) {
+    throw new Error("--request-delay must be a non-negative integer");
+  }
+
+  // Get PageSpeed API key from CLI option, config file or environment variable
+  const psApiKey =
+    pickString("psApiKey", fileConfig.pageSpeed?.apiKey) ||
+    process.env.PAGESPEED_API_KEY;
+
+  // Validate ps-strategy
+  const psStrategy = pick("psStrategy", fileConfig.pageSpeed?.strategy);
+  if (!isOneOf(psStrategy, PS_STRATEGIES)) {
+    throw new Error(
+      `Invalid --ps-strategy: ${psStrategy}. Must be one of: mobile, desktop, both`
+    );
+  }
+
+  // Resolve the scoring profile (built-in or from the config file)
+  const scoringProfile = resolveProfile(
+    pickString("profile", fileConfig.profile) ?? "default",
+    fileConfig.profiles
+  );
+
+  // Load the advisory file now so a bad file fails before any requests
+  const advisoriesFile = pickString("advisories", fileConfig.advisories);
+  const advisories = advisoriesFile ? loadAdvisories(advisoriesFile) : undefined;
+
+  // Record and replay are mutually exclusive
+  const record = pickString("record", fileConfig.record);
+  const replay = pickString("replay", fileConfig.replay);
+  if (record && replay) {
+    throw new Error("--record and --replay cannot be used together");
+  }
+
+  return {
+    format,
+    autoPages: !!pick("autoPages", fileConfig.autoPages),
+    maxPages,
+    concurrency,
+    hostConcurrency,
+    requestDelayMs,
+    psApiKey,
+    psStrategy,
+    scoringProfile,
+    request: resolveRequestOptions(command, fileConfig),
+    probePluginReadmes: !!pick(
+      "probePluginReadmes",
+      fileConfig.probePluginReadmes
+    ),
+    probeSensitivePaths: !!pick(
+      "probeSensitivePaths",
+      fileConfig.probeSensitivePaths
+    ),
+    reportUsernames: !!pick("reportUsernames", fileConfig.reportUsernames),
+    advisories,
+    record,
+    replay,
+    verbose: !!pick("verbose", fileConfig.verbose),
+  };
+}
+
+/**
+ * Build the credentials, headers and cookies sent to the audited site.
+ * Headers from flags are added to (and override) headers from the file.
+ */
+function resolveRequestOptions(
+  command: Command,
+  fileConfig: FileConfig
+): RequestOptions {
+  const opts = command.opts();
+  const request: RequestOptions = {};
+
+  const auth = opts.auth ?? fileConfig.auth ?? process.env.WPAUDIT_AUTH;
+  if (auth !== undefined) {
+    const separator = auth.indexOf(":");
+    if (separator < 1) {
+      throw new Error('--auth must be in the form "user:password"');
+    }
+    request.auth = {
+      username: auth.slice(0, separator),
+      password: auth.slice(separator + 1),
+    };
+  }
+
+  const headers: Record<string, string> = { ...fileConfig.headers };
+  for (const header of (opts.header as string[] | undefined) ?? []) {
+    const separator = header.indexOf(":");
+    const name = header.slice(0, separator).trim();
+    if (separator < 0 || !HEADER_NAME.test(name)) {
+      throw new Error(`Invalid --header "${header}". Expected "Name: value"`);
+    }
+    headers[name] = header.slice(separator + 1).trim();
+  }
+  for (const name of Object.keys(headers)) {
+    if (!HEADER_NAME.test(name)) {
+      throw new Error(`Invalid header name "${name}"`);
+    }
+  }
+  if (Object.keys(headers).length > 0) {
+    request.headers = headers;
+  }
+
+  const cookieJar = opts.cookieJar ?? fileConfig.cookieJar;
+  if (cookieJar) {
+    request.cookies = loadCookieJar(cookieJar);
+  }
+
+  const userAgent = opts.userAgent ?? fileConfig.userAgent;
+  if (userAgent) {
+    request.userAgent = userAgent;
+  }
+
+  return request;
+}
+
+/**
+ * Merge CI gate thresholds from flags and the config file. Flags replace
+ * the matching file value. Returns null when no threshold is set.
+ */
+export function resolveThresholds(
+  command: Command,
+  fileConfig: FileConfig
+): Thresholds | null {
+  const opts = command.opts();
+  const fileThresholds = fileConfig.thresholds ?? {};
+
+  const parseMinimum = (flag: string, value: unknown): number | undefined => {
+    if (value === undefined) return undefined;
+    const parsed = parseInt(String(value), 10);
+    if (isNaN(parsed) || parsed < 0) {
+      throw new Error(`--${flag} must be a non-negative integer`);
+    }
+    return parsed;
+  };
+
+  const minScore =
+    parseMinimum("min-score", opts.minScore) ?? fileThresholds.minScore;
+
+  const minCategoryScores: Partial<CategoryScores> = {
+    ...fileThresholds.minCategoryScores,
+  };
+  const categoryFlags: Array<[keyof CategoryScores, string, string]> = [
+    ["performance", "min-performance", "minPerformance"],
+    ["seo", "min-seo", "minSeo"],
+    ["security", "min-security", "minSecurity"],
+    ["modernization", "min-modernization", "minModernization"],
+  ];
+  for (const [category, flag, key] of categoryFlags) {
+    const value = parseMinimum(flag, opts[key]);
+    if (value !== undefined) {
+      minCategoryScores[category] = value;
+    }
+  }
+
+  const failOnIssues: string[] | undefined =
+    opts.failOnIssue ?? fileThresholds.failOnIssues;
+  for (const pattern of failOnIssues ?? []) {
+    validateIssuePattern(pattern);
+  }
+
+  if (
+    minScore === undefined &&
+    Object.keys(minCategoryScores).length === 0 &&
+    !failOnIssues?.length
+  ) {
+    return null;
+  }
+
+  return { minScore, minCategoryScores, failOnIssues };
+}
@@ -0,0 +1,192 @@
+/**
+ * CLI Output - Console progress, summaries and report file writing
+ */
+
+import { writeFile, mkdir } from "fs/promises";
+import path from "path";
+import chalk from "chalk";
+import type {
+  AuditProgressEvent,
+  AuditResult,
+  ReportFormat,
+  ThresholdViolation,
+} from "../types.js";
+
+/**
+ * Build the default report path from the site's domain name
+ */
+export function defaultReportPath(
+  url: string,
+  format: ReportFormat,
+  dir = "./reports"
+): string {
+  // Extract hostname and sanitize for filename (remove www., replace dots with hyphens)
+  const urlObj = new URL(url);
+  const domain = urlObj.hostname.replace(/^www\./, "").replace(/\./g, "-");
+  const extensions: Record<ReportFormat, string> = {
+    md: "md",
+    html: "html",
+    json: "json",
+    sarif: "sarif",
+    junit: "xml",
+  };
+  const extension = extensions[format] ?? "md";
+  return path.join(dir, `wp-modernization-report-${domain}.${extension}`);
+}
+
+/**
+ * Write a report, creating its directory if needed
+ */
+export async function writeReport(
+  reportPath: string,
+  content: string
+): Promise<void> {
+  // Ensure output directory exists
+  const outDir = path.dirname(reportPath);
+  try {
+    await mkdir(outDir, { recursive: true });
+  } catch (error) {
+    // Ignore error if directory already exists
+  }
+
+  await writeFile(reportPath, content, "utf-8");
+}
+
+export function printProgress(event: AuditProgressEvent, verbose: boolean): void {
+  switch (event.type) {
+    case "discovery:start":
+      if (verbose) {
+        console.log(
+          chalk.blue("\n🔍 Auto-discovering pages from sitemap.xml...\n")
+        );
+      }
+      break;
+    case "discovery:complete":
+      if (verbose) {
+        if (event.sitemapUrls > 0) {
+          console.log(chalk.green(`Found ${event.sitemapUrls} URLs in sitemap`));
+          console.log(
+            chalk.green(`Selected ${event.pages.length} pages to audit\n`)
+          );
+        } else {
+          console.log(
+            chalk.yellow("No sitemap found, falling back to homepage\n")
+          );
+        }
+      }
+      break;
+    case "audit:start":
+      console.log(chalk.blue.bold("\n🔍 WordPress Modernization Audit\n"));
+      console.log(`Auditing: ${chalk.cyan(event.url)}`);
+      console.log(`Pages: ${chalk.cyan(event.pages.join(", "))}\n`);
+      break;
+    case "page:start":
+      if (verbose) {
+        console.log(chalk.gray(`\nAuditing page: ${event.url}`));
+      } else {
+        console.log(chalk.gray(`Auditing: ${event.path}`));
+      }
+      break;
+    case "page:skipped":
+      console.warn(
+        chalk.yellow(
+          `⚠️  Warning: Could not fetch ${event.path} (${
+            event.error ?? `status: ${event.status}`
+          })`
+        )
+      );
+      break;
+    case "wordpress:start":
+      console.log(chalk.gray("\nDetecting WordPress..."));
+      break;
+    case "wordpress:complete":
+      if (!event.detection.isWordPress) {
+        console.warn(
+          chalk.yellow(
+            "\n⚠️  Warning: Could not confirm this is a WordPress site."
+          )
+        );
+        console.warn(
+          chalk.yellow(
+            "The audit will continue, but results may be inaccurate.\n"
+          )
+        );
+      } else {
+        console.log(chalk.green("✅ WordPress detected"));
+        if (event.detection.wpVersion) {
+          console.log(chalk.gray(`   Version: ${event.detection.wpVersion}`));
+        }
+        if (event.detection.themeName) {
+          console.log(chalk.gray(`   Theme: ${event.detection.themeName}`));
+        }
+      }
+      break;
+    case "modernization:start":
+      console.log(chalk.gray("\nChecking modernization features..."));
+      break;
+    case "analysis:start":
+      console.log(chalk.gray("\nAnalyzing results..."));
+      break;
+    case "warning":
+      console.warn(event.message);
+      break;
+    case "archive:saved":
+      console.log(
+        chalk.gray(`Recorded ${event.entries} responses to ${event.file}`)
+      );
+      break;
+  }
+}
+
+export function printSummary(auditResult: AuditResult): void {
+  const { scores } = auditResult;
+
+  console.log(chalk.blue.bold("\n📊 Audit Complete!\n"));
+  console.log(`Overall Score: ${chalk.bold(scores.overall.toString())}/100`);
+  console.log(
+    `Rating: ${chalk.bold(
+      getRatingColor(scores.rating)(scores.rating.replace(/-/g, " "))
+    )}\n`
+  );
+  const { maxScores } = scores;
+  console.log(`Category Scores (profile: ${scores.profile}):`);
+  const { pageChecks, coreWebVitals } = scores.composition.performance;
+  console.log(
+    `  Performance:      ${scores.performance}/${maxScores.performance}` +
+      chalk.gray(
+        coreWebVitals
+          ? ` (page checks ${pageChecks.score}/${pageChecks.maxScore}, Core Web Vitals ${coreWebVitals.score}/${coreWebVitals.maxScore})`
+          : " (Core Web Vitals not measured)"
+      )
+  );
+  console.log(`  SEO:              ${scores.seo}/${maxScores.seo}`);
+  console.log(`  Security:         ${scores.security}/${maxScores.security}`);
+  console.log(
+    `  Modernization:    ${scores.modernization}/${maxScores.modernization}\n`
+  );
+}
+
+export function printViolations(violations: ThresholdViolation[]): void {
+  console.error(
+    chalk.red.bold(`\n🚫 Threshold check failed (${violations.length}):\n`)
+  );
+  violations.forEach((violation) => {
+    console.error(chalk.red(`  - ${violation.message}`));
+  });
+  console.error("");
+}
+
+export function getRatingColor(rating: string): typeof chalk {
+  switch (rating) {
+    case "healthy":
+      return chalk.green;
+    case "needs-optimization":
+      return chalk.yellow;
+    case "needs-modernization":
+      return chalk.hex("#FFA500");
+    case "legacy":
+      return chalk.red;
+    default:
+      return chalk.white;
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * HTTP Archive - Sends collector requests and records them to, or replays
+ * them from, a HAR-like archive file so audits can run offline
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { request } from "undici";
+
+export interface ArchiveRequestOptions {
+  headers?: Record<string, string>;
+  timeoutMs: number;
+  // Skip reading bodies that are not used (e.g. redirect responses)
+  discardBody?: (status: number, headers: ArchiveHeaders) => boolean;
+  // Stop reading bodies after this many bytes (e.g. possibly huge log files)
+  maxBodyBytes?: number;
+  // Query parameters (e.g. API keys) left out of the archive
+  redactParams?: string[];
+  // The run's recording or replay; null or absent requests the network
+  archive?: HttpArchive | null;
+}
+
+export type ArchiveHeaders = Record<string, string | string[]>;
+
+export interface ArchiveResponse {
+  statusCode: number;
+  headers: ArchiveHeaders;
+  body: string;
+  latencyMs: number;
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+// One request/response pair in HAR 1.2 shape. Request headers are never
+// stored so credentials stay out of the archive.
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: "GET";
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: -1;
+    bodySize: 0;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string; text: string };
+    redirectURL: string;
+    headersSize: -1;
+    bodySize: -1;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _error?: string; // Network error thrown instead of a response
+}
+
+interface HarFile {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// Recording or replay state of one audit run
+export type HttpArchive =
+  | { type: "record"; file: string; entries: HarEntry[] }
+  | {
+      type: "replay";
+      file: string;
+      // Responses per URL in recorded order; the last one repeats
+      entries: Map<string, HarEntry[]>;
+      served: Map<string, number>;
+    };
+
+/**
+ * Archive file used for a site inside a record/replay directory. Each host
+ * gets its own file so one directory can hold a whole batch.
+ */
+export function archiveFileFor(dir: string, siteUrl: string): string {
+  const host = new URL(siteUrl).host.replace(/[^a-z0-9.-]/gi, "_");
+  return path.join(dir, `${host}.har`);
+}
+
+/**
+ * Start a recording; requests made with it are kept until saveRecording()
+ */
+export function startRecording(file: string): HttpArchive {
+  return { type: "record", file, entries: [] };
+}
+
+/**
+ * Load an archive to serve requests from instead of the network. Throws
+ * when the archive cannot be read.
+ */
+export function startReplay(file: string): HttpArchive {
+  if (!existsSync(file)) {
+    throw new Error(`No recorded archive found at ${file}`);
+  }
+
+  let har: HarFile;
+  try {
+    har = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Cannot read recorded archive ${file}: ${(error as Error).message}`
+    );
+  }
+  if (!Array.isArray(har?.log?.entries)) {
+    throw new Error(`Cannot read recorded archive ${file}: missing log.entries`);
+  }
+
+  const entries = new Map<string, HarEntry[]>();
+  for (const entry of har.log.entries) {
+    const list = entries.get(entry.request.url) ?? [];
+    list.push(entry);
+    entries.set(entry.request.url, list);
+  }
+  return { type: "replay", file, entries, served: new Map() };
+}
+
+/**
+ * Write the recorded entries to the archive file. Returns the file path and
+ * entry count, or null when the archive is not a recording.
+ */
+export function saveRecording(
+  archive: HttpArchive | null
+): { file: string; entries: number } | null {
+  if (archive?.type !== "record") {
+    return null;
+  }
+
+  const { file, entries } = archive;
+  const har: HarFile = {
+    log: {
+      version: "1.2",
+      creator: { name: "wp-modernization-audit", version: "0.4.0" },
+      entries,
+    },
+  };
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(har, null, 2));
+  return { file, entries: entries.length };
+}
+
+export function isReplaying(archive: HttpArchive | null): boolean {
+  return archive?.type === "replay";
+}
+
+/**
+ * Whether a replayed archive holds any response from the given host
+ */
+export function replayHasHost(
+  archive: HttpArchive | null,
+  host: string
+): boolean {
+  if (archive?.type !== "replay") {
+    return false;
+  }
+  return [...archive.entries.keys()].some((url) => new URL(url).host === host);
+}
+
+/**
+ * GET a URL through the archive: from the network (recording it when
+ * enabled) or from the replayed archive. Network errors are rethrown,
+ * including recorded ones during replay.
+ */
+export async function archivedRequest(
+  url: string,
+  options: ArchiveRequestOptions
+): Promise<ArchiveResponse> {
+  const archiveUrl = stripParams(url, options.redactParams ?? []);
+  const { archive } = options;
+
+  if (archive?.type === "replay") {
+    return replay(archive, archiveUrl);
+  }
+
+  const startedDateTime = new Date().toISOString();
+  const started = Date.now();
+  let response: ArchiveResponse;
+  try {
+    response = await send(url, options, started);
+  } catch (error) {
+    if (archive?.type === "record") {
+      const entry = toEntry(archiveUrl, startedDateTime, {
+        statusCode: 0,
+        headers: {},
+        body: "",
+        latencyMs: Date.now() - started,
+      });
+      entry._error = (error as Error).message;
+      archive.entries.push(entry);
+    }
+    throw error;
+  }
+
+  if (archive?.type === "record") {
+    archive.entries.push(toEntry(archiveUrl, startedDateTime, response));
+  }
+  return response;
+}
+
+async function send(
+  url: string,
+  options: ArchiveRequestOptions,
+  started: number
+): Promise<ArchiveResponse> {
+  const response = await request(url, {
+    method: "GET",
+    headers: options.headers,
+    headersTimeout: options.timeoutMs,
+    bodyTimeout: options.timeoutMs,
+  });
+  const latencyMs = Date.now() - started;
+
+  const headers: ArchiveHeaders = {};
+  for (const [key, value] of Object.entries(response.headers)) {
+    if (typeof value === "string" || Array.isArray(value)) {
+      headers[key] = value;
+    }
+  }
+
+  let body = "";
+  if (options.discardBody?.(response.statusCode, headers)) {
+    await response.body.dump();
+  } else if (options.maxBodyBytes !== undefined) {
+    body = await readPartialBody(response.body, options.maxBodyBytes);
+  } else {
+    body = await response.body.text();
+  }
+
+  return { statusCode: response.statusCode, headers, body, latencyMs };
+}
+
+/**
+ * Read up to maxBytes of a body and abort the rest of the download
+ */
+async function readPartialBody(
+  body: AsyncIterable<Buffer>,
+  maxBytes: number
+): Promise<string> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of body) {
+    chunks.push(chunk);
+    length += chunk.length;
+    if (length >= maxBytes) {
+      break; // Leaving the loop destroys the stream
+    }
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes).toString("utf-8");
+}
+
+function replay(
+  current: Extract<HttpArchive, { type: "replay" }>,
+  url: string
+): ArchiveResponse {
+  const recorded = current.entries.get(url);
+  if (!recorded) {
+    throw new Error(`No recorded response for GET ${url} in ${current.file}`);
+  }
+
+  const index = current.served.get(url) ?? 0;
+  current.served.set(url, index + 1);
+  const entry = recorded[Math.min(index, recorded.length - 1)];
+  if (entry._error) {
+    throw new Error(entry._error);
+  }
+
+  const headers: ArchiveHeaders = {};
+  for (const { name, value } of entry.response.headers) {
+    // Repeated names (e.g. set-cookie) come back as arrays
+    const existing = headers[name];
+    headers[name] = existing === undefined ? value : [existing, value].flat();
+  }
+
+  return {
+    statusCode: entry.response.status,
+    headers,
+    body: entry.response.content.text,
+    latencyMs: entry.time,
+  };
+}
+
+function toEntry(
+  url: string,
+  startedDateTime: string,
+  response: ArchiveResponse
+): HarEntry {
+  const headers: HarHeader[] = Object.entries(response.headers).flatMap(
+    ([name, value]) =>
+      (Array.isArray(value) ? value : [value]).map((v) => ({ name, value: v }))
+  );
+  const contentType = response.headers["content-type"];
+  const location = response.headers.location;
+
+  return {
+    startedDateTime,
+    time: response.latencyMs,
+    request: {
+      method: "GET",
+      url,
+      httpVersion: "HTTP/1.1",
+      headers: [],
+      queryString: [...new URL(url).searchParams].map(([name, value]) => ({
+        name,
+        value,
+      })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: response.statusCode,
+      statusText: "",
+      httpVersion: "HTTP/1.1",
+      headers,
+      cookies: [],
+      content: {
+        size: Buffer.byteLength(response.body),
+        mimeType: String(contentType ?? ""),
+        text: response.body,
+      },
+      redirectURL: typeof location === "string" ? location : "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: response.latencyMs, receive: 0 },
+  };
+}
+
+function stripParams(url: string, params: string[]): string {
+  if (params.length === 0) {
+    return url;
+  }
+  const parsed = new URL(url);
+  for (const param of params) {
+    parsed.searchParams.delete(param);
+  }
+  return parsed.toString();
+}
@@ -0,0 +1,88 @@
+/**
+ * Cookie Attributes - Parses Set-Cookie headers and lists the security
+ * attributes (Secure, HttpOnly, SameSite) each cookie is missing
+ */
+
+import type { CookieIssue, SetCookie } from "../types.js";
+
+// Cookies that carry a login or shopping session
+const SESSION_COOKIE =
+  /^(wordpress_(logged_in_|sec_)?[0-9a-f]{32}$|wp_woocommerce_session_|wp-postpass_)|sess/i;
+
+/**
+ * Parse one Set-Cookie header. Returns null for a header without a cookie
+ * name or one that deletes the cookie (Max-Age <= 0 or an Expires date in
+ * the past). The value is dropped so it never reaches a report.
+ */
+export function parseSetCookie(
+  header: string
+): Omit<SetCookie, "session" | "issues"> | null {
+  const [pair, ...attributes] = header.split(";");
+  const name = pair.split("=")[0].trim();
+  if (!name || !pair.includes("=")) {
+    return null;
+  }
+
+  const cookie: Omit<SetCookie, "session" | "issues"> = {
+    name,
+    secure: false,
+    httpOnly: false,
+  };
+  for (const attribute of attributes) {
+    const [key, ...rest] = attribute.split("=");
+    const value = rest.join("=").trim();
+    switch (key.trim().toLowerCase()) {
+      case "secure":
+        cookie.secure = true;
+        break;
+      case "httponly":
+        cookie.httpOnly = true;
+        break;
+      case "samesite":
+        cookie.sameSite = value;
+        break;
+      case "max-age":
+        if (parseInt(value, 10) <= 0) return null;
+        break;
+      case "expires":
+        if (Date.parse(value) < Date.now()) return null;
+        break;
+    }
+  }
+  return cookie;
+}
+
+/**
+ * Parse the Set-Cookie headers of a page and check each cookie. Secure is
+ * only expected on HTTPS pages, since browsers reject Secure cookies over
+ * HTTP. A cookie set more than once keeps its last attributes.
+ */
+export function evaluateCookies(
+  setCookies: string[],
+  isHttps: boolean
+): SetCookie[] {
+  const cookies = new Map<string, SetCookie>();
+
+  for (const header of setCookies) {
+    const cookie = parseSetCookie(header);
+    if (!cookie) continue;
+
+    const issues: CookieIssue[] = [];
+    if (isHttps && !cookie.secure) {
+      issues.push("missing-secure");
+    }
+    if (!cookie.httpOnly) {
+      issues.push("missing-httponly");
+    }
+    if (!cookie.sameSite) {
+      issues.push("missing-samesite");
+    }
+    cookies.set(cookie.name, {
+      ...cookie,
+      session: SESSION_COOKIE.test(cookie.name),
+      issues,
+    });
+  }
+
+  return [...cookies.values()];
+}
@@ -0,0 +1,86 @@
+/**
+ * Cookie Jar - Reads Netscape-format cookie files (as exported by curl and
+ * browser extensions) and picks the cookies to send with a request
+ */
+
+import { readFileSync } from "fs";
+import type { Cookie } from "../types.js";
+
+/**
+ * Read and parse a cookie jar file. Throws when the file cannot be read.
+ */
+export function loadCookieJar(path: string): Cookie[] {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new Error(
+      `Cannot read cookie jar ${path}: ${(error as Error).message}`
+    );
+  }
+  return parseCookieJar(text);
+}
+
+/**
+ * Parse Netscape cookie file contents. Comment and malformed lines are
+ * skipped; the "#HttpOnly_" domain prefix is understood.
+ */
+export function parseCookieJar(text: string): Cookie[] {
+  const cookies: Cookie[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (line.startsWith("#HttpOnly_")) {
+      line = line.slice("#HttpOnly_".length);
+    } else if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+
+    const fields = line.split("\t");
+    if (fields.length < 7) {
+      continue;
+    }
+
+    const [domain, includeSubdomains, path, secure, expires, name] = fields;
+    cookies.push({
+      domain: domain.replace(/^\./, "").toLowerCase(),
+      includeSubdomains:
+        includeSubdomains.toUpperCase() === "TRUE" || domain.startsWith("."),
+      path: path || "/",
+      secure: secure.toUpperCase() === "TRUE",
+      expires: parseInt(expires, 10) || 0,
+      name,
+      // Values may contain tabs only in the last field
+      value: fields.slice(6).join("\t"),
+    });
+  }
+
+  return cookies;
+}
+
+/**
+ * Build the Cookie header value for a URL, or undefined when no cookie
+ * matches its host, path and scheme
+ */
+export function cookieHeaderFor(
+  cookies: Cookie[],
+  url: string,
+  now: number = Date.now()
+): string | undefined {
+  const target = new URL(url);
+  const host = target.hostname.toLowerCase();
+
+  const matching = cookies.filter(
+    (cookie) =>
+      (host === cookie.domain ||
+        (cookie.includeSubdomains && host.endsWith(`.${cookie.domain}`))) &&
+      target.pathname.startsWith(cookie.path) &&
+      (!cookie.secure || target.protocol === "https:") &&
+      (cookie.expires === 0 || cookie.expires * 1000 > now)
+  );
+
+  if (matching.length === 0) {
+    return undefined;
+  }
+  return matching.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ");
+}
@@ -2,64 +2,257 @@
  * HTTP Collector - Fetches pages and returns HTTP metadata
  */
 
-import { request } from "undici";
-import type { HttpResult } from "../types.js";
+import { archivedRequest, isReplaying } from "./archive.js";
+import type { ArchiveResponse, HttpArchive } from "./archive.js";
+import { cookieHeaderFor } from "./cookieJar.js";
+import type {
+  HttpResult,
+  LighthouseData,
+  RedirectHop,
+  RequestOptions,
+} from "../types.js";
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+export interface HostLimits {
+  maxConcurrent: number; // Max in-flight requests per host
+  minDelayMs: number; // Minimum spacing between request starts per host
+}
+
+export interface HostSlot {
+  active: number;
+  waiting: Array<() => void>;
+  nextStart: number;
+}
+
+/**
+ * HTTP state of one audit run. Every fetch takes the run's context, so
+ * audits running at the same time in one process never share credentials,
+ * politeness limits, cached responses or archives.
+ */
+export interface HttpContext {
+  // Credentials, headers and cookies added to every fetch, plus the hosts
+  // that may receive basic auth and custom headers (lowercase)
+  request: RequestOptions;
+  credentialHosts: string[];
+  limits: HostLimits;
+  hostSlots: Map<string, HostSlot>;
+  // Response cache keyed by method and URL (null when disabled). Stores
+  // promises so concurrent requests for the same URL share one fetch.
+  cache: Map<string, Promise<HttpResult>> | null;
+  // PageSpeed results keyed by URL and strategy (null when cache disabled)
+  pageSpeed: Map<string, LighthouseData> | null;
+  archive: HttpArchive | null; // Recording or replay, if any
+}
+
+const REDACTED = "[REDACTED]";
+
+// Custom request headers whose values are credentials
+const SENSITIVE_HEADER =
+  /^(authorization|proxy-authorization|cookie)$|auth|token|secret|api-?key|session|password/i;
+
+/**
+ * Create the HTTP context for a run. Basic auth and custom headers only go
+ * to credentialHosts so they never leak to third parties; cookies follow
+ * their own domain rules. With cache set, each URL is fetched at most once.
+ */
+export function createHttpContext(
+  options: {
+    request?: RequestOptions;
+    credentialHosts?: string[];
+    limits?: Partial<HostLimits>;
+    archive?: HttpArchive | null;
+    cache?: boolean;
+  } = {}
+): HttpContext {
+  return {
+    request: options.request ?? {},
+    credentialHosts: (options.credentialHosts ?? []).map((host) =>
+      host.toLowerCase()
+    ),
+    limits: { maxConcurrent: Infinity, minDelayMs: 0, ...options.limits },
+    hostSlots: new Map(),
+    cache: options.cache ? new Map() : null,
+    pageSpeed: options.cache ? new Map() : null,
+    archive: options.archive ?? null,
+  };
+}
+
+/**
+ * The credentials in a set of request options: the basic auth password, the
+ * encoded Authorization value and the values of sensitive headers (see
+ * SENSITIVE_HEADER). Other header values and cookie jar values are not
+ * secrets; replacing short values such as "true" would corrupt output.
+ */
+export function requestSecrets(options: RequestOptions): string[] {
+  const values = Object.entries(options.headers ?? {})
+    .filter(([name]) => SENSITIVE_HEADER.test(name))
+    .map(([, value]) => value);
+  if (options.auth) {
+    values.push(options.auth.password, encodeBasicAuth(options.auth));
+  }
+  // Longest first so a secret containing another is replaced whole
+  return values
+    .filter((value) => value.length >= 3)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace every secret in a message with a placeholder. Used for logs,
+ * error messages and the URL fields of fetch results.
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+  return secrets.reduce(
+    (redacted, secret) => redacted.split(secret).join(REDACTED),
+    text
+  );
+}
+
+/**
+ * A URL without its user:password part, for display. audit() moves such
+ * credentials into basic auth; anything listing the URLs it was given
+ * (batch progress, portfolio reports) shows them through this.
+ */
+export function stripCredentials(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.username && !parsed.password) {
+      return url;
+    }
+    parsed.username = "";
+    parsed.password = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Redact an error's message and stack in place and return it
+ */
+export function redactError(error: unknown, secrets: string[]): unknown {
+  if (error instanceof Error) {
+    error.message = redactSecrets(error.message, secrets);
+    if (error.stack) {
+      error.stack = redactSecrets(error.stack, secrets);
+    }
+  }
+  return error;
+}
+
+/**
+ * Wait for a free request slot on the given host. Resolves with a release
+ * function that hands the slot to the next waiter.
+ */
+async function acquireHostSlot(
+  http: HttpContext,
+  host: string
+): Promise<() => void> {
+  let slot = http.hostSlots.get(host);
+  if (!slot) {
+    slot = { active: 0, waiting: [], nextStart: 0 };
+    http.hostSlots.set(host, slot);
+  }
+  const hostSlot = slot;
+
+  if (hostSlot.active < http.limits.maxConcurrent) {
+    hostSlot.active++;
+  } else {
+    // The releasing request transfers its slot to us
+    await new Promise<void>((resolve) => hostSlot.waiting.push(resolve));
+  }
+
+  // Reserve a start time honoring the minimum delay between requests
+  const now = Date.now();
+  const start = Math.max(now, hostSlot.nextStart);
+  hostSlot.nextStart = start + http.limits.minDelayMs;
+  if (start > now) {
+    await new Promise((resolve) => setTimeout(resolve, start - now));
+  }
+
+  return () => {
+    const next = hostSlot.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      hostSlot.active--;
+    }
+  };
+}
 
 export async function fetchPage(
+  http: HttpContext,
   url: string,
   verbose = false,
   retries = 2
+): Promise<HttpResult> {
+  if (!http.cache) {
+    return fetchWithRetries(http, url, verbose, retries);
+  }
+
+  const cacheKey = `GET ${url}`;
+  const cached = http.cache.get(cacheKey);
+  if (cached) {
+    if (verbose) {
+      console.log(`Using cached response for ${url}`);
+    }
+    return cached;
+  }
+
+  const pending = fetchWithRetries(http, url, verbose, retries);
+  http.cache.set(cacheKey, pending);
+  return pending;
+}
+
+/**
+ * Fetch a URL that may be large (e.g. a log file) without retries or the
+ * request cache, reading at most maxBodyBytes of the final response
+ */
+export async function fetchPartial(
+  http: HttpContext,
+  url: string,
+  maxBodyBytes: number,
+  verbose = false
+): Promise<HttpResult> {
+  return fetchWithRetries(http, url, verbose, 0, maxBodyBytes);
+}
+
+async function fetchWithRetries(
+  http: HttpContext,
+  url: string,
+  verbose: boolean,
+  retries: number,
+  maxBodyBytes?: number
 ): Promise<HttpResult> {
   let lastError: Error | unknown;
+  const secrets = requestSecrets(http.request);
 
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
       if (verbose) {
         const retryMsg =
           attempt > 0 ? ` (Attempt ${attempt + 1}/${retries + 1})` : "";
-        console.log(`Fetching: ${url}${retryMsg}`);
+        console.log(redactSecrets(`Fetching: ${url}${retryMsg}`, secrets));
       }
 
-      const { statusCode, headers, body } = await request(url, {
-        method: "GET",
-        maxRedirections: 5,
-        headersTimeout: 30000,
-        bodyTimeout: 30000,
-      });
-
-      // Convert headers to plain object
-      const headerObj: Record<string, string> = {};
-      for (const [key, value] of Object.entries(headers)) {
-        if (typeof value === "string") {
-          headerObj[key] = value;
-        } else if (Array.isArray(value)) {
-          headerObj[key] = value.join(", ");
-        }
-      }
-
-      // Read body as text
-      const bodyText = await body.text();
-
-      // Get final URL (after redirects)
-      const finalUrl = headerObj.location || url;
-
-      return {
-        url,
-        status: statusCode,
-        headers: headerObj,
-        body: bodyText,
-        finalUrl,
-      };
+      return redactResult(
+        await followRedirects(http, url, maxBodyBytes),
+        secrets
+      );
     } catch (error) {
       lastError = error;
       const isLastAttempt = attempt === retries;
 
       if (verbose) {
         const msg = error instanceof Error ? error.message : String(error);
-        console.warn(`Attempt ${attempt + 1} failed: ${msg}`);
+        console.warn(
+          redactSecrets(`Attempt ${attempt + 1} failed: ${msg}`, secrets)
+        );
       }
 
-      if (!isLastAttempt) {
+      // Replayed failures come back the same, so there is nothing to wait for
+      if (!isLastAttempt && !isReplaying(http.archive)) {
         // Exponential backoff: 1s, 2s, 4s...
         const delay = Math.pow(2, attempt) * 1000;
         await new Promise((resolve) => setTimeout(resolve, delay));
@@ -67,12 +260,17 @@ export async function fetchPage(
     }
   }
 
-  const errorMessage =
-    lastError instanceof Error ? lastError.message : "Unknown error";
+  const errorMessage = redactSecrets(
+    lastError instanceof Error ? lastError.message : "Unknown error",
+    secrets
+  );
 
   if (verbose) {
     console.error(
-      `Failed to fetch ${url} after ${retries + 1} attempts: ${errorMessage}`
+      redactSecrets(
+        `Failed to fetch ${url} after ${retries + 1} attempts: ${errorMessage}`,
+        secrets
+      )
     );
   }
 
@@ -80,8 +278,159 @@ export async function fetchPage(
     url,
     status: 0,
     headers: {},
+    setCookies: [],
     body: "",
     finalUrl: url,
+    redirects: [],
     error: errorMessage,
   };
 }
+
+/**
+ * Redact the fields of a fetch result that end up in reports: a redirect can
+ * carry a token in its Location, and errors quote URLs. Headers and bodies
+ * are kept as received for the collectors.
+ */
+function redactResult(result: HttpResult, secrets: string[]): HttpResult {
+  if (secrets.length === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    finalUrl: redactSecrets(result.finalUrl, secrets),
+    redirects: result.redirects.map((hop) => ({
+      ...hop,
+      url: redactSecrets(hop.url, secrets),
+      location: redactSecrets(hop.location, secrets),
+    })),
+    ...(result.error ? { error: redactSecrets(result.error, secrets) } : {}),
+  };
+}
+
+/**
+ * Request a URL and follow redirects one hop at a time so the whole chain
+ * is recorded. Loops and overly long chains end with an error result
+ * instead of throwing, since retrying would not change them.
+ */
+async function followRedirects(
+  http: HttpContext,
+  url: string,
+  maxBodyBytes?: number
+): Promise<HttpResult> {
+  const redirects: RedirectHop[] = [];
+  // Cookies set by redirect responses apply too (e.g. a login redirect)
+  const setCookies: string[] = [];
+  let currentUrl = url;
+
+  for (;;) {
+    const release = await acquireHostSlot(http, getHost(currentUrl));
+    let response: ArchiveResponse;
+    try {
+      response = await archivedRequest(currentUrl, {
+        headers: buildHeaders(http, currentUrl),
+        timeoutMs: 30000,
+        // Redirect bodies are not used
+        discardBody: (status, headers) =>
+          REDIRECT_STATUSES.includes(status) && !!headers.location,
+        maxBodyBytes,
+        archive: http.archive,
+      });
+    } finally {
+      release();
+    }
+
+    const { statusCode, body: bodyText, latencyMs } = response;
+
+    // Convert headers to plain object. Set-Cookie values can contain commas,
+    // so each one is also kept separately.
+    const headerObj: Record<string, string> = {};
+    for (const [key, value] of Object.entries(response.headers)) {
+      headerObj[key] = Array.isArray(value) ? value.join(", ") : value;
+    }
+    const cookies = response.headers["set-cookie"] ?? [];
+    setCookies.push(...(Array.isArray(cookies) ? cookies : [cookies]));
+
+    if (!REDIRECT_STATUSES.includes(statusCode) || !headerObj.location) {
+      return {
+        url,
+        status: statusCode,
+        headers: headerObj,
+        setCookies,
+        body: bodyText,
+        finalUrl: currentUrl,
+        redirects,
+      };
+    }
+
+    const location = new URL(headerObj.location, currentUrl).toString();
+    redirects.push({
+      url: currentUrl,
+      status: statusCode,
+      location,
+      latencyMs,
+    });
+
+    let error: string | undefined;
+    if (redirects.some((hop) => hop.url === location)) {
+      const chain = [...redirects.map((hop) => hop.url), location];
+      error = `Redirect loop: ${chain.join(" -> ")}`;
+    } else if (redirects.length >= MAX_REDIRECTS) {
+      error = `Too many redirects (more than ${MAX_REDIRECTS})`;
+    }
+    if (error) {
+      return {
+        url,
+        status: statusCode,
+        headers: headerObj,
+        setCookies,
+        body: "",
+        finalUrl: location,
+        redirects,
+        error,
+      };
+    }
+
+    currentUrl = location;
+  }
+}
+
+/**
+ * Request headers for a URL from the run's request options
+ */
+function buildHeaders(http: HttpContext, url: string): Record<string, string> {
+  const { request } = http;
+  const headers: Record<string, string> = {};
+  if (request.userAgent) {
+    headers["user-agent"] = request.userAgent;
+  }
+
+  if (http.credentialHosts.includes(getHost(url).toLowerCase())) {
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      headers[name.toLowerCase()] = value;
+    }
+    if (request.auth) {
+      headers.authorization = `Basic ${encodeBasicAuth(request.auth)}`;
+    }
+  }
+
+  const cookie = request.cookies?.length
+    ? cookieHeaderFor(request.cookies, url)
+    : undefined;
+  if (cookie) {
+    headers.cookie = cookie;
+  }
+
+  return headers;
+}
+
+function encodeBasicAuth(auth: { username: string; password: string }): string {
+  return Buffer.from(`${auth.username}:${auth.password}`).toString("base64");
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
@@ -3,30 +3,40 @@
  * Fetches Core Web Vitals from Google PageSpeed Insights API
  */
 
-import { request } from "undici";
+import { archivedRequest } from "./archive.js";
+import type { HttpContext } from "./httpCollector.js";
 import type { LighthouseData } from "../types.js";
 
-const PAGESPEED_API_URL =
+export const PAGESPEED_API_URL =
   "https://www.googleapis.com/pagespeedonline/v5/runPagespeed";
 
-// Cache to avoid redundant API calls within the same run
-const cache = new Map<string, LighthouseData>();
-
 export interface PageSpeedOptions {
   apiKey: string;
   strategy?: "mobile" | "desktop";
   verbose?: boolean;
+  onWarning?: (message: string) => void; // Defaults to console.warn
 }
 
+/**
+ * Fetch Core Web Vitals for a URL. Results are cached in the run's
+ * context and requests go through its recording or replay.
+ */
 export async function collectLighthouseData(
+  http: HttpContext,
   url: string,
   options: PageSpeedOptions
 ): Promise<LighthouseData | null> {
-  const { apiKey, strategy = "mobile", verbose = false } = options;
-
-  // Check cache first
+  const {
+    apiKey,
+    strategy = "mobile",
+    verbose = false,
+    onWarning: warn = console.warn,
+  } = options;
+
+  // Check the run's cache first
+  const cache = http.pageSpeed;
   const cacheKey = `${url}-${strategy}`;
-  if (cache.has(cacheKey)) {
+  if (cache?.has(cacheKey)) {
     if (verbose) {
       console.log(`Using cached PageSpeed data for ${url} (${strategy})`);
     }
@@ -44,26 +54,24 @@ export async function collectLighthouseData(
     apiUrl.searchParams.set("strategy", strategy);
     apiUrl.searchParams.set("category", "PERFORMANCE");
 
-    const response = await request(apiUrl.toString(), {
-      method: "GET",
-      headersTimeout: 60000, // 60s timeout
-      bodyTimeout: 60000,
+    const response = await archivedRequest(apiUrl.toString(), {
+      timeoutMs: 60000, // 60s timeout
+      redactParams: ["key"], // Never write the API key to a recording
+      archive: http.archive,
     });
 
     if (response.statusCode !== 200) {
       // Handle error responses
-      const body = await response.body.text();
-
       if (response.statusCode === 429) {
-        console.warn(
+        warn(
           `⚠️  PageSpeed API rate limit exceeded. Skipping PageSpeed data.`
         );
         return null;
       }
 
       if (response.statusCode === 400) {
-        const error = JSON.parse(body);
-        console.warn(
+        const error = JSON.parse(response.body);
+        warn(
           `⚠️  PageSpeed API error: ${
             error.error?.message || "Invalid request"
           }`
@@ -72,7 +80,7 @@ export async function collectLighthouseData(
       }
 
       if (response.statusCode === 403) {
-        console.warn(
+        warn(
           `⚠️  PageSpeed API key is invalid or doesn't have permission.`
         );
         return null;
@@ -81,13 +89,12 @@ export async function collectLighthouseData(
       throw new Error(`PageSpeed API returned status ${response.statusCode}`);
     }
 
-    const body = await response.body.json();
-    const data = body as any; // PageSpeed API response type
+    const data = JSON.parse(response.body) as any; // PageSpeed API response type
 
     // Extract Core Web Vitals from the response
     const lighthouseResult = data.lighthouseResult;
     if (!lighthouseResult || !lighthouseResult.audits) {
-      console.warn(`⚠️  No Lighthouse data found in PageSpeed response`);
+      warn(`⚠️  No Lighthouse data found in PageSpeed response`);
       return null;
     }
 
@@ -124,7 +131,7 @@ export async function collectLighthouseData(
     };
 
     // Cache the result
-    cache.set(cacheKey, lighthouseData);
+    cache?.set(cacheKey, lighthouseData);
 
     if (verbose) {
       console.log(
@@ -142,13 +149,13 @@ export async function collectLighthouseData(
 
     // Check for specific error types
     if (error.code === "ETIMEDOUT" || error.code === "ECONNRESET") {
-      console.warn(
+      warn(
         `⚠️  PageSpeed API request timed out. Network may be slow or unstable.`
       );
     } else if (error.message?.includes("rate limit")) {
-      console.warn(`⚠️  PageSpeed API rate limit hit.`);
+      warn(`⚠️  PageSpeed API rate limit hit.`);
     } else {
-      console.warn(
+      warn(
         `⚠️  Could not fetch PageSpeed data: ${
           error.message || "Unknown error"
         }`
@@ -158,10 +165,3 @@ export async function collectLighthouseData(
     return null;
   }
 }
-
-/**
- * Clear the cache (useful for testing)
- */
-export function clearCache(): void {
-  cache.clear();
-}
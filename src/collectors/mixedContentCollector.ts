@@ -0,0 +1,98 @@
+/**
+ * Mixed Content Collector - Finds http:// subresources in the HTML of an
+ * HTTPS page, including srcset candidates and CSS url() references
+ */
+
+import * as cheerio from "cheerio";
+import type { MixedContentResource } from "../types.js";
+
+// Element attributes that load a subresource, by mixed content type
+const RESOURCE_ATTRIBUTES: Array<{
+  selector: string;
+  attribute: string;
+  type: MixedContentResource["type"];
+}> = [
+  { selector: "script", attribute: "src", type: "active" },
+  { selector: 'link[rel~="stylesheet"]', attribute: "href", type: "active" },
+  { selector: "iframe", attribute: "src", type: "active" },
+  { selector: "frame", attribute: "src", type: "active" },
+  { selector: "object", attribute: "data", type: "active" },
+  { selector: "embed", attribute: "src", type: "active" },
+  { selector: "img", attribute: "src", type: "passive" },
+  { selector: "img", attribute: "srcset", type: "passive" },
+  { selector: "source", attribute: "src", type: "passive" },
+  { selector: "source", attribute: "srcset", type: "passive" },
+  { selector: "video", attribute: "src", type: "passive" },
+  { selector: "video", attribute: "poster", type: "passive" },
+  { selector: "audio", attribute: "src", type: "passive" },
+  { selector: "input[type=image]", attribute: "src", type: "passive" },
+];
+
+const INSECURE_URL = /^\s*http:\/\//i;
+
+/**
+ * List the http:// resources a page loads, each URL once per source. Only
+ * meaningful for HTTPS pages; the caller decides whether to run it.
+ */
+export function findMixedContent(html: string): MixedContentResource[] {
+  const $ = cheerio.load(html);
+  const resources: MixedContentResource[] = [];
+  const add = (
+    url: string,
+    type: MixedContentResource["type"],
+    source: string
+  ) => {
+    url = url.trim();
+    if (
+      INSECURE_URL.test(url) &&
+      !resources.some((item) => item.url === url && item.source === source)
+    ) {
+      resources.push({ url, type, source });
+    }
+  };
+
+  for (const { selector, attribute, type } of RESOURCE_ATTRIBUTES) {
+    const source = `${selector.replace(/\[.*\]$/, "")}[${attribute}]`;
+    $(selector).each((_, elem) => {
+      const value = $(elem).attr(attribute);
+      if (!value) return;
+      const urls = attribute === "srcset" ? parseSrcset(value) : [value];
+      urls.forEach((url) => add(url, type, source));
+    });
+  }
+
+  // Inline styles: url() loads images and fonts (passive), while @import
+  // in a <style> block loads a stylesheet (active)
+  $("[style]").each((_, elem) => {
+    cssUrls($(elem).attr("style") ?? "").forEach((url) =>
+      add(url, "passive", "style url()")
+    );
+  });
+  $("style").each((_, elem) => {
+    const css = $(elem).text();
+    for (const match of css.matchAll(
+      /@import\s+(?:url\(\s*)?["']?([^"')\s;]+)/gi
+    )) {
+      add(match[1], "active", "style @import");
+    }
+    cssUrls(css.replace(/@import[^;]*;?/gi, "")).forEach((url) =>
+      add(url, "passive", "style url()")
+    );
+  });
+
+  return resources;
+}
+
+// srcset candidates are "url [descriptor]" separated by commas
+function parseSrcset(srcset: string): string[] {
+  return srcset
+    .split(/,\s+|,(?=\s*http)/)
+    .map((candidate) => candidate.trim().split(/\s+/)[0])
+    .filter(Boolean);
+}
+
+function cssUrls(css: string): string[] {
+  return [...css.matchAll(/url\(\s*["']?([^"')]+?)["']?\s*\)/gi)].map(
+    (match) => match[1]
+  );
+}
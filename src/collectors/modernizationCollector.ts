@@ -3,9 +3,11 @@
  */
 
 import { fetchPage } from "./httpCollector.js";
+import type { HttpContext } from "./httpCollector.js";
 import type { ModernizationResult } from "../types.js";
 
 export async function collectModernizationData(
+  http: HttpContext,
   baseUrl: string,
   html: string,
   verbose = false
@@ -17,7 +19,7 @@ export async function collectModernizationData(
   // Check wp-json root endpoint
   try {
     const wpJsonUrl = new URL("/wp-json/", baseUrl).toString();
-    const wpJsonResult = await fetchPage(wpJsonUrl, verbose);
+    const wpJsonResult = await fetchPage(http, wpJsonUrl, verbose);
 
     if (wpJsonResult.status === 200) {
       try {
@@ -36,7 +38,7 @@ export async function collectModernizationData(
   // Check posts endpoint
   try {
     const postsUrl = new URL("/wp-json/wp/v2/posts", baseUrl).toString();
-    const postsResult = await fetchPage(postsUrl, false);
+    const postsResult = await fetchPage(http, postsUrl, false);
     hasPostsEndpoint = postsResult.status === 200;
   } catch {
     hasPostsEndpoint = false;
@@ -45,7 +47,7 @@ export async function collectModernizationData(
   // Check pages endpoint
   try {
     const pagesUrl = new URL("/wp-json/wp/v2/pages", baseUrl).toString();
-    const pagesResult = await fetchPage(pagesUrl, false);
+    const pagesResult = await fetchPage(http, pagesUrl, false);
     hasPagesEndpoint = pagesResult.status === 200;
   } catch {
     hasPagesEndpoint = false;
@@ -1,13 +1,22 @@
 /**
- * Security Collector - Checks security headers and HTTPS usage
+ * Security Collector - Checks security headers, their CSP and HSTS
+ * policies, cookie attributes, HTTPS usage and mixed content
  */
 
-import type { SecurityResult } from "../types.js";
+import { evaluateCookies } from "./cookieAttributes.js";
+import { findMixedContent } from "./mixedContentCollector.js";
+import { evaluateCsp, evaluateHsts } from "./securityPolicies.js";
+import type { PolicyWeakness, SecurityResult } from "../types.js";
 
+/**
+ * Collect the security facts of one response. url is the URL the page was
+ * served from, after redirects.
+ */
 export function collectSecurityData(
   url: string,
   headers: Record<string, string>,
-  html: string
+  html: string,
+  setCookies: string[] = []
 ): SecurityResult {
   // Check if HTTPS
   const isHttps = url.startsWith("https://");
@@ -20,9 +29,26 @@ export function collectSecurityData(
 
   const hasXContentTypeOptions = "x-content-type-options" in headersLower;
   const hasXFrameOptions = "x-frame-options" in headersLower;
-  const hasContentSecurityPolicy =
-    "content-security-policy" in headersLower ||
-    "content-security-policy-report-only" in headersLower;
+  const hasContentSecurityPolicy = "content-security-policy" in headersLower;
+
+  // Evaluate the enforced CSP, and HSTS on HTTPS responses (browsers ignore
+  // it over HTTP)
+  const policyWeaknesses: PolicyWeakness[] = [];
+  if (hasContentSecurityPolicy) {
+    policyWeaknesses.push(
+      ...evaluateCsp(headersLower["content-security-policy"])
+    );
+  } else if ("content-security-policy-report-only" in headersLower) {
+    policyWeaknesses.push({
+      id: "csp-report-only",
+      evidence: headersLower["content-security-policy-report-only"],
+    });
+  }
+  if (isHttps) {
+    policyWeaknesses.push(
+      ...evaluateHsts(headersLower["strict-transport-security"])
+    );
+  }
 
   // Check if WordPress version is exposed
   let exposedWpVersion = false;
@@ -44,6 +70,7 @@ export function collectSecurityData(
     "x-content-type-options",
     "x-frame-options",
     "content-security-policy",
+    "content-security-policy-report-only",
     "x-xss-protection",
     "referrer-policy",
     "permissions-policy",
@@ -62,5 +89,9 @@ export function collectSecurityData(
     hasContentSecurityPolicy,
     exposedWpVersion,
     securityHeaders,
+    policyWeaknesses,
+    cookies: evaluateCookies(setCookies, isHttps),
+    // Mixed content only exists on HTTPS pages
+    mixedContent: isHttps ? findMixedContent(html) : [],
   };
 }
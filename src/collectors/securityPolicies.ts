@@ -0,0 +1,169 @@
+/**
+ * Security Policies - Parses Content-Security-Policy and
+ * Strict-Transport-Security headers and lists their weaknesses
+ */
+
+import type { PolicyWeakness } from "../types.js";
+
+// Minimum HSTS max-age (180 days), as recommended by Mozilla Observatory
+export const HSTS_MIN_MAX_AGE = 15552000;
+
+// Sources that allow scripts from any host
+const WILDCARD_SOURCES = ["*", "http:", "https:", "data:"];
+
+/**
+ * Split one CSP policy into directives and their source lists. Directive
+ * names are lowercased; a repeated directive is ignored, as browsers do.
+ */
+export function parseCsp(policy: string): Map<string, string[]> {
+  const directives = new Map<string, string[]>();
+
+  for (const part of policy.split(";")) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    if (name && !directives.has(name.toLowerCase())) {
+      directives.set(name.toLowerCase(), sources);
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Weaknesses of an enforced CSP header. A header can carry several
+ * comma-separated policies that all apply, so a weakness only counts when
+ * every policy has it.
+ */
+export function evaluateCsp(header: string): PolicyWeakness[] {
+  const results = header
+    .split(",")
+    .filter((policy) => policy.trim() !== "")
+    .map(evaluatePolicy);
+  if (results.length === 0) {
+    return [];
+  }
+
+  return results[0].filter((weakness) =>
+    results.every((result) => result.some((w) => w.id === weakness.id))
+  );
+}
+
+/**
+ * Script checks use script-src, falling back to default-src; 'unsafe-inline'
+ * is ignored by browsers when a nonce, hash or 'strict-dynamic' is present.
+ */
+function evaluatePolicy(policy: string): PolicyWeakness[] {
+  const directives = parseCsp(policy);
+  const weaknesses: PolicyWeakness[] = [];
+  const defaultSrc = directives.get("default-src");
+  const scriptDirective = directives.has("script-src")
+    ? "script-src"
+    : "default-src";
+  const scriptSrc = directives.get(scriptDirective) ?? [];
+  const lower = scriptSrc.map((source) => source.toLowerCase());
+
+  const inlineNeutralized = lower.some(
+    (source) =>
+      source.startsWith("'nonce-") ||
+      /^'sha(256|384|512)-/.test(source) ||
+      source === "'strict-dynamic'"
+  );
+  if (lower.includes("'unsafe-inline'") && !inlineNeutralized) {
+    weaknesses.push({
+      id: "csp-unsafe-inline",
+      evidence: `${scriptDirective} 'unsafe-inline'`,
+    });
+  }
+  if (lower.includes("'unsafe-eval'")) {
+    weaknesses.push({
+      id: "csp-unsafe-eval",
+      evidence: `${scriptDirective} 'unsafe-eval'`,
+    });
+  }
+
+  const wildcard = lower.find((source) => WILDCARD_SOURCES.includes(source));
+  if (wildcard) {
+    weaknesses.push({
+      id: "csp-wildcard-source",
+      evidence: `${scriptDirective} ${wildcard}`,
+    });
+  }
+
+  if (!defaultSrc) {
+    weaknesses.push({
+      id: "csp-missing-default-src",
+      evidence: "no default-src",
+    });
+  }
+  // object-src falls back to default-src, but only 'none' blocks plugins
+  if (!directives.has("object-src") && defaultSrc?.join(" ") !== "'none'") {
+    weaknesses.push({
+      id: "csp-missing-object-src",
+      evidence: "no object-src",
+    });
+  }
+  // frame-ancestors never falls back to default-src
+  if (!directives.has("frame-ancestors")) {
+    weaknesses.push({
+      id: "csp-missing-frame-ancestors",
+      evidence: "no frame-ancestors",
+    });
+  }
+
+  return weaknesses;
+}
+
+/**
+ * Parse an HSTS header. Returns null when max-age is missing or invalid,
+ * since browsers ignore such headers.
+ */
+export function parseHsts(
+  header: string
+): { maxAge: number; includeSubDomains: boolean; preload: boolean } | null {
+  const parts = header.split(";").map((part) => part.trim().toLowerCase());
+  const maxAge = parts
+    .map((part) => part.match(/^max-age\s*=\s*"?(\d+)"?$/)?.[1])
+    .find((value) => value !== undefined);
+  if (maxAge === undefined) {
+    return null;
+  }
+
+  return {
+    maxAge: parseInt(maxAge, 10),
+    includeSubDomains: parts.includes("includesubdomains"),
+    preload: parts.includes("preload"),
+  };
+}
+
+/**
+ * Weaknesses of the HSTS header of an HTTPS response (undefined when the
+ * header is not sent)
+ */
+export function evaluateHsts(header: string | undefined): PolicyWeakness[] {
+  const hsts = header === undefined ? null : parseHsts(header);
+  if (!hsts) {
+    return [
+      {
+        id: "hsts-missing",
+        evidence: header === undefined ? "not sent" : `invalid: ${header}`,
+      },
+    ];
+  }
+
+  const weaknesses: PolicyWeakness[] = [];
+  if (hsts.maxAge < HSTS_MIN_MAX_AGE) {
+    weaknesses.push({
+      id: "hsts-max-age-short",
+      evidence: `max-age=${hsts.maxAge}`,
+    });
+  }
+  if (!hsts.includeSubDomains) {
+    weaknesses.push({
+      id: "hsts-no-include-subdomains",
+      evidence: header!,
+    });
+  }
+  if (!hsts.preload) {
+    weaknesses.push({ id: "hsts-no-preload", evidence: header! });
+  }
+  return weaknesses;
+}
@@ -0,0 +1,123 @@
+/**
+ * Sensitive Path Collector - Requests well-known WordPress files and
+ * endpoints that should not be public (readme.html, config backups, debug
+ * logs, directory listings, xmlrpc.php) and classifies each one
+ */
+
+import { fetchPartial } from "./httpCollector.js";
+import type { HttpContext } from "./httpCollector.js";
+import type { SensitivePath } from "../types.js";
+
+interface PathProbe {
+  check: SensitivePath["check"];
+  path: string;
+  // Body text proving the response is the real file and not a soft 404 page
+  signature: RegExp;
+  // How a 200 response without the signature is classified
+  unsigned: SensitivePath["exposure"];
+}
+
+// Only the start of each response is read; logs and backups can be large
+const MAX_BODY_BYTES = 16 * 1024;
+
+const CONFIG_SIGNATURE = /DB_(NAME|USER|PASSWORD)|table_prefix/;
+
+const PATH_PROBES: PathProbe[] = [
+  {
+    check: "readme",
+    path: "/readme.html",
+    signature: /WordPress.*ReadMe|ReadMe.*WordPress/is,
+    unsigned: "absent",
+  },
+  {
+    check: "license",
+    path: "/license.txt",
+    signature: /WordPress - Web publishing software/i,
+    unsigned: "absent",
+  },
+  ...[
+    "wp-config.php.bak",
+    "wp-config.php.old",
+    "wp-config.php.save",
+    "wp-config.php~",
+  ].map(
+    (file): PathProbe => ({
+      check: "config-backup",
+      path: `/${file}`,
+      signature: CONFIG_SIGNATURE,
+      unsigned: "absent",
+    })
+  ),
+  {
+    check: "debug-log",
+    path: "/wp-content/debug.log",
+    signature: /PHP (Fatal error|Parse error|Warning|Notice|Deprecated)/,
+    unsigned: "absent",
+  },
+  {
+    check: "uploads-listing",
+    path: "/wp-content/uploads/",
+    signature: /<title>\s*Index of \//i,
+    // The directory exists but its listing is hidden (e.g. a blank index.php)
+    unsigned: "protected",
+  },
+  {
+    check: "xmlrpc",
+    path: "/xmlrpc.php",
+    // WordPress answers GET requests with this message when XML-RPC is on
+    signature: /XML-RPC server accepts POST requests only/i,
+    unsigned: "absent",
+  },
+];
+
+/**
+ * Probe every curated path with a single GET request (no retries). Only the
+ * first 16 KB of each response is read.
+ */
+export async function probeSensitivePaths(
+  http: HttpContext,
+  baseUrl: string,
+  verbose = false
+): Promise<SensitivePath[]> {
+  const results: SensitivePath[] = [];
+
+  for (const probe of PATH_PROBES) {
+    const url = new URL(probe.path, baseUrl).toString();
+    const result = await fetchPartial(http, url, MAX_BODY_BYTES, verbose);
+    results.push({
+      check: probe.check,
+      path: probe.path,
+      status: result.status,
+      exposure: classify(probe, result.status, result.body),
+      ...(result.error ? { error: result.error } : {}),
+    });
+  }
+
+  if (verbose) {
+    const exposed = results.filter((item) => item.exposure === "exposed");
+    console.log(
+      `Sensitive paths: ${exposed.length} exposed of ${results.length} checked${
+        exposed.length > 0
+          ? ` (${exposed.map((item) => item.path).join(", ")})`
+          : ""
+      }`
+    );
+  }
+
+  return results;
+}
+
+function classify(
+  probe: PathProbe,
+  status: number,
+  body: string
+): SensitivePath["exposure"] {
+  if (status === 401 || status === 403) {
+    return "protected";
+  }
+  // xmlrpc.php answers GET with 405 on some servers
+  if ((status === 200 || status === 405) && probe.signature.test(body)) {
+    return "exposed";
+  }
+  return status === 200 ? probe.unsigned : "absent";
+}
@@ -3,14 +3,13 @@
  */
 
 import * as cheerio from "cheerio";
-import { fetchPage } from "./httpCollector.js";
-import type { SeoResult } from "../types.js";
+import type { SeoResult, SiteResult } from "../types.js";
 
-export async function collectSeoData(
-  baseUrl: string,
+export function collectSeoData(
   html: string,
+  site: SiteResult,
   verbose = false
-): Promise<SeoResult> {
+): SeoResult {
   const $ = cheerio.load(html);
 
   // Extract title
@@ -33,25 +32,8 @@ export async function collectSeoData(
     }
   });
 
-  // Check for robots.txt
-  let hasRobotsTxt = false;
-  try {
-    const robotsUrl = new URL("/robots.txt", baseUrl).toString();
-    const robotsResult = await fetchPage(robotsUrl, false);
-    hasRobotsTxt = robotsResult.status === 200;
-  } catch {
-    hasRobotsTxt = false;
-  }
-
-  // Check for sitemap.xml
-  let hasSitemap = false;
-  try {
-    const sitemapUrl = new URL("/sitemap.xml", baseUrl).toString();
-    const sitemapResult = await fetchPage(sitemapUrl, false);
-    hasSitemap = sitemapResult.status === 200;
-  } catch {
-    hasSitemap = false;
-  }
+  // robots.txt and sitemap.xml are site-wide and checked once per audit
+  const { hasRobotsTxt, hasSitemap } = site;
 
   if (verbose) {
     console.log(
@@ -0,0 +1,140 @@
+/**
+ * Site Collector - Gathers site-wide facts once per audit
+ * (robots.txt, sitemap.xml, the REST API root, redirect probes, user
+ * enumeration and, when enabled, sensitive path probes)
+ */
+
+import { fetchPage } from "./httpCollector.js";
+import type { HttpContext } from "./httpCollector.js";
+import { probeSensitivePaths } from "./sensitivePathCollector.js";
+import { collectUserEnumeration } from "./userEnumerationCollector.js";
+import type { RedirectProbe, SiteResult } from "../types.js";
+
+export interface SiteCollectorOptions {
+  probeSensitivePaths?: boolean;
+  reportUsernames?: boolean;
+}
+
+export async function collectSiteData(
+  http: HttpContext,
+  baseUrl: string,
+  verbose = false,
+  options: SiteCollectorOptions = {}
+): Promise<SiteResult> {
+  // Check for robots.txt
+  let hasRobotsTxt = false;
+  try {
+    const robotsUrl = new URL("/robots.txt", baseUrl).toString();
+    const robotsResult = await fetchPage(http, robotsUrl, false);
+    hasRobotsTxt = robotsResult.status === 200;
+  } catch {
+    hasRobotsTxt = false;
+  }
+
+  // Check for sitemap.xml
+  let hasSitemap = false;
+  try {
+    const sitemapUrl = new URL("/sitemap.xml", baseUrl).toString();
+    const sitemapResult = await fetchPage(http, sitemapUrl, false);
+    hasSitemap = sitemapResult.status === 200;
+  } catch {
+    hasSitemap = false;
+  }
+
+  // Check wp-json root endpoint
+  let hasRestApi = false;
+  let restApiNamespaces: string[] = [];
+  try {
+    const wpJsonUrl = new URL("/wp-json/", baseUrl).toString();
+    const wpJsonResult = await fetchPage(http, wpJsonUrl, verbose);
+
+    if (wpJsonResult.status === 200 && wpJsonResult.body) {
+      try {
+        const jsonData = JSON.parse(wpJsonResult.body);
+        if (jsonData.namespaces || jsonData.routes) {
+          hasRestApi = true;
+        }
+        if (Array.isArray(jsonData.namespaces)) {
+          restApiNamespaces = jsonData.namespaces.filter(
+            (ns: unknown): ns is string => typeof ns === "string"
+          );
+        }
+      } catch {
+        // Not valid JSON
+      }
+    }
+  } catch {
+    // REST API not available
+  }
+
+  const redirectProbes = await probeRedirects(http, baseUrl);
+  const userEnumeration = await collectUserEnumeration(
+    http,
+    baseUrl,
+    verbose,
+    options.reportUsernames ?? false
+  );
+  const sensitivePaths = options.probeSensitivePaths
+    ? await probeSensitivePaths(http, baseUrl, verbose)
+    : undefined;
+
+  if (verbose) {
+    console.log(
+      `Site Data: robots=${hasRobotsTxt}, sitemap=${hasSitemap}, rest=${hasRestApi}, redirect probes=${redirectProbes.length}`
+    );
+  }
+
+  return {
+    hasRobotsTxt,
+    hasSitemap,
+    hasRestApi,
+    restApiNamespaces,
+    redirectProbes,
+    ...(sensitivePaths ? { sensitivePaths } : {}),
+    userEnumeration,
+  };
+}
+
+/**
+ * Request the http:// and www/non-www variants of the base URL to see
+ * whether they redirect to it
+ */
+async function probeRedirects(
+  http: HttpContext,
+  baseUrl: string
+): Promise<RedirectProbe[]> {
+  const base = new URL("/", baseUrl);
+  const variants: Array<{ variant: RedirectProbe["variant"]; url: URL }> = [];
+
+  if (base.protocol === "https:") {
+    const plain = new URL(base);
+    plain.protocol = "http:";
+    variants.push({ variant: "http", url: plain });
+  }
+
+  // Only real domain names have a www counterpart
+  const isDomain =
+    base.hostname.includes(".") && !/^[\d.]+$|^\[/.test(base.hostname);
+  if (isDomain) {
+    const www = new URL(base);
+    www.hostname = base.hostname.startsWith("www.")
+      ? base.hostname.slice(4)
+      : `www.${base.hostname}`;
+    variants.push({ variant: "www", url: www });
+  }
+
+  const probes: RedirectProbe[] = [];
+  for (const { variant, url } of variants) {
+    // No retries: an unreachable variant is a normal outcome
+    const result = await fetchPage(http, url.toString(), false, 0);
+    probes.push({
+      variant,
+      url: result.url,
+      status: result.status,
+      finalUrl: result.finalUrl,
+      redirects: result.redirects,
+      error: result.error,
+    });
+  }
+  return probes;
+}
@@ -4,6 +4,7 @@
 
 import { XMLParser } from "fast-xml-parser";
 import { fetchPage } from "./httpCollector.js";
+import type { HttpContext } from "./httpCollector.js";
 
 export interface SitemapUrl {
   loc: string;
@@ -23,6 +24,7 @@ const COMMON_SITEMAP_PATHS = [
  * Fetch and parse sitemap.xml from a WordPress site
  */
 export async function fetchSitemap(
+  http: HttpContext,
   baseUrl: string,
   verbose = false
 ): Promise<SitemapUrl[]> {
@@ -39,7 +41,7 @@ export async function fetchSitemap(
       console.log(`Looking for sitemap at: ${sitemapUrl}`);
     }
 
-    const result = await fetchPage(sitemapUrl, false);
+    const result = await fetchPage(http, sitemapUrl, false);
 
     if (result.status === 200 && result.body) {
       try {
@@ -50,7 +52,12 @@ export async function fetchSitemap(
           if (verbose) {
             console.log("Found sitemap index, fetching nested sitemaps...");
           }
-          return await parseSitemapIndex(parsed.sitemapindex, verbose, parser);
+          return await parseSitemapIndex(
+            http,
+            parsed.sitemapindex,
+            verbose,
+            parser
+          );
         }
 
         // Regular sitemap
@@ -80,6 +87,7 @@ export async function fetchSitemap(
  * Parse a sitemap index and fetch nested sitemaps
  */
 async function parseSitemapIndex(
+  http: HttpContext,
   sitemapindex: any,
   verbose: boolean,
   parser: XMLParser
@@ -101,7 +109,7 @@ async function parseSitemapIndex(
         console.log(`Fetching nested sitemap: ${loc}`);
       }
 
-      const result = await fetchPage(loc, false);
+      const result = await fetchPage(http, loc, false);
 
       if (result.status === 200 && result.body) {
         try {
@@ -0,0 +1,92 @@
+/**
+ * User Enumeration Collector - Checks whether usernames (author slugs) can
+ * be listed through the REST users endpoint or ?author=N archive redirects
+ */
+
+import { fetchPage } from "./httpCollector.js";
+import type { HttpContext } from "./httpCollector.js";
+import type { UserEnumeration } from "../types.js";
+
+// Author IDs requested; the first accounts are usually the administrators
+const AUTHOR_IDS = [1, 2, 3, 4, 5];
+
+/**
+ * Count the users exposed by each channel. Slugs are only returned when
+ * includeUsernames is set so reports do not publish them by default.
+ */
+export async function collectUserEnumeration(
+  http: HttpContext,
+  baseUrl: string,
+  verbose = false,
+  includeUsernames = false
+): Promise<UserEnumeration> {
+  const slugs = new Set<string>();
+
+  // REST API: anonymous requests list every user with published posts
+  const usersUrl = new URL("/wp-json/wp/v2/users?per_page=100", baseUrl);
+  const users = await fetchPage(http, usersUrl.toString(), verbose, 0);
+  const restSlugs = users.status === 200 ? parseUserSlugs(users.body) : [];
+  restSlugs.forEach((slug) => slugs.add(slug));
+
+  // Author archives: /?author=N redirects to /author/<slug>/, or the
+  // archive itself names the author in its body classes
+  let authorArchiveUsers = 0;
+  for (const id of AUTHOR_IDS) {
+    const authorUrl = new URL(`/?author=${id}`, baseUrl).toString();
+    const result = await fetchPage(http, authorUrl, verbose, 0);
+    const slug =
+      [...result.redirects.map((hop) => hop.location), result.finalUrl]
+        .map((url) => url.match(/\/author\/([^/?#]+)/)?.[1])
+        .find(Boolean) ??
+      (result.status === 200
+        ? result.body.match(
+            new RegExp(`\\bauthor-([\\w-]+)\\s+author-${id}\\b`)
+          )?.[1]
+        : undefined);
+    if (slug) {
+      authorArchiveUsers++;
+      slugs.add(decodeSlug(slug));
+    }
+  }
+
+  if (verbose) {
+    console.log(
+      `User enumeration: REST API ${restSlugs.length} users (status ${users.status}), author archives ${authorArchiveUsers} of ${AUTHOR_IDS.length}`
+    );
+  }
+
+  return {
+    restApiStatus: users.status,
+    restApiUsers: restSlugs.length,
+    authorIdsProbed: AUTHOR_IDS.length,
+    authorArchiveUsers,
+    exposedUsers: slugs.size,
+    ...(includeUsernames ? { usernames: [...slugs] } : {}),
+  };
+}
+
+/**
+ * Slugs with non-ASCII characters are percent-encoded in archive URLs. A
+ * malformed escape is kept as received.
+ */
+function decodeSlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
+
+function parseUserSlugs(body: string): string[] {
+  try {
+    const data = JSON.parse(body);
+    if (!Array.isArray(data)) {
+      return [];
+    }
+    return data
+      .map((user) => user?.slug)
+      .filter((slug): slug is string => typeof slug === "string" && !!slug);
+  } catch {
+    return [];
+  }
+}
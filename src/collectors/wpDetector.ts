@@ -4,18 +4,28 @@
 
 import * as cheerio from "cheerio";
 import { fetchPage } from "./httpCollector.js";
-import type { WpDetectionResult } from "../types.js";
+import type { HttpContext } from "./httpCollector.js";
+import type { DetectedPlugin, WpDetectionResult } from "../types.js";
+
+// Asset URLs and ?ver= values seen for one plugin
+interface PluginAssets {
+  baseUrl: string; // URL of the plugin directory
+  versions: string[];
+}
 
 export async function detectWordPress(
+  http: HttpContext,
   baseUrl: string,
   html: string,
-  verbose = false
+  verbose = false,
+  probeReadmes = false
 ): Promise<WpDetectionResult> {
   const $ = cheerio.load(html);
   const detectionMethods: string[] = [];
   let wpVersion: string | undefined;
   let themeName: string | undefined;
-  const plugins = new Set<string>();
+  let themeVersion: string | undefined;
+  const pluginAssets = new Map<string, PluginAssets>();
 
   // Method 1: Check meta generator tag
   const generator = $('meta[name="generator"]').attr("content");
@@ -39,18 +49,28 @@ export async function detectWordPress(
       const themeMatch = href.match(/\/wp-content\/themes\/([^/]+)\//);
       if (themeMatch && !themeName) {
         themeName = themeMatch[1];
+        themeVersion = assetVersion(href, baseUrl);
         detectionMethods.push("theme-detection");
       }
     }
   });
 
-  // Method 4: Extract plugins from script/link URLs
+  // Method 4: Extract plugins and their ?ver= values from script/link URLs
   $("script[src], link[href]").each((_, elem) => {
     const src = $(elem).attr("src") || $(elem).attr("href");
     if (src) {
-      const pluginMatch = src.match(/\/wp-content\/plugins\/([^/]+)\//);
+      const pluginMatch = src.match(/^(.*\/wp-content\/plugins\/([^/]+)\/)/);
       if (pluginMatch) {
-        plugins.add(pluginMatch[1]);
+        const [, pluginBase, slug] = pluginMatch;
+        const assets = pluginAssets.get(slug) ?? {
+          baseUrl: resolveUrl(pluginBase, baseUrl),
+          versions: [],
+        };
+        const version = assetVersion(src, baseUrl);
+        if (version) {
+          assets.versions.push(version);
+        }
+        pluginAssets.set(slug, assets);
       }
     }
   });
@@ -58,7 +78,7 @@ export async function detectWordPress(
   // Method 5: Try wp-json endpoint
   try {
     const wpJsonUrl = new URL("/wp-json/", baseUrl).toString();
-    const wpJsonResult = await fetchPage(wpJsonUrl, verbose);
+    const wpJsonResult = await fetchPage(http, wpJsonUrl, verbose);
 
     if (wpJsonResult.status === 200 && wpJsonResult.body) {
       try {
@@ -84,21 +104,101 @@ export async function detectWordPress(
     // wp-json endpoint not accessible
   }
 
+  // Themes that enqueue their stylesheet with the core version hide their own
+  if (themeVersion === wpVersion) {
+    themeVersion = undefined;
+  }
+
+  const plugins = await Promise.all(
+    [...pluginAssets].map(([slug, assets]) =>
+      fingerprintPlugin(http, slug, assets, wpVersion, probeReadmes, verbose)
+    )
+  );
+
   const isWordPress = detectionMethods.length > 0;
 
   if (verbose && isWordPress) {
     console.log(`WordPress detected via: ${detectionMethods.join(", ")}`);
     if (wpVersion) console.log(`Version: ${wpVersion}`);
-    if (themeName) console.log(`Theme: ${themeName}`);
-    if (plugins.size > 0)
-      console.log(`Plugins found: ${Array.from(plugins).join(", ")}`);
+    if (themeName)
+      console.log(
+        `Theme: ${[themeName, themeVersion].filter(Boolean).join(" ")}`
+      );
+    if (plugins.length > 0)
+      console.log(
+        `Plugins found: ${plugins
+          .map((p) => (p.version ? `${p.slug} ${p.version}` : p.slug))
+          .join(", ")}`
+      );
   }
 
   return {
     isWordPress,
     wpVersion,
     themeName,
-    plugins: Array.from(plugins),
+    themeVersion,
+    plugins,
     detectionMethods,
   };
 }
+
+/**
+ * Work out a plugin's version. The readme.txt "Stable tag" (when probing is
+ * enabled) is the most reliable source; asset ?ver= values are next, but
+ * many plugins enqueue assets with the WordPress core version instead.
+ */
+async function fingerprintPlugin(
+  http: HttpContext,
+  slug: string,
+  assets: PluginAssets,
+  wpVersion: string | undefined,
+  probeReadme: boolean,
+  verbose: boolean
+): Promise<DetectedPlugin> {
+  if (probeReadme) {
+    const readmeUrl = new URL("readme.txt", assets.baseUrl).toString();
+    const readme = await fetchPage(http, readmeUrl, verbose, 0);
+    const stableTag =
+      readme.status === 200
+        ? readme.body.match(/^[ \t]*Stable tag:[ \t]*(\d[\w.-]*)/im)?.[1]
+        : undefined;
+    if (stableTag) {
+      return { slug, version: stableTag, method: "readme", confidence: "high" };
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const version of assets.versions) {
+    counts.set(version, (counts.get(version) ?? 0) + 1);
+  }
+  if (counts.size === 0) {
+    return { slug, method: "path", confidence: "none" };
+  }
+
+  const [version] = [...counts].reduce((a, b) => (b[1] > a[1] ? b : a));
+  // Disagreeing values, or the core version, say little about the plugin
+  const confidence =
+    counts.size > 1 || version === wpVersion ? "low" : "medium";
+  return { slug, version, method: "asset-query", confidence };
+}
+
+/**
+ * The ?ver= value of an asset URL when it looks like a version number
+ * (e.g. 6.4.2, 1.0.0-beta, 3.2+build)
+ */
+function assetVersion(src: string, baseUrl: string): string | undefined {
+  try {
+    const version = new URL(src, baseUrl).searchParams.get("ver");
+    return version && /^\d[\w.+-]*$/.test(version) ? version : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
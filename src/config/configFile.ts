@@ -0,0 +1,283 @@
+/**
+ * Config File - Discovers, parses and validates wpaudit.config.json
+ */
+
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { validateIssuePattern } from "../gate/index.js";
+import { DEFAULT_PROFILE, resolveProfile } from "../scoring/profiles.js";
+import type { FileConfig } from "../types.js";
+
+export const CONFIG_FILE_NAME = "wpaudit.config.json";
+
+// A validator returns an error message for a bad value, or null when valid
+type Validator = (value: unknown, key: string) => string | null;
+type Schema = Record<string, Validator>;
+
+const isString: Validator = (value, key) =>
+  typeof value === "string" && value.trim() !== ""
+    ? null
+    : `"${key}" must be a non-empty string`;
+
+const isBoolean: Validator = (value, key) =>
+  typeof value === "boolean" ? null : `"${key}" must be true or false`;
+
+const isStringArray: Validator = (value, key) =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => typeof item === "string")
+    ? null
+    : `"${key}" must be a non-empty array of strings`;
+
+const isUrl: Validator = (value, key) => {
+  if (typeof value !== "string") return `"${key}" must be a URL string`;
+  try {
+    new URL(value);
+    return null;
+  } catch {
+    return `"${key}" must be an absolute URL (got "${value}")`;
+  }
+};
+
+const isPatternArray: Validator = (value, key) => {
+  const error = isStringArray(value, key);
+  if (error) return error;
+  for (const pattern of value as string[]) {
+    try {
+      validateIssuePattern(pattern);
+    } catch (patternError) {
+      return `"${key}": ${(patternError as Error).message}`;
+    }
+  }
+  return null;
+};
+
+function isInteger(min: number): Validator {
+  return (value, key) =>
+    typeof value === "number" && Number.isInteger(value) && value >= min
+      ? null
+      : `"${key}" must be an integer >= ${min}`;
+}
+
+function isOneOf(allowed: readonly string[]): Validator {
+  return (value, key) =>
+    typeof value === "string" && allowed.includes(value)
+      ? null
+      : `"${key}" must be one of: ${allowed.join(", ")}`;
+}
+
+function isObject(schema: Schema): Validator {
+  return (value, key) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return `"${key}" must be an object`;
+    }
+    return validateAgainst(value as Record<string, unknown>, schema, key);
+  };
+}
+
+function isRecordOf(validator: Validator): Validator {
+  return (value, key) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return `"${key}" must be an object`;
+    }
+    for (const [name, entry] of Object.entries(value)) {
+      const error = validator(entry, `${key}.${name}`);
+      if (error) return error;
+    }
+    return null;
+  };
+}
+
+/**
+ * Accept any subset of a template object's keys, with non-negative numbers
+ * wherever the template has a number
+ */
+function isPartialOf(template: unknown): Validator {
+  return (value, key) => {
+    if (typeof template === "number") {
+      return typeof value === "number" && value >= 0
+        ? null
+        : `"${key}" must be a number >= 0`;
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return `"${key}" must be an object`;
+    }
+    const schema: Schema = {};
+    for (const [name, child] of Object.entries(template as object)) {
+      schema[name] = isPartialOf(child);
+    }
+    return validateAgainst(value as Record<string, unknown>, schema, key);
+  };
+}
+
+// One non-negative integer per scoring category
+const CATEGORY_INTEGERS: Schema = {
+  performance: isInteger(0),
+  seo: isInteger(0),
+  security: isInteger(0),
+  modernization: isInteger(0),
+};
+
+// Keys accepted at the top level of the config file
+const CONFIG_SCHEMA: Schema = {
+  $schema: isString,
+  url: isUrl,
+  pages: isStringArray,
+  apiUrl: isUrl,
+  format: isOneOf(["md", "html", "json", "sarif", "junit"]),
+  out: isString,
+  autoPages: isBoolean,
+  maxPages: isInteger(1),
+  concurrency: isInteger(1),
+  hostConcurrency: isInteger(1),
+  requestDelay: isInteger(0),
+  verbose: isBoolean,
+  pageSpeed: isObject({
+    apiKey: isString,
+    strategy: isOneOf(["mobile", "desktop", "both"]),
+  }),
+  thresholds: isObject({
+    minScore: isInteger(0),
+    minCategoryScores: isObject(CATEGORY_INTEGERS),
+    failOnIssues: isPatternArray,
+  }),
+  profile: isString,
+  profiles: isRecordOf(
+    isObject({
+      extends: isString,
+      description: isString,
+      weights: isObject(CATEGORY_INTEGERS),
+      vitalsShare: isInteger(0),
+      points: isPartialOf(DEFAULT_PROFILE.points),
+      ratingBands: isObject({
+        healthy: isInteger(0),
+        needsOptimization: isInteger(0),
+        needsModernization: isInteger(0),
+      }),
+    })
+  ),
+  auth: isString,
+  headers: isRecordOf(isString),
+  cookieJar: isString,
+  userAgent: isString,
+  probePluginReadmes: isBoolean,
+  probeSensitivePaths: isBoolean,
+  reportUsernames: isBoolean,
+  advisories: isString,
+  record: isString,
+  replay: isString,
+};
+
+// Keys holding file or directory paths, resolved against the config file
+const PATH_KEYS = [
+  "advisories",
+  "cookieJar",
+  "record",
+  "replay",
+  "out",
+] as const;
+
+function validateAgainst(
+  data: Record<string, unknown>,
+  schema: Schema,
+  prefix = ""
+): string | null {
+  for (const [key, value] of Object.entries(data)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    const validator = schema[key];
+    if (!validator) {
+      return `Unknown key "${fullKey}"`;
+    }
+    const error = validator(value, fullKey);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate parsed config data. Throws an error naming the offending key.
+ */
+export function validateConfig(data: unknown, source: string): FileConfig {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid config file ${source}: expected a JSON object`);
+  }
+
+  const error = validateAgainst(data as Record<string, unknown>, CONFIG_SCHEMA);
+  if (error) {
+    throw new Error(`Invalid config file ${source}: ${error}`);
+  }
+
+  // Resolve every custom profile so bad weights or extends fail early
+  const config = data as FileConfig;
+  for (const name of Object.keys(config.profiles ?? {})) {
+    try {
+      resolveProfile(name, config.profiles);
+    } catch (profileError) {
+      throw new Error(
+        `Invalid config file ${source}: ${(profileError as Error).message}`
+      );
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Look for wpaudit.config.json in the given directory
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  const candidate = path.join(cwd, CONFIG_FILE_NAME);
+  return existsSync(candidate) ? candidate : null;
+}
+
+/**
+ * Load a config file from an explicit path, or auto-discover one in the
+ * working directory. Returns null when no file is used.
+ */
+export function loadConfigFile(configPath?: string): {
+  path: string;
+  config: FileConfig;
+} | null {
+  const resolvedPath = configPath
+    ? path.resolve(configPath)
+    : findConfigFile();
+
+  if (!resolvedPath) {
+    return null;
+  }
+
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`Config file not found: ${resolvedPath}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(resolvedPath, "utf-8"));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse config file ${resolvedPath}: ${msg}`);
+  }
+
+  const config = validateConfig(data, resolvedPath);
+  return {
+    path: resolvedPath,
+    config: resolveConfigPaths(config, path.dirname(resolvedPath)),
+  };
+}
+
+/**
+ * Make relative paths in a config file relative to the file's directory
+ * instead of the working directory
+ */
+function resolveConfigPaths(config: FileConfig, dir: string): FileConfig {
+  const resolved = { ...config };
+  for (const key of PATH_KEYS) {
+    const value = config[key];
+    if (value !== undefined) {
+      resolved[key] = path.resolve(dir, value);
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,269 @@
+/**
+ * Report Diff - Compares two JSON audit reports and highlights regressions
+ */
+
+import { readFile } from "fs/promises";
+import type { JsonReport } from "../report/json.js";
+import type {
+  CategoryScores,
+  DetectedPlugin,
+  DiffScoreKey,
+  Finding,
+  MetricChange,
+  PageDiff,
+  ReportDiff,
+} from "../types.js";
+
+const CATEGORY_KEYS: Array<keyof CategoryScores> = [
+  "performance",
+  "seo",
+  "security",
+  "modernization",
+];
+
+interface IssueEntry {
+  id: string;
+  title: string;
+  label: string;
+}
+
+// Per-page metrics compared between reports; lowerIsBetter drives regression flags
+const PAGE_METRICS: Array<{
+  metric: string;
+  pick: (page: JsonReport["rawData"]["pages"][number]) => number | undefined;
+  lowerIsBetter: boolean;
+}> = [
+  {
+    metric: "htmlSizeBytes",
+    pick: (p) => p.performance?.htmlSizeBytes,
+    lowerIsBetter: true,
+  },
+  {
+    metric: "numScripts",
+    pick: (p) => p.performance?.numScripts,
+    lowerIsBetter: true,
+  },
+  {
+    metric: "numStylesheets",
+    pick: (p) => p.performance?.numStylesheets,
+    lowerIsBetter: true,
+  },
+  { metric: "lcp", pick: (p) => p.lighthouseData?.lcp, lowerIsBetter: true },
+  { metric: "cls", pick: (p) => p.lighthouseData?.cls, lowerIsBetter: true },
+  { metric: "inp", pick: (p) => p.lighthouseData?.inp, lowerIsBetter: true },
+  { metric: "ttfb", pick: (p) => p.lighthouseData?.ttfb, lowerIsBetter: true },
+  {
+    metric: "performanceScore",
+    pick: (p) => p.lighthouseData?.performanceScore,
+    lowerIsBetter: false,
+  },
+];
+
+/**
+ * Read a report written with --format json
+ */
+export async function loadJsonReport(filePath: string): Promise<JsonReport> {
+  let data: any;
+  try {
+    data = JSON.parse(await readFile(filePath, "utf-8"));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read JSON report ${filePath}: ${msg}`);
+  }
+
+  if (!data?.meta || !data?.scores || !data?.findings) {
+    throw new Error(
+      `${filePath} is not a wp-modernization-audit JSON report (missing meta, scores or findings)`
+    );
+  }
+
+  return data as JsonReport;
+}
+
+export function diffReports(before: JsonReport, after: JsonReport): ReportDiff {
+  // Scores
+  const scoreKeys: DiffScoreKey[] = ["overall", ...CATEGORY_KEYS];
+  const scores = {} as ReportDiff["scores"];
+  for (const key of scoreKeys) {
+    scores[key] = {
+      before: before.scores[key],
+      after: after.scores[key],
+      delta: after.scores[key] - before.scores[key],
+    };
+  }
+
+  // Issues, compared by finding ID (or by text in reports that predate IDs)
+  const issues = {} as ReportDiff["issues"];
+  for (const key of CATEGORY_KEYS) {
+    const beforeIssues = toIssueEntries(before.findings[key]?.issues);
+    const afterIssues = toIssueEntries(after.findings[key]?.issues);
+    issues[key] = {
+      new: afterIssues
+        .filter((issue) => !beforeIssues.some((b) => sameIssue(issue, b)))
+        .map((issue) => issue.label),
+      resolved: beforeIssues
+        .filter((issue) => !afterIssues.some((a) => sameIssue(issue, a)))
+        .map((issue) => issue.label),
+    };
+  }
+
+  // WordPress theme and plugins
+  const pluginsBefore = toPluginVersions(before.wordpress?.plugins);
+  const pluginsAfter = toPluginVersions(after.wordpress?.plugins);
+  const wordpress: ReportDiff["wordpress"] = {
+    versionBefore: before.wordpress?.version ?? null,
+    versionAfter: after.wordpress?.version ?? null,
+    themeBefore: before.wordpress?.theme ?? null,
+    themeAfter: after.wordpress?.theme ?? null,
+    pluginsAdded: [...pluginsAfter.keys()].filter(
+      (slug) => !pluginsBefore.has(slug)
+    ),
+    pluginsRemoved: [...pluginsBefore.keys()].filter(
+      (slug) => !pluginsAfter.has(slug)
+    ),
+    pluginsUpdated: [...pluginsAfter].flatMap(([slug, after]) => {
+      const before = pluginsBefore.get(slug);
+      return before && after && before !== after
+        ? [{ slug, before, after }]
+        : [];
+    }),
+  };
+
+  const pages = diffPages(
+    before.rawData?.pages ?? [],
+    after.rawData?.pages ?? []
+  );
+
+  return {
+    before: { url: before.meta.url, generatedAt: before.meta.generatedAt },
+    after: { url: after.meta.url, generatedAt: after.meta.generatedAt },
+    scores,
+    rating: { before: before.scores.rating, after: after.scores.rating },
+    issues,
+    wordpress,
+    pages,
+    regressions: collectRegressions(scores, issues, pages),
+  };
+}
+
+/**
+ * Normalize report issues, which are Finding objects in current reports and
+ * plain strings in older ones
+ */
+function toIssueEntries(
+  issues: Array<Finding | string> | undefined
+): IssueEntry[] {
+  return (issues ?? []).map((issue) =>
+    typeof issue === "string"
+      ? { id: issue, title: issue, label: issue }
+      : {
+          id: issue.id,
+          title: issue.title,
+          label: `${issue.title} (${issue.id})`,
+        }
+  );
+}
+
+/**
+ * Map plugin slugs to their detected version (undefined when unknown).
+ * Current reports list plugin objects, older ones plain slugs.
+ */
+function toPluginVersions(
+  plugins: Array<DetectedPlugin | string> | undefined
+): Map<string, string | undefined> {
+  return new Map(
+    (plugins ?? []).map((plugin) =>
+      typeof plugin === "string"
+        ? [plugin, undefined]
+        : [plugin.slug, plugin.version]
+    )
+  );
+}
+
+function sameIssue(a: IssueEntry, b: IssueEntry): boolean {
+  return a.id === b.id || a.title === b.title;
+}
+
+function diffPages(
+  beforePages: JsonReport["rawData"]["pages"],
+  afterPages: JsonReport["rawData"]["pages"]
+): PageDiff[] {
+  const paths = [
+    ...beforePages.map((p) => p.path),
+    ...afterPages
+      .map((p) => p.path)
+      .filter((path) => !beforePages.some((p) => p.path === path)),
+  ];
+
+  return paths.map((path) => {
+    const beforePage = beforePages.find((p) => p.path === path);
+    const afterPage = afterPages.find((p) => p.path === path);
+
+    const metrics: MetricChange[] = PAGE_METRICS.map(
+      ({ metric, pick, lowerIsBetter }) => {
+        const beforeValue = beforePage ? pick(beforePage) ?? null : null;
+        const afterValue = afterPage ? pick(afterPage) ?? null : null;
+        const delta =
+          beforeValue !== null && afterValue !== null
+            ? afterValue - beforeValue
+            : null;
+        const regressed =
+          delta !== null && (lowerIsBetter ? delta > 0 : delta < 0);
+        return {
+          metric,
+          before: beforeValue,
+          after: afterValue,
+          delta,
+          regressed,
+        };
+      }
+    ).filter((m) => m.before !== null || m.after !== null);
+
+    const change: PageDiff["change"] = !beforePage
+      ? "added"
+      : !afterPage
+      ? "removed"
+      : metrics.some((m) => m.delta !== 0)
+      ? "changed"
+      : "unchanged";
+
+    return { path, change, metrics };
+  });
+}
+
+function collectRegressions(
+  scores: ReportDiff["scores"],
+  issues: ReportDiff["issues"],
+  pages: PageDiff[]
+): string[] {
+  const regressions: string[] = [];
+
+  for (const [key, change] of Object.entries(scores)) {
+    if (change.delta < 0) {
+      regressions.push(
+        `${key} score dropped from ${change.before} to ${change.after} (${change.delta})`
+      );
+    }
+  }
+
+  for (const [key, categoryIssues] of Object.entries(issues)) {
+    for (const issue of categoryIssues.new) {
+      regressions.push(`New ${key} issue: ${issue}`);
+    }
+  }
+
+  for (const page of pages) {
+    if (page.change === "removed") {
+      regressions.push(`Page ${page.path} is missing from the new report`);
+    }
+    for (const metric of page.metrics) {
+      if (metric.regressed) {
+        regressions.push(
+          `Page ${page.path}: ${metric.metric} went from ${metric.before} to ${metric.after}`
+        );
+      }
+    }
+  }
+
+  return regressions;
+}
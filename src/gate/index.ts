@@ -0,0 +1,103 @@
+/**
+ * CI Gate - Checks an audit result against score thresholds and issue
+ * patterns
+ */
+
+import type {
+  AuditResult,
+  CategoryScores,
+  Finding,
+  ThresholdViolation,
+  Thresholds,
+} from "../types.js";
+
+export function evaluateThresholds(
+  result: AuditResult,
+  thresholds: Thresholds
+): ThresholdViolation[] {
+  const violations: ThresholdViolation[] = [];
+
+  if (
+    thresholds.minScore !== undefined &&
+    result.scores.overall < thresholds.minScore
+  ) {
+    violations.push({
+      type: "overall",
+      message: `Overall score ${result.scores.overall} is below the minimum of ${thresholds.minScore}`,
+    });
+  }
+
+  const categoryMinimums = thresholds.minCategoryScores ?? {};
+  for (const [category, minimum] of Object.entries(categoryMinimums)) {
+    const score = result.scores[category as keyof CategoryScores];
+    if (minimum !== undefined && score < minimum) {
+      violations.push({
+        type: "category",
+        message: `${category} score ${score} is below the minimum of ${minimum}`,
+      });
+    }
+  }
+
+  const allFindings = [
+    ...result.analyses.performance.findings,
+    ...result.analyses.seo.findings,
+    ...result.analyses.security.findings,
+    ...result.analyses.modernization.findings,
+  ];
+  for (const pattern of thresholds.failOnIssues ?? []) {
+    const matches = matchFindings(allFindings, pattern);
+    for (const finding of matches) {
+      violations.push({
+        type: "issue",
+        message: `Issue matches "${pattern}": ${finding.title} (${finding.id})`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Match findings against a pattern: a finding ID matches exactly, "/regex/flags"
+ * is a regular expression tested against the title, anything else is a
+ * case-insensitive substring of the title
+ */
+function matchFindings(findings: Finding[], pattern: string): Finding[] {
+  const regex = issueRegex(pattern);
+  if (regex) {
+    return findings.filter((finding) => regex.test(finding.title));
+  }
+
+  const needle = pattern.toLowerCase();
+  return findings.filter(
+    (finding) =>
+      finding.id.toLowerCase() === needle ||
+      finding.title.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Throw when a threshold pattern is not a valid regular expression
+ */
+export function validateIssuePattern(pattern: string): void {
+  try {
+    issueRegex(pattern);
+  } catch (error) {
+    throw new Error(
+      `Invalid issue pattern ${pattern}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * The regular expression of a "/regex/flags" pattern, or null for plain
+ * patterns. The g and y flags are dropped: they make test() resume from the
+ * previous match, so findings would be skipped.
+ */
+function issueRegex(pattern: string): RegExp | null {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regexMatch) {
+    return null;
+  }
+  return new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ""));
+}
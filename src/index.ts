@@ -0,0 +1,34 @@
+/**
+ * Library entry point for wp-modernization-audit
+ */
+
+export { audit } from "./audit/index.js";
+export { generateReport } from "./report/index.js";
+export { generateMarkdownReport } from "./report/markdown.js";
+export { generateHtmlReport } from "./report/html.js";
+export { generateJsonReport } from "./report/json.js";
+export { generateSarifReport } from "./report/sarif.js";
+export { generateJunitReport } from "./report/junit.js";
+export type * from "./types.js";
+export {
+  loadConfigFile,
+  validateConfig,
+  findConfigFile,
+} from "./config/configFile.js";
+export { auditBatch } from "./batch/index.js";
+export { loadSiteList, parseSiteList } from "./batch/siteList.js";
+export { generatePortfolioReport } from "./report/portfolio.js";
+export { diffReports, loadJsonReport } from "./diff/index.js";
+export { generateDiffReport } from "./report/diff.js";
+export { evaluateThresholds } from "./gate/index.js";
+export {
+  BUILTIN_PROFILES,
+  DEFAULT_PROFILE,
+  resolveProfile,
+} from "./scoring/profiles.js";
+export { loadCookieJar, parseCookieJar } from "./collectors/cookieJar.js";
+export {
+  loadAdvisories,
+  parseAdvisories,
+  matchAdvisories,
+} from "./advisories/index.js";
@@ -0,0 +1,350 @@
+/**
+ * Diff Report Generator - Renders a comparison of two audit reports
+ */
+
+import type { ReportDiff, SummaryFormat } from "../types.js";
+
+const SCORE_LABELS: Record<keyof ReportDiff["scores"], string> = {
+  overall: "Overall",
+  performance: "Performance",
+  seo: "SEO Foundations",
+  security: "WordPress Health & Security",
+  modernization: "Modernization Readiness",
+};
+
+export function generateDiffReport(
+  diff: ReportDiff,
+  format: SummaryFormat
+): string {
+  switch (format) {
+    case "html":
+      return generateDiffHtml(diff);
+    case "json":
+      return JSON.stringify(diff, null, 2);
+    case "md":
+    default:
+      return generateDiffMarkdown(diff);
+  }
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return "–";
+  if (delta === 0) return "±0";
+  const rounded = Math.round(delta * 1000) / 1000;
+  return delta > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+function formatValue(value: number | string | null): string {
+  return value === null ? "–" : String(value);
+}
+
+function generateDiffMarkdown(diff: ReportDiff): string {
+  const sections: string[] = [];
+
+  sections.push("# WordPress Audit Comparison\n");
+  sections.push(`**Site:** ${diff.after.url}`);
+  sections.push(
+    `**Before:** ${new Date(diff.before.generatedAt).toLocaleString()}`
+  );
+  sections.push(
+    `**After:** ${new Date(diff.after.generatedAt).toLocaleString()}\n`
+  );
+
+  // Regressions first so they are impossible to miss
+  sections.push("---\n");
+  if (diff.regressions.length > 0) {
+    sections.push(`## 🚨 Regressions (${diff.regressions.length})\n`);
+    diff.regressions.forEach((regression) => {
+      sections.push(`- ${regression}`);
+    });
+  } else {
+    sections.push("## ✅ No Regressions\n");
+  }
+  sections.push("");
+
+  sections.push("## Score Changes\n");
+  sections.push("| Category | Before | After | Change |");
+  sections.push("|----------|--------|-------|--------|");
+  for (const [key, change] of Object.entries(diff.scores)) {
+    sections.push(
+      `| ${SCORE_LABELS[key as keyof ReportDiff["scores"]]} | ${
+        change.before
+      } | ${change.after} | ${formatDelta(change.delta)} |`
+    );
+  }
+  sections.push("");
+  if (diff.rating.before !== diff.rating.after) {
+    sections.push(
+      `**Rating:** ${diff.rating.before} → ${diff.rating.after}\n`
+    );
+  }
+
+  sections.push("## Issues\n");
+  for (const [key, issues] of Object.entries(diff.issues)) {
+    if (issues.new.length === 0 && issues.resolved.length === 0) continue;
+    sections.push(`### ${SCORE_LABELS[key as keyof ReportDiff["scores"]]}\n`);
+    issues.new.forEach((issue) => sections.push(`- 🆕 ${issue}`));
+    issues.resolved.forEach((issue) => sections.push(`- ✅ ~~${issue}~~`));
+    sections.push("");
+  }
+
+  const wp = diff.wordpress;
+  const wpChanges: string[] = [];
+  if (wp.versionBefore !== wp.versionAfter) {
+    wpChanges.push(
+      `- **WordPress version:** ${formatValue(wp.versionBefore)} → ${formatValue(
+        wp.versionAfter
+      )}`
+    );
+  }
+  if (wp.themeBefore !== wp.themeAfter) {
+    wpChanges.push(
+      `- **Theme:** ${formatValue(wp.themeBefore)} → ${formatValue(
+        wp.themeAfter
+      )}`
+    );
+  }
+  if (wp.pluginsAdded.length > 0) {
+    wpChanges.push(`- **Plugins added:** ${wp.pluginsAdded.join(", ")}`);
+  }
+  if (wp.pluginsRemoved.length > 0) {
+    wpChanges.push(`- **Plugins removed:** ${wp.pluginsRemoved.join(", ")}`);
+  }
+  if (wp.pluginsUpdated.length > 0) {
+    wpChanges.push(
+      `- **Plugins updated:** ${wp.pluginsUpdated
+        .map((p) => `${p.slug} ${p.before} → ${p.after}`)
+        .join(", ")}`
+    );
+  }
+  if (wpChanges.length > 0) {
+    sections.push("## WordPress Changes\n");
+    sections.push(...wpChanges);
+    sections.push("");
+  }
+
+  const changedPages = diff.pages.filter((p) => p.change !== "unchanged");
+  if (changedPages.length > 0) {
+    sections.push("## Page Metrics\n");
+    for (const page of changedPages) {
+      sections.push(`### \`${page.path}\` (${page.change})\n`);
+      sections.push("| Metric | Before | After | Change |");
+      sections.push("|--------|--------|-------|--------|");
+      page.metrics
+        .filter((m) => m.delta !== 0)
+        .forEach((m) => {
+          sections.push(
+            `| ${m.metric} | ${formatValue(m.before)} | ${formatValue(
+              m.after
+            )} | ${formatDelta(m.delta)}${m.regressed ? " ⚠️" : ""} |`
+          );
+        });
+      sections.push("");
+    }
+  }
+
+  sections.push("---\n");
+  sections.push(
+    "*Generated by [wp-modernization-audit](https://github.com/salttechno/wp-modernization-audit)*"
+  );
+
+  return sections.join("\n");
+}
+
+function generateDiffHtml(diff: ReportDiff): string {
+  const scoreRows = Object.entries(diff.scores)
+    .map(([key, change]) => {
+      const color =
+        change.delta > 0 ? "#10b981" : change.delta < 0 ? "#ef4444" : "#6b7280";
+      return `<tr><td>${
+        SCORE_LABELS[key as keyof ReportDiff["scores"]]
+      }</td><td>${change.before}</td><td>${
+        change.after
+      }</td><td style="color: ${color}; font-weight: 600;">${formatDelta(
+        change.delta
+      )}</td></tr>`;
+    })
+    .join("");
+
+  const issueBlocks = Object.entries(diff.issues)
+    .filter(([, issues]) => issues.new.length + issues.resolved.length > 0)
+    .map(
+      ([key, issues]) => `
+        <h3>${SCORE_LABELS[key as keyof ReportDiff["scores"]]}</h3>
+        <ul class="issues-list">${issues.new
+          .map((issue) => `<li class="new">🆕 ${escapeHtml(issue)}</li>`)
+          .join("")}${issues.resolved
+        .map((issue) => `<li class="resolved">✅ ${escapeHtml(issue)}</li>`)
+        .join("")}</ul>`
+    )
+    .join("");
+
+  const wp = diff.wordpress;
+  const wpItems = [
+    wp.versionBefore !== wp.versionAfter
+      ? `<li><strong>WordPress version:</strong> ${escapeHtml(
+          formatValue(wp.versionBefore)
+        )} → ${escapeHtml(formatValue(wp.versionAfter))}</li>`
+      : "",
+    wp.themeBefore !== wp.themeAfter
+      ? `<li><strong>Theme:</strong> ${escapeHtml(
+          formatValue(wp.themeBefore)
+        )} → ${escapeHtml(formatValue(wp.themeAfter))}</li>`
+      : "",
+    wp.pluginsAdded.length > 0
+      ? `<li><strong>Plugins added:</strong> ${escapeHtml(
+          wp.pluginsAdded.join(", ")
+        )}</li>`
+      : "",
+    wp.pluginsRemoved.length > 0
+      ? `<li><strong>Plugins removed:</strong> ${escapeHtml(
+          wp.pluginsRemoved.join(", ")
+        )}</li>`
+      : "",
+    wp.pluginsUpdated.length > 0
+      ? `<li><strong>Plugins updated:</strong> ${escapeHtml(
+          wp.pluginsUpdated
+            .map((p) => `${p.slug} ${p.before} → ${p.after}`)
+            .join(", ")
+        )}</li>`
+      : "",
+  ].join("");
+
+  const pageBlocks = diff.pages
+    .filter((p) => p.change !== "unchanged")
+    .map(
+      (page) => `
+        <h3><code>${escapeHtml(page.path)}</code> (${page.change})</h3>
+        <table>
+          <thead><tr><th>Metric</th><th>Before</th><th>After</th><th>Change</th></tr></thead>
+          <tbody>${page.metrics
+            .filter((m) => m.delta !== 0)
+            .map(
+              (m) =>
+                `<tr${m.regressed ? ' class="regressed"' : ""}><td>${
+                  m.metric
+                }</td><td>${formatValue(m.before)}</td><td>${formatValue(
+                  m.after
+                )}</td><td>${formatDelta(m.delta)}</td></tr>`
+            )
+            .join("")}</tbody>
+        </table>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>WordPress Audit Comparison - ${escapeHtml(diff.after.url)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      background: #f5f7fa;
+      padding: 20px;
+    }
+    .container {
+      max-width: 1200px;
+      margin: 0 auto;
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 2px 20px rgba(0,0,0,0.1);
+      overflow: hidden;
+    }
+    header {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      padding: 40px;
+      text-align: center;
+    }
+    header h1 { font-size: 2.2em; margin-bottom: 10px; }
+    .section { padding: 40px; border-bottom: 1px solid #e5e7eb; }
+    .section h2 {
+      color: #1f2937;
+      margin-bottom: 20px;
+      border-left: 4px solid #667eea;
+      padding-left: 15px;
+    }
+    .section h3 { margin: 20px 0 10px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #f3f4f6; }
+    th { background: #f3f4f6; }
+    tr.regressed td { background: #fef2f2; }
+    .issues-list { list-style: none; }
+    .issues-list li { padding: 10px 15px; margin: 6px 0; border-radius: 4px; }
+    .issues-list li.new { background: #fef2f2; border-left: 4px solid #ef4444; }
+    .issues-list li.resolved { background: #f0fdf4; border-left: 4px solid #10b981; }
+    .regressions li { color: #991b1b; margin: 6px 0 6px 20px; }
+    footer { padding: 30px; text-align: center; background: #f9fafb; color: #6b7280; font-size: 0.9em; }
+    footer a { color: #667eea; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <header>
+      <h1>🔀 WordPress Audit Comparison</h1>
+      <div>${escapeHtml(diff.after.url)}</div>
+      <div>${new Date(diff.before.generatedAt).toLocaleString()} → ${new Date(
+    diff.after.generatedAt
+  ).toLocaleString()}</div>
+    </header>
+    <div class="section">
+      <h2>${
+        diff.regressions.length > 0
+          ? `🚨 Regressions (${diff.regressions.length})`
+          : "✅ No Regressions"
+      }</h2>
+      <ul class="regressions">${diff.regressions
+        .map((regression) => `<li>${escapeHtml(regression)}</li>`)
+        .join("")}</ul>
+    </div>
+    <div class="section">
+      <h2>Score Changes</h2>
+      <table>
+        <thead><tr><th>Category</th><th>Before</th><th>After</th><th>Change</th></tr></thead>
+        <tbody>${scoreRows}</tbody>
+      </table>
+      ${
+        diff.rating.before !== diff.rating.after
+          ? `<p style="margin-top: 15px;"><strong>Rating:</strong> ${escapeHtml(
+              diff.rating.before
+            )} → ${escapeHtml(diff.rating.after)}</p>`
+          : ""
+      }
+    </div>
+    <div class="section">
+      <h2>Issues</h2>
+      ${issueBlocks || "<p>No issue changes.</p>"}
+    </div>
+    ${
+      wpItems
+        ? `<div class="section"><h2>WordPress Changes</h2><ul style="margin-left: 20px;">${wpItems}</ul></div>`
+        : ""
+    }
+    ${
+      pageBlocks
+        ? `<div class="section"><h2>Page Metrics</h2>${pageBlocks}</div>`
+        : ""
+    }
+    <footer>
+      <p>Generated by <a href="https://github.com/salttechno/wp-modernization-audit" target="_blank">wp-modernization-audit</a> v0.4.0</p>
+    </footer>
+  </div>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#039;",
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
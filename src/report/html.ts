@@ -2,18 +2,26 @@
  * HTML Report Generator - Creates professional HTML reports with embedded CSS
  */
 
-import type { AuditResult } from "../types";
+import { rankFindings } from "../analyzers/findings.js";
+import { findWorstPages } from "../scoring/scorer.js";
+import type {
+  AuditResult,
+  CategoryScores,
+  DetectedPlugin,
+  Finding,
+} from "../types";
 
 export function generateHtmlReport(result: AuditResult): string {
   const ratingColor = getRatingColor(result.scores.rating);
   const ratingLabel = getRatingLabel(result.scores.rating);
+  const { maxScores } = result.scores;
 
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>WordPress Modernization Audit - ${result.url}</title>
+  <title>WordPress Modernization Audit - ${escapeHtml(result.url)}</title>
   <style>
     * {
       margin: 0;
@@ -202,6 +210,32 @@ export function generateHtmlReport(result: AuditResult): string {
       margin-right: 8px;
     }
     
+    .severity {
+      display: inline-block;
+      padding: 1px 8px;
+      margin-right: 6px;
+      border-radius: 10px;
+      font-size: 0.75em;
+      font-weight: 700;
+      text-transform: uppercase;
+      color: white;
+    }
+    .severity-critical { background: #7f1d1d; }
+    .severity-high { background: #ef4444; }
+    .severity-medium { background: #f59e0b; }
+    .severity-low { background: #6b7280; }
+    .finding-meta { color: #6b7280; font-size: 0.85em; }
+    .composition { color: #4b5563; margin-bottom: 15px; }
+    .breakdown { margin-top: 20px; }
+    .breakdown summary { cursor: pointer; font-weight: 600; color: #1f2937; }
+    .breakdown table { width: 100%; border-collapse: collapse; margin-top: 10px; }
+    .breakdown th, .breakdown td { padding: 8px 12px; text-align: left; border-bottom: 1px solid #e5e7eb; }
+    .breakdown code { background: #f3f4f6; padding: 2px 6px; border-radius: 4px; font-size: 0.9em; }
+    .breakdown .scaled { color: #6b7280; font-size: 0.9em; margin-top: 8px; }
+    .page-scores { width: 100%; border-collapse: collapse; }
+    .page-scores th, .page-scores td { padding: 10px 12px; text-align: left; border-bottom: 1px solid #e5e7eb; }
+    .page-scores td.worst { background: #fef2f2; color: #b91c1c; font-weight: 600; }
+    
     .recommendations-list li {
       padding: 12px 15px;
       margin: 8px 0;
@@ -295,6 +329,9 @@ export function generateHtmlReport(result: AuditResult): string {
       <div class="timestamp">Generated: ${new Date(
         result.timestamp
       ).toLocaleString()}</div>
+      <div class="timestamp">Scoring profile: ${escapeHtml(
+        result.scores.profile
+      )}</div>
     </header>
     
     <div class="executive-summary">
@@ -314,18 +351,33 @@ export function generateHtmlReport(result: AuditResult): string {
           <h3>✅ WordPress Detected</h3>
           ${
             result.wpDetection.wpVersion
-              ? `<p><strong>Version:</strong> ${result.wpDetection.wpVersion}</p>`
+              ? `<p><strong>Version:</strong> ${escapeHtml(
+                  result.wpDetection.wpVersion
+                )}</p>`
               : ""
           }
           ${
             result.wpDetection.themeName
-              ? `<p><strong>Theme:</strong> ${result.wpDetection.themeName}</p>`
+              ? `<p><strong>Theme:</strong> ${escapeHtml(
+                  result.wpDetection.themeName
+                )}${
+                  result.wpDetection.themeVersion
+                    ? ` ${escapeHtml(result.wpDetection.themeVersion)}`
+                    : ""
+                }</p>`
               : ""
           }
           ${
             result.wpDetection.plugins.length > 0
               ? `<p><strong>Plugins:</strong> ${result.wpDetection.plugins
                   .slice(0, 5)
+                  .map((plugin) =>
+                    escapeHtml(
+                      plugin.version
+                        ? `${plugin.slug} ${plugin.version}`
+                        : plugin.slug
+                    )
+                  )
                   .join(", ")}${
                   result.wpDetection.plugins.length > 5 ? "..." : ""
                 }</p>`
@@ -343,7 +395,7 @@ export function generateHtmlReport(result: AuditResult): string {
           <h3>🚨 Top Issues to Address</h3>
           <ol>
             ${result.topIssues
-              .map((issue) => `<li>${escapeHtml(issue)}</li>`)
+              .map((finding) => `<li>${renderFinding(finding)}</li>`)
               .join("")}
           </ol>
         </div>
@@ -353,32 +405,72 @@ export function generateHtmlReport(result: AuditResult): string {
     </div>
     
     <div class="category-grid">
-      ${renderCategoryCard("Performance", result.scores.performance, 30)}
-      ${renderCategoryCard("SEO Foundations", result.scores.seo, 25)}
-      ${renderCategoryCard("Security", result.scores.security, 25)}
-      ${renderCategoryCard("Modernization", result.scores.modernization, 20)}
+      ${renderCategoryCard(
+        "Performance",
+        result.scores.performance,
+        maxScores.performance
+      )}
+      ${renderCategoryCard("SEO Foundations", result.scores.seo, maxScores.seo)}
+      ${renderCategoryCard(
+        "Security",
+        result.scores.security,
+        maxScores.security
+      )}
+      ${renderCategoryCard(
+        "Modernization",
+        result.scores.modernization,
+        maxScores.modernization
+      )}
     </div>
     
     <div class="section">
-      <h2>1. Performance (${result.scores.performance}/30)</h2>
-      ${renderAnalysisSection(result.analyses.performance)}
+      <h2>1. Performance (${result.scores.performance}/${maxScores.performance})</h2>
+      ${renderPerformanceComposition(result)}
+      ${renderAnalysisSection(
+        result.analyses.performance,
+        result.pages.length > 1
+      )}
       ${renderCoreWebVitalsSection(result)}
+      ${renderBreakdown(result, "performance")}
     </div>
     
     <div class="section">
-      <h2>2. SEO Foundations (${result.scores.seo}/25)</h2>
-      ${renderAnalysisSection(result.analyses.seo)}
+      <h2>2. SEO Foundations (${result.scores.seo}/${maxScores.seo})</h2>
+      ${renderAnalysisSection(
+        result.analyses.seo,
+        result.pages.length > 1
+      )}
+      ${renderBreakdown(result, "seo")}
     </div>
     
     <div class="section">
-      <h2>3. WordPress Health & Security (${result.scores.security}/25)</h2>
-      ${renderAnalysisSection(result.analyses.security)}
+      <h2>3. WordPress Health & Security (${result.scores.security}/${maxScores.security})</h2>
+      ${renderAnalysisSection(
+        result.analyses.security,
+        result.pages.length > 1
+      )}
+      ${renderPlugins(result)}
+      ${renderVulnerabilities(result)}
+      ${renderMixedContent(result)}
+      ${
+        result.site.userEnumeration.usernames?.length
+          ? `<p><strong>Enumerable usernames:</strong> ${escapeHtml(
+              result.site.userEnumeration.usernames.join(", ")
+            )}</p>`
+          : ""
+      }
+      ${renderBreakdown(result, "security")}
     </div>
     
     <div class="section">
-      <h2>4. Modernization Readiness (${result.scores.modernization}/20)</h2>
-      ${renderAnalysisSection(result.analyses.modernization)}
+      <h2>4. Modernization Readiness (${result.scores.modernization}/${maxScores.modernization})</h2>
+      ${renderAnalysisSection(
+        result.analyses.modernization,
+        result.pages.length > 1
+      )}
+      ${renderBreakdown(result, "modernization")}
     </div>
+    ${renderPageScores(result)}
     
     <footer>
       <p>Generated by <a href="https://github.com/salttechno/wp-modernization-audit" target="_blank">wp-modernization-audit</a> v0.4.0</p>
@@ -460,13 +552,13 @@ function renderCategoryCard(
   `;
 }
 
-function renderAnalysisSection(analysis: any): string {
+function renderAnalysisSection(analysis: any, showPages: boolean): string {
   let html = "";
 
-  if (analysis.issues && analysis.issues.length > 0) {
+  if (analysis.findings && analysis.findings.length > 0) {
     html += '<h3>Issues Found</h3><ul class="issues-list">';
-    analysis.issues.forEach((issue: string) => {
-      html += `<li>${escapeHtml(issue)}</li>`;
+    rankFindings(analysis.findings).forEach((finding) => {
+      html += `<li>${renderFinding(finding, showPages)}</li>`;
     });
     html += "</ul>";
   }
@@ -482,6 +574,202 @@ function renderAnalysisSection(analysis: any): string {
   return html || "<p>No issues found in this category.</p>";
 }
 
+function renderFinding(finding: Finding, showPages = false): string {
+  const pages =
+    showPages && finding.pages.length > 0
+      ? ` · ${escapeHtml(finding.pages.join(", "))}`
+      : "";
+  return `<span class="severity severity-${finding.severity}">${
+    finding.severity
+  }</span>${escapeHtml(finding.title)} <span class="finding-meta">${escapeHtml(
+    finding.id
+  )}${pages}</span>`;
+}
+
+/**
+ * Per-page score table; the worst page in each category is highlighted
+ */
+function renderPageScores(result: AuditResult): string {
+  if (result.pageScores.length <= 1) {
+    return "";
+  }
+
+  const worst = findWorstPages(result.pageScores);
+  const { maxScores } = result.scores;
+  const categories: Array<keyof CategoryScores> = [
+    "performance",
+    "seo",
+    "security",
+    "modernization",
+  ];
+
+  const rows = result.pageScores
+    .map((page) => {
+      const cells = categories
+        .map((key) => {
+          const highlight = worst[key] === page ? ' class="worst"' : "";
+          return `<td${highlight}>${page.scores[key]}/${maxScores[key]}</td>`;
+        })
+        .join("");
+      return `<tr><td><a href="${escapeHtml(page.url)}">${escapeHtml(
+        page.path
+      )}</a></td><td>${page.scores.overall}/100</td>${cells}</tr>`;
+    })
+    .join("");
+
+  return `
+    <div class="section">
+      <h2>Page-by-Page Scores</h2>
+      <table class="page-scores">
+        <thead><tr><th>Page</th><th>Overall</th><th>Performance</th><th>SEO</th><th>Security</th><th>Modernization</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <p class="composition">Highlighted cells mark the weakest page in each category.</p>
+    </div>`;
+}
+
+const PLUGIN_SOURCES: Record<DetectedPlugin["method"], string> = {
+  readme: "readme.txt Stable tag",
+  "asset-query": "Asset ?ver= parameter",
+  path: "Asset path only",
+};
+
+/**
+ * Detected plugins with their version and how it was determined
+ */
+function renderPlugins(result: AuditResult): string {
+  const { plugins } = result.wpDetection;
+  if (plugins.length === 0) {
+    return "";
+  }
+
+  const rows = plugins
+    .map(
+      (plugin) =>
+        `<tr><td>${escapeHtml(plugin.slug)}</td><td>${escapeHtml(
+          plugin.version ?? "unknown"
+        )}</td><td>${PLUGIN_SOURCES[plugin.method]}</td><td>${
+          plugin.confidence
+        }</td></tr>`
+    )
+    .join("");
+
+  return `
+      <h3>Detected Plugins</h3>
+      <table class="page-scores">
+        <thead><tr><th>Plugin</th><th>Version</th><th>Source</th><th>Confidence</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+}
+
+/**
+ * Advisories matched against the detected versions. Nothing is shown when
+ * no advisory file was given.
+ */
+function renderVulnerabilities(result: AuditResult): string {
+  const { vulnerabilities, vulnerabilityStatus } = result.analyses.security;
+  if (vulnerabilityStatus === "unchecked") {
+    return "";
+  }
+  if (vulnerabilities.length === 0) {
+    return `
+      <h3>Known Vulnerabilities</h3>
+      <p>✅ No known vulnerabilities in the detected versions</p>`;
+  }
+
+  const rows = vulnerabilities
+    .map(
+      ({ advisory, component, installedVersion }) =>
+        `<tr><td>${escapeHtml(advisory.id)}</td><td>${escapeHtml(
+          advisory.title
+        )}</td><td>${escapeHtml(component)}</td><td>${escapeHtml(
+          installedVersion
+        )}</td><td>${escapeHtml(advisory.fixedIn ?? "no fix")}</td><td>${
+          advisory.severity
+        }</td></tr>`
+    )
+    .join("");
+
+  return `
+      <h3>Known Vulnerabilities</h3>
+      <table class="page-scores">
+        <thead><tr><th>Advisory</th><th>Title</th><th>Component</th><th>Installed</th><th>Fixed in</th><th>Severity</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+}
+
+/**
+ * http:// resources loaded by each HTTPS page; nothing is shown without
+ * mixed content
+ */
+function renderMixedContent(result: AuditResult): string {
+  const rows = result.pages
+    .flatMap((page) =>
+      page.securityResult.mixedContent.map(
+        ({ url, type, source }) =>
+          `<tr><td>${escapeHtml(page.path)}</td><td>${type}</td><td>${
+            escapeHtml(source)
+          }</td><td>${escapeHtml(url)}</td></tr>`
+      )
+    )
+    .join("");
+  if (!rows) {
+    return "";
+  }
+
+  return `
+      <h3>Mixed Content</h3>
+      <table class="page-scores">
+        <thead><tr><th>Page</th><th>Type</th><th>Found in</th><th>Resource</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+}
+
+/**
+ * "How this score was calculated" table for one category
+ */
+function renderBreakdown(
+  result: AuditResult,
+  category: keyof CategoryScores
+): string {
+  const items = result.scores.breakdown[category];
+  const points = items.reduce((sum, item) => sum + item.points, 0);
+  const maxPoints = items.reduce((sum, item) => sum + item.maxPoints, 0);
+  const score = result.scores[category];
+  const maxScore = result.scores.maxScores[category];
+
+  const rows = items
+    .map(
+      (item) =>
+        `<tr><td>${escapeHtml(item.check)}</td><td><code>${escapeHtml(
+          item.input
+        )}</code></td><td>${item.points}/${item.maxPoints}</td></tr>`
+    )
+    .join("");
+  const scaled =
+    points !== score || maxPoints !== maxScore
+      ? `<p class="scaled">Check points are scaled to the category weight: ${score}/${maxScore}.</p>`
+      : "";
+
+  return `
+      <details class="breakdown">
+        <summary>How this score was calculated</summary>
+        <table>
+          <thead><tr><th>Check</th><th>Input</th><th>Points</th></tr></thead>
+          <tbody>${rows}<tr><th>Total</th><td></td><th>${points}/${maxPoints}</th></tr></tbody>
+        </table>
+        ${scaled}
+      </details>`;
+}
+
+function renderPerformanceComposition(result: AuditResult): string {
+  const { pageChecks, coreWebVitals } = result.scores.composition.performance;
+  const vitals = coreWebVitals
+    ? ` + Core Web Vitals <strong>${coreWebVitals.score}/${coreWebVitals.maxScore}</strong>`
+    : " (Core Web Vitals not measured; their share is redistributed to page checks)";
+  return `<p class="composition">Score composition: page checks <strong>${pageChecks.score}/${pageChecks.maxScore}</strong>${vitals}</p>`;
+}
+
 function renderCoreWebVitalsSection(result: AuditResult): string {
   if (!result.analyses.performance.coreWebVitals) {
     return "";
@@ -0,0 +1,29 @@
+/**
+ * Report Dispatcher - Renders an audit result in the requested format
+ */
+
+import { generateMarkdownReport } from "./markdown.js";
+import { generateHtmlReport } from "./html.js";
+import { generateJsonReport } from "./json.js";
+import { generateSarifReport } from "./sarif.js";
+import { generateJunitReport } from "./junit.js";
+import type { AuditResult, ReportFormat } from "../types.js";
+
+export function generateReport(
+  result: AuditResult,
+  format: ReportFormat
+): string {
+  switch (format) {
+    case "html":
+      return generateHtmlReport(result);
+    case "json":
+      return generateJsonReport(result);
+    case "sarif":
+      return generateSarifReport(result);
+    case "junit":
+      return generateJunitReport(result);
+    case "md":
+    default:
+      return generateMarkdownReport(result);
+  }
+}
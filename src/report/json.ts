@@ -2,23 +2,48 @@
  * JSON Report Generator - Exports structured audit data
  */
 
+import { rankFindings } from "../analyzers/findings.js";
+import { findWorstPages } from "../scoring/scorer.js";
 import type { AuditResult } from "../types";
 
 export function generateJsonReport(result: AuditResult): string {
-  const jsonOutput = {
+  // Credentials are redacted from the result's URL and error fields by the
+  // HTTP collector, so the report is serialized as is
+  return JSON.stringify(buildJsonReport(result), null, 2);
+}
+
+// Shape of a parsed JSON report (used when reading reports back, e.g. diff)
+export type JsonReport = ReturnType<typeof buildJsonReport>;
+
+export function buildJsonReport(result: AuditResult) {
+  const worstPages = findWorstPages(result.pageScores);
+
+  return {
     meta: {
       version: "0.4.0",
       generatedAt: result.timestamp,
       url: result.url,
       pagesAudited: result.pages.length,
+      scoringProfile: result.scores.profile,
+      request: result.request,
     },
     wordpress: {
       detected: result.wpDetection.isWordPress,
       version: result.wpDetection.wpVersion || null,
       theme: result.wpDetection.themeName || null,
+      themeVersion: result.wpDetection.themeVersion || null,
       plugins: result.wpDetection.plugins,
       detectionMethods: result.wpDetection.detectionMethods,
     },
+    site: {
+      hasRobotsTxt: result.site.hasRobotsTxt,
+      hasSitemap: result.site.hasSitemap,
+      hasRestApi: result.site.hasRestApi,
+      restApiNamespaces: result.site.restApiNamespaces,
+      redirectProbes: result.site.redirectProbes,
+      sensitivePaths: result.site.sensitivePaths ?? null,
+      userEnumeration: result.site.userEnumeration,
+    },
     scores: {
       overall: result.scores.overall,
       performance: result.scores.performance,
@@ -26,13 +51,16 @@ export function generateJsonReport(result: AuditResult): string {
       security: result.scores.security,
       modernization: result.scores.modernization,
       rating: result.scores.rating,
+      maxScores: result.scores.maxScores,
+      composition: result.scores.composition,
+      breakdown: result.scores.breakdown,
     },
     findings: {
       performance: {
         category: "Performance",
         score: result.scores.performance,
-        maxScore: 30,
-        issues: result.analyses.performance.issues,
+        maxScore: result.scores.maxScores.performance,
+        issues: rankFindings(result.analyses.performance.findings),
         recommendations: result.analyses.performance.recommendations,
         details: {
           htmlSizeCategory: result.analyses.performance.htmlSizeCategory,
@@ -45,8 +73,8 @@ export function generateJsonReport(result: AuditResult): string {
       seo: {
         category: "SEO Foundations",
         score: result.scores.seo,
-        maxScore: 25,
-        issues: result.analyses.seo.issues,
+        maxScore: result.scores.maxScores.seo,
+        issues: rankFindings(result.analyses.seo.findings),
         recommendations: result.analyses.seo.recommendations,
         details: {
           titleQuality: result.analyses.seo.titleQuality,
@@ -60,21 +88,29 @@ export function generateJsonReport(result: AuditResult): string {
       security: {
         category: "WordPress Health & Security",
         score: result.scores.security,
-        maxScore: 25,
-        issues: result.analyses.security.issues,
+        maxScore: result.scores.maxScores.security,
+        issues: rankFindings(result.analyses.security.findings),
         recommendations: result.analyses.security.recommendations,
         details: {
           httpsStatus: result.analyses.security.httpsStatus,
           headersCoverage: result.analyses.security.headersCoverage,
           versionExposure: result.analyses.security.versionExposure,
           overallPosture: result.analyses.security.overallPosture,
+          inconsistentHeaders: result.analyses.security.inconsistentHeaders,
+          exposedPaths: result.analyses.security.exposedPaths,
+          fileExposure: result.analyses.security.fileExposure,
+          usernameExposure: result.analyses.security.usernameExposure,
+          insecureCookies: result.analyses.security.insecureCookies,
+          mixedContent: result.analyses.security.mixedContent,
+          vulnerabilityStatus: result.analyses.security.vulnerabilityStatus,
+          vulnerabilities: result.analyses.security.vulnerabilities,
         },
       },
       modernization: {
         category: "Modernization Readiness",
         score: result.scores.modernization,
-        maxScore: 20,
-        issues: result.analyses.modernization.issues,
+        maxScore: result.scores.maxScores.modernization,
+        issues: rankFindings(result.analyses.modernization.findings),
         recommendations: result.analyses.modernization.recommendations,
         details: {
           restApiStatus: result.analyses.modernization.restApiStatus,
@@ -85,11 +121,41 @@ export function generateJsonReport(result: AuditResult): string {
       },
     },
     topIssues: result.topIssues,
+    pageScores: {
+      pages: result.pageScores.map((page) => ({
+        path: page.path,
+        url: page.url,
+        scores: {
+          overall: page.scores.overall,
+          performance: page.scores.performance,
+          seo: page.scores.seo,
+          security: page.scores.security,
+          modernization: page.scores.modernization,
+          rating: page.scores.rating,
+        },
+        breakdown: page.scores.breakdown,
+        issues: rankFindings([
+          ...page.analyses.security.findings,
+          ...page.analyses.performance.findings,
+          ...page.analyses.seo.findings,
+        ]).map((finding) => finding.id),
+      })),
+      // Path of the lowest-scoring page per category (omitted when all equal)
+      worstPages: Object.fromEntries(
+        Object.entries(worstPages).map(([category, page]) => [
+          category,
+          page.path,
+        ])
+      ),
+    },
     rawData: {
+      redirectFailures: result.redirectFailures,
       pages: result.pages.map((page) => ({
         path: page.path,
         url: page.url,
         status: page.httpResult.status,
+        finalUrl: page.httpResult.finalUrl,
+        redirects: page.httpResult.redirects,
         seo: {
           title: page.seoResult.title,
           metaDescription: page.seoResult.metaDescription,
@@ -107,10 +173,11 @@ export function generateJsonReport(result: AuditResult): string {
         security: {
           isHttps: page.securityResult.isHttps,
           securityHeaders: page.securityResult.securityHeaders,
+          policyWeaknesses: page.securityResult.policyWeaknesses,
+          cookies: page.securityResult.cookies,
+          mixedContent: page.securityResult.mixedContent,
         },
       })),
     },
   };
-
-  return JSON.stringify(jsonOutput, null, 2);
 }
@@ -0,0 +1,234 @@
+/**
+ * JUnit Report Generator - Exports each category and check as a JUnit XML
+ * test case for CI test tabs
+ */
+
+import { rankFindings } from "../analyzers/findings.js";
+import { findWorstPages } from "../scoring/scorer.js";
+import type { AuditResult, CategoryScores } from "../types.js";
+
+interface CheckCase {
+  name: string;
+  value: string;
+  passed: boolean;
+}
+
+const CATEGORIES: Array<{ key: keyof CategoryScores; label: string }> = [
+  { key: "performance", label: "Performance" },
+  { key: "seo", label: "SEO Foundations" },
+  { key: "security", label: "WordPress Health & Security" },
+  { key: "modernization", label: "Modernization Readiness" },
+];
+
+export function generateJunitReport(result: AuditResult): string {
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  const suites = CATEGORIES.map(({ key, label }) => {
+    const maxScore = result.scores.maxScores[key];
+    const issues = rankFindings(result.analyses[key].findings).map(
+      (finding) => `[${finding.id}] ${finding.title}`
+    );
+    const checks = buildChecks(result, key);
+    const failures =
+      checks.filter((check) => !check.passed).length + (issues.length ? 1 : 0);
+    const tests = checks.length + 1;
+    totalTests += tests;
+    totalFailures += failures;
+
+    // The category case fails when the analyzer reported any issue
+    const categoryCase = `    <testcase classname="${key}" name="${escapeXml(
+      `${label} (${result.scores[key]}/${maxScore})`
+    )}">${
+      issues.length
+        ? `
+      <failure message="${escapeXml(
+        `${issues.length} issue(s) found`
+      )}" type="issues">${escapeXml(issues.join("\n"))}</failure>
+    `
+        : ""
+    }</testcase>`;
+
+    const checkCases = checks.map(
+      (check) =>
+        `    <testcase classname="${key}" name="${escapeXml(check.name)}">${
+          check.passed
+            ? ""
+            : `
+      <failure message="${escapeXml(
+        `${check.name}: ${check.value}`
+      )}" type="${escapeXml(check.value)}"/>
+    `
+        }</testcase>`
+    );
+
+    return `  <testsuite name="${escapeXml(
+      label
+    )}" tests="${tests}" failures="${failures}" errors="0" timestamp="${
+      result.timestamp
+    }">
+    <properties>
+      <property name="score" value="${result.scores[key]}"/>
+      <property name="maxScore" value="${maxScore}"/>${
+      key === "security" ? pluginProperties(result) : ""
+    }
+    </properties>
+${[categoryCase, ...checkCases].join("\n")}
+  </testsuite>`;
+  });
+
+  if (result.pageScores.length > 1) {
+    suites.push(buildPageSuite(result));
+    totalTests += result.pageScores.length;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${escapeXml(
+    `wp-modernization-audit: ${result.url}`
+  )}" tests="${totalTests}" failures="${totalFailures}" errors="0">
+${suites.join("\n")}
+</testsuites>
+`;
+}
+
+/**
+ * One informational test case per page with its scores; the weakest page in
+ * each category is called out in its output
+ */
+function buildPageSuite(result: AuditResult): string {
+  const worst = findWorstPages(result.pageScores);
+  const { maxScores } = result.scores;
+
+  const cases = result.pageScores.map((page) => {
+    const lines = CATEGORIES.map(
+      ({ key, label }) =>
+        `${label}: ${page.scores[key]}/${maxScores[key]}${
+          worst[key] === page ? " (weakest page)" : ""
+        }`
+    );
+    return `    <testcase classname="pages" name="${escapeXml(
+      `${page.path} (${page.scores.overall}/100)`
+    )}">
+      <system-out>${escapeXml(lines.join("\n"))}</system-out>
+    </testcase>`;
+  });
+
+  return `  <testsuite name="Pages" tests="${
+    cases.length
+  }" failures="0" errors="0" timestamp="${result.timestamp}">
+${cases.join("\n")}
+  </testsuite>`;
+}
+
+/**
+ * Detected plugin versions, listed with the security suite
+ */
+function pluginProperties(result: AuditResult): string {
+  return result.wpDetection.plugins
+    .map(
+      (plugin) => `
+      <property name="${escapeXml(`plugin:${plugin.slug}`)}" value="${escapeXml(
+        plugin.version ?? "unknown"
+      )}"/>`
+    )
+    .join("");
+}
+
+/**
+ * Pass/fail checks behind each category score
+ */
+function buildChecks(
+  result: AuditResult,
+  category: keyof CategoryScores
+): CheckCase[] {
+  const { performance, seo, security, modernization } = result.analyses;
+
+  switch (category) {
+    case "performance": {
+      const checks: CheckCase[] = [
+        check("HTML size", performance.htmlSizeCategory, "poor"),
+        check("Script load", performance.scriptLoadCategory, "heavy"),
+        check("Image optimization", performance.imageOptimization, "poor"),
+        check("Caching", performance.caching, "none"),
+      ];
+      const vitals = performance.coreWebVitals;
+      if (vitals) {
+        checks.push(
+          check("Largest Contentful Paint", vitals.lcpStatus, "poor"),
+          check("Cumulative Layout Shift", vitals.clsStatus, "poor"),
+          check("Interaction to Next Paint", vitals.inpStatus, "poor"),
+          check("Time to First Byte", vitals.ttfbStatus, "poor")
+        );
+      }
+      return checks;
+    }
+    case "seo":
+      return [
+        check("Title tags", seo.titleQuality, "missing"),
+        check("Meta descriptions", seo.metaDescriptionQuality, "missing"),
+        check("H1 headings", seo.h1Quality, "missing", "issues"),
+        flag("Canonical tags", seo.hasCanonical),
+        flag("robots.txt", seo.hasRobotsTxt),
+        flag("sitemap.xml", seo.hasSitemap),
+      ];
+    case "security":
+      return [
+        check("HTTPS", security.httpsStatus, "insecure", "mixed"),
+        check("Security headers", security.headersCoverage, "none", "partial"),
+        check("WordPress version exposure", security.versionExposure, "exposed"),
+        check("Username exposure", security.usernameExposure, "exposed"),
+        check("Mixed content", security.mixedContent, "active", "passive"),
+        check(
+          "Cookie attributes",
+          security.insecureCookies.length > 0 ? "insecure" : "secure",
+          "insecure"
+        ),
+        ...(result.site.sensitivePaths
+          ? [
+              check(
+                "Sensitive files and endpoints",
+                security.exposedPaths.length > 0 ? "exposed" : "hidden",
+                "exposed"
+              ),
+            ]
+          : []),
+        ...(security.vulnerabilityStatus === "unchecked"
+          ? []
+          : [
+              check(
+                "Known vulnerabilities",
+                security.vulnerabilityStatus,
+                "critical",
+                "high",
+                "medium",
+                "low"
+              ),
+            ]),
+      ];
+    case "modernization":
+      return [
+        check("REST API", modernization.restApiStatus, "none", "partial"),
+        check("Permalinks", modernization.permalinkModernity, "legacy", "mixed"),
+        check("CDN usage", modernization.cdnUsage, "no"),
+      ];
+  }
+}
+
+function check(name: string, value: string, ...failing: string[]): CheckCase {
+  return { name, value, passed: !failing.includes(value) };
+}
+
+function flag(name: string, present: boolean): CheckCase {
+  return { name, value: present ? "present" : "missing", passed: present };
+}
+
+function escapeXml(text: string): string {
+  const map: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&apos;",
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
@@ -2,10 +2,21 @@
  * Markdown Report Generator - Creates human-readable audit reports
  */
 
-import type { AuditResult } from "../types.js";
+import { rankFindings } from "../analyzers/findings.js";
+import { findWorstPages } from "../scoring/scorer.js";
+import type {
+  AuditResult,
+  CategoryScores,
+  DetectedPlugin,
+  Finding,
+  PerformanceComposition,
+} from "../types.js";
 
 export function generateMarkdownReport(result: AuditResult): string {
   const sections: string[] = [];
+  const multiPage = result.pages.length > 1;
+  const { scores } = result;
+  const { maxScores } = scores;
 
   // Header
   sections.push("# WordPress Modernization Audit Report\n");
@@ -13,7 +24,8 @@ export function generateMarkdownReport(result: AuditResult): string {
   sections.push(
     `**Generated:** ${new Date(result.timestamp).toLocaleString()}`
   );
-  sections.push(`**Pages Audited:** ${result.pages.length}\n`);
+  sections.push(`**Pages Audited:** ${result.pages.length}`);
+  sections.push(`**Scoring Profile:** ${scores.profile}\n`);
 
   // Executive Summary
   sections.push("---\n");
@@ -34,12 +46,21 @@ export function generateMarkdownReport(result: AuditResult): string {
       sections.push(` (Version: ${result.wpDetection.wpVersion})`);
     }
     if (result.wpDetection.themeName) {
-      sections.push(`\n**Theme:** ${result.wpDetection.themeName}`);
+      sections.push(
+        `\n**Theme:** ${result.wpDetection.themeName}${
+          result.wpDetection.themeVersion
+            ? ` ${result.wpDetection.themeVersion}`
+            : ""
+        }`
+      );
     }
     if (result.wpDetection.plugins.length > 0) {
       sections.push(
         `\n**Plugins detected:** ${result.wpDetection.plugins
           .slice(0, 5)
+          .map((plugin) =>
+            plugin.version ? `${plugin.slug} ${plugin.version}` : plugin.slug
+          )
           .join(", ")}${result.wpDetection.plugins.length > 5 ? "..." : ""}`
       );
     }
@@ -55,49 +76,55 @@ export function generateMarkdownReport(result: AuditResult): string {
   sections.push("| Category | Score | Status |");
   sections.push("|----------|-------|--------|");
   sections.push(
-    `| Performance | ${result.scores.performance}/30 | ${getScoreStatus(
-      result.scores.performance,
-      30
-    )} |`
+    `| Performance | ${scores.performance}/${
+      maxScores.performance
+    } | ${getScoreStatus(scores.performance, maxScores.performance)} |`
   );
   sections.push(
-    `| SEO Foundations | ${result.scores.seo}/25 | ${getScoreStatus(
-      result.scores.seo,
-      25
+    `| SEO Foundations | ${scores.seo}/${maxScores.seo} | ${getScoreStatus(
+      scores.seo,
+      maxScores.seo
     )} |`
   );
   sections.push(
-    `| WordPress Health & Security | ${
-      result.scores.security
-    }/25 | ${getScoreStatus(result.scores.security, 25)} |`
+    `| WordPress Health & Security | ${scores.security}/${
+      maxScores.security
+    } | ${getScoreStatus(scores.security, maxScores.security)} |`
   );
   sections.push(
-    `| Modernization Readiness | ${
-      result.scores.modernization
-    }/20 | ${getScoreStatus(result.scores.modernization, 20)} |`
+    `| Modernization Readiness | ${scores.modernization}/${
+      maxScores.modernization
+    } | ${getScoreStatus(scores.modernization, maxScores.modernization)} |`
   );
   sections.push("");
 
   // Top Issues
   if (result.topIssues.length > 0) {
     sections.push("### 🚨 Top Issues to Address\n");
-    result.topIssues.forEach((issue, idx) => {
-      sections.push(`${idx + 1}. ${issue}`);
+    result.topIssues.forEach((finding, idx) => {
+      sections.push(`${idx + 1}. ${formatFinding(finding)}`);
     });
     sections.push("");
   }
 
   // Performance Section
   sections.push("---\n");
-  sections.push(`## 1. Performance (${result.scores.performance}/30)\n`);
+  sections.push(
+    `## 1. Performance (${scores.performance}/${maxScores.performance})\n`
+  );
+  sections.push(
+    `**Score composition:** ${describeComposition(
+      scores.composition.performance
+    )}\n`
+  );
   sections.push(
     `**Assessment:** ${getPerformanceAssessment(result.analyses.performance)}\n`
   );
 
-  if (result.analyses.performance.issues.length > 0) {
+  if (result.analyses.performance.findings.length > 0) {
     sections.push("**Issues Found:**\n");
-    result.analyses.performance.issues.forEach((issue) => {
-      sections.push(`- ⚠️  ${issue}`);
+    rankFindings(result.analyses.performance.findings).forEach((finding) => {
+      sections.push(`- ⚠️  ${formatFinding(finding, multiPage)}`);
     });
     sections.push("");
   }
@@ -171,15 +198,17 @@ export function generateMarkdownReport(result: AuditResult): string {
     }
   }
 
+  sections.push(...formatBreakdown(result, "performance"));
+
   // SEO Section
   sections.push("---\n");
-  sections.push(`## 2. SEO Foundations (${result.scores.seo}/25)\n`);
+  sections.push(`## 2. SEO Foundations (${scores.seo}/${maxScores.seo})\n`);
   sections.push(`**Assessment:** ${getSeoAssessment(result.analyses.seo)}\n`);
 
-  if (result.analyses.seo.issues.length > 0) {
+  if (result.analyses.seo.findings.length > 0) {
     sections.push("**Issues Found:**\n");
-    result.analyses.seo.issues.forEach((issue) => {
-      sections.push(`- ⚠️  ${issue}`);
+    rankFindings(result.analyses.seo.findings).forEach((finding) => {
+      sections.push(`- ⚠️  ${formatFinding(finding, multiPage)}`);
     });
     sections.push("");
   }
@@ -192,19 +221,21 @@ export function generateMarkdownReport(result: AuditResult): string {
     sections.push("");
   }
 
+  sections.push(...formatBreakdown(result, "seo"));
+
   // Security Section
   sections.push("---\n");
   sections.push(
-    `## 3. WordPress Health & Security (${result.scores.security}/25)\n`
+    `## 3. WordPress Health & Security (${scores.security}/${maxScores.security})\n`
   );
   sections.push(
     `**Security Posture:** ${result.analyses.security.overallPosture.toUpperCase()}\n`
   );
 
-  if (result.analyses.security.issues.length > 0) {
+  if (result.analyses.security.findings.length > 0) {
     sections.push("**Issues Found:**\n");
-    result.analyses.security.issues.forEach((issue) => {
-      sections.push(`- 🔒 ${issue}`);
+    rankFindings(result.analyses.security.findings).forEach((finding) => {
+      sections.push(`- 🔒 ${formatFinding(finding, multiPage)}`);
     });
     sections.push("");
   }
@@ -217,19 +248,28 @@ export function generateMarkdownReport(result: AuditResult): string {
     sections.push("");
   }
 
+  sections.push(...formatPlugins(result));
+  sections.push(...formatVulnerabilities(result));
+  sections.push(...formatMixedContent(result));
+  const { usernames } = result.site.userEnumeration;
+  if (usernames && usernames.length > 0) {
+    sections.push(`**Enumerable usernames:** ${usernames.join(", ")}\n`);
+  }
+  sections.push(...formatBreakdown(result, "security"));
+
   // Modernization Section
   sections.push("---\n");
   sections.push(
-    `## 4. Modernization Readiness (${result.scores.modernization}/20)\n`
+    `## 4. Modernization Readiness (${scores.modernization}/${maxScores.modernization})\n`
   );
   sections.push(
     `**Headless Readiness:** ${result.analyses.modernization.headlessReadiness.toUpperCase()}\n`
   );
 
-  if (result.analyses.modernization.issues.length > 0) {
+  if (result.analyses.modernization.findings.length > 0) {
     sections.push("**Issues Found:**\n");
-    result.analyses.modernization.issues.forEach((issue) => {
-      sections.push(`- ⚠️  ${issue}`);
+    rankFindings(result.analyses.modernization.findings).forEach((finding) => {
+      sections.push(`- ⚠️  ${formatFinding(finding, multiPage)}`);
     });
     sections.push("");
   }
@@ -242,6 +282,13 @@ export function generateMarkdownReport(result: AuditResult): string {
     sections.push("");
   }
 
+  sections.push(...formatBreakdown(result, "modernization"));
+
+  // Page-by-page scores
+  if (result.pageScores.length > 1) {
+    sections.push(...formatPageScores(result));
+  }
+
   // Final Recommendations
   sections.push("---\n");
   sections.push("## Next Steps\n");
@@ -258,6 +305,100 @@ export function generateMarkdownReport(result: AuditResult): string {
 
 // Helper functions
 
+/**
+ * One-line finding: severity, title and rule ID, plus affected pages when
+ * more than one page was audited
+ */
+function formatFinding(finding: Finding, showPages = false): string {
+  const pages =
+    showPages && finding.pages.length > 0
+      ? ` — ${finding.pages.map((path) => `\`${path}\``).join(", ")}`
+      : "";
+  return `**[${finding.severity.toUpperCase()}]** ${finding.title} (\`${
+    finding.id
+  }\`)${pages}`;
+}
+
+const PLUGIN_SOURCES: Record<DetectedPlugin["method"], string> = {
+  readme: "readme.txt Stable tag",
+  "asset-query": "Asset ?ver= parameter",
+  path: "Asset path only",
+};
+
+/**
+ * Detected plugins with their version and how it was determined
+ */
+function formatPlugins(result: AuditResult): string[] {
+  const { plugins } = result.wpDetection;
+  if (plugins.length === 0) {
+    return [];
+  }
+
+  return [
+    "**Detected Plugins:**\n",
+    "| Plugin | Version | Source | Confidence |",
+    "|--------|---------|--------|------------|",
+    ...plugins.map(
+      (plugin) =>
+        `| ${plugin.slug} | ${plugin.version ?? "unknown"} | ${
+          PLUGIN_SOURCES[plugin.method]
+        } | ${plugin.confidence} |`
+    ),
+    "",
+  ];
+}
+
+/**
+ * Advisories matched against the detected versions. Nothing is shown when
+ * no advisory file was given.
+ */
+function formatVulnerabilities(result: AuditResult): string[] {
+  const { vulnerabilities, vulnerabilityStatus } = result.analyses.security;
+  if (vulnerabilityStatus === "unchecked") {
+    return [];
+  }
+  if (vulnerabilities.length === 0) {
+    return ["✅ No known vulnerabilities in the detected versions\n"];
+  }
+
+  return [
+    "**Known Vulnerabilities:**\n",
+    "| Advisory | Component | Installed | Fixed in | Severity |",
+    "|----------|-----------|-----------|----------|----------|",
+    ...vulnerabilities.map(
+      ({ advisory, component, installedVersion }) =>
+        `| ${advisory.id} | ${component} | ${installedVersion} | ${
+          advisory.fixedIn ?? "no fix"
+        } | ${advisory.severity} |`
+    ),
+    "",
+  ];
+}
+
+/**
+ * http:// resources loaded by each HTTPS page; nothing is shown without
+ * mixed content
+ */
+function formatMixedContent(result: AuditResult): string[] {
+  const rows = result.pages.flatMap((page) =>
+    page.securityResult.mixedContent.map(
+      ({ url, type, source }) =>
+        `| ${page.path} | ${type} | ${source} | ${url} |`
+    )
+  );
+  if (rows.length === 0) {
+    return [];
+  }
+
+  return [
+    "**Mixed Content:**\n",
+    "| Page | Type | Found in | Resource |",
+    "|------|------|----------|----------|",
+    ...rows,
+    "",
+  ];
+}
+
 function getRatingEmoji(rating: string): string {
   switch (rating) {
     case "healthy":
@@ -306,6 +447,93 @@ function getVitalStatus(status: "good" | "needs-improvement" | "poor"): string {
   }
 }
 
+/**
+ * Per-page score table; the worst page in each category is marked
+ */
+function formatPageScores(result: AuditResult): string[] {
+  const worst = findWorstPages(result.pageScores);
+  const { maxScores } = result.scores;
+  const categories: Array<[keyof CategoryScores, string]> = [
+    ["performance", "Performance"],
+    ["seo", "SEO"],
+    ["security", "Security"],
+    ["modernization", "Modernization"],
+  ];
+
+  const lines = [
+    "---\n",
+    "## Page-by-Page Scores\n",
+    "| Page | Overall | Performance | SEO | Security | Modernization |",
+    "|------|---------|-------------|-----|----------|---------------|",
+  ];
+  for (const page of result.pageScores) {
+    const cells = categories.map(([key]) => {
+      const cell = `${page.scores[key]}/${maxScores[key]}`;
+      return worst[key] === page ? `**${cell}** 🔻` : cell;
+    });
+    lines.push(
+      `| \`${page.path}\` | ${page.scores.overall}/100 | ${cells.join(" | ")} |`
+    );
+  }
+  lines.push("");
+
+  const weakest = categories.filter(([key]) => worst[key]);
+  if (weakest.length === 0) {
+    lines.push("All pages score the same in every category.\n");
+    return lines;
+  }
+
+  lines.push("**Weakest page per category:**\n");
+  for (const [key, label] of weakest) {
+    const page = worst[key]!;
+    lines.push(
+      `- ${label}: \`${page.path}\` (${page.scores[key]}/${maxScores[key]})`
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+/**
+ * "How this score was calculated" table for one category
+ */
+function formatBreakdown(
+  result: AuditResult,
+  category: keyof CategoryScores
+): string[] {
+  const items = result.scores.breakdown[category];
+  const points = items.reduce((sum, item) => sum + item.points, 0);
+  const maxPoints = items.reduce((sum, item) => sum + item.maxPoints, 0);
+  const score = result.scores[category];
+  const maxScore = result.scores.maxScores[category];
+
+  const lines = [
+    "**How this score was calculated:**\n",
+    "| Check | Input | Points |",
+    "|-------|-------|--------|",
+    ...items.map(
+      (item) =>
+        `| ${item.check} | \`${item.input}\` | ${item.points}/${item.maxPoints} |`
+    ),
+    `| **Total** | | **${points}/${maxPoints}** |`,
+    "",
+  ];
+  if (points !== score || maxPoints !== maxScore) {
+    lines.push(
+      `_Check points are scaled to the category weight: ${score}/${maxScore}._\n`
+    );
+  }
+  return lines;
+}
+
+function describeComposition(composition: PerformanceComposition): string {
+  const { pageChecks, coreWebVitals } = composition;
+  if (!coreWebVitals) {
+    return `page checks ${pageChecks.score}/${pageChecks.maxScore} (Core Web Vitals not measured; their share is redistributed to page checks)`;
+  }
+  return `page checks ${pageChecks.score}/${pageChecks.maxScore} + Core Web Vitals ${coreWebVitals.score}/${coreWebVitals.maxScore}`;
+}
+
 function getPerformanceAssessment(analysis: any): string {
   const assessments = [];
   if (
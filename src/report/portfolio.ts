@@ -0,0 +1,353 @@
+/**
+ * Portfolio Report Generator - Summarizes a batch of audits, ranking sites
+ * overall and per category
+ */
+
+import { stripCredentials } from "../collectors/httpCollector.js";
+import type {
+  AuditResult,
+  BatchSiteOutcome,
+  CategoryScores,
+  SummaryFormat,
+} from "../types.js";
+
+interface RankedSite {
+  rank: number;
+  name: string;
+  url: string;
+  result: AuditResult;
+  reportPath?: string;
+}
+
+const CATEGORIES: Array<{ key: keyof CategoryScores; label: string }> = [
+  { key: "performance", label: "Performance" },
+  { key: "seo", label: "SEO Foundations" },
+  { key: "security", label: "WordPress Health & Security" },
+  { key: "modernization", label: "Modernization Readiness" },
+];
+
+export function generatePortfolioReport(
+  outcomes: BatchSiteOutcome[],
+  format: SummaryFormat,
+  generatedAt: string = new Date().toISOString()
+): string {
+  switch (format) {
+    case "html":
+      return generatePortfolioHtml(outcomes, generatedAt);
+    case "json":
+      return generatePortfolioJson(outcomes, generatedAt);
+    case "md":
+    default:
+      return generatePortfolioMarkdown(outcomes, generatedAt);
+  }
+}
+
+/**
+ * Rank successful sites by a score, highest first. Ties share a rank.
+ */
+function rankSites(
+  outcomes: BatchSiteOutcome[],
+  score: (result: AuditResult) => number
+): RankedSite[] {
+  const sorted = outcomes
+    .filter((o): o is BatchSiteOutcome & { result: AuditResult } => !!o.result)
+    .sort((a, b) => score(b.result) - score(a.result));
+
+  const ranked: RankedSite[] = [];
+  sorted.forEach((outcome, idx) => {
+    const previous = ranked[idx - 1];
+    const rank =
+      previous && score(previous.result) === score(outcome.result)
+        ? previous.rank
+        : idx + 1;
+    ranked.push({
+      rank,
+      name: siteName(outcome),
+      url: siteUrl(outcome),
+      result: outcome.result,
+      reportPath: outcome.reportPath,
+    });
+  });
+
+  return ranked;
+}
+
+// Site URLs may carry user:password, which must not reach a report
+function siteUrl(outcome: BatchSiteOutcome): string {
+  return stripCredentials(outcome.site.url);
+}
+
+function siteName(outcome: BatchSiteOutcome): string {
+  if (outcome.site.name) return outcome.site.name;
+  try {
+    return new URL(outcome.site.url).hostname;
+  } catch {
+    return siteUrl(outcome);
+  }
+}
+
+function generatePortfolioMarkdown(
+  outcomes: BatchSiteOutcome[],
+  generatedAt: string
+): string {
+  const sections: string[] = [];
+  const failures = outcomes.filter((o) => !o.result);
+
+  sections.push("# WordPress Portfolio Audit Summary\n");
+  sections.push(`**Generated:** ${new Date(generatedAt).toLocaleString()}`);
+  sections.push(
+    `**Sites Audited:** ${outcomes.length - failures.length}/${outcomes.length}\n`
+  );
+
+  sections.push("---\n");
+  sections.push("## Overall Ranking\n");
+  sections.push(
+    "| Rank | Site | Overall | Rating | Performance | SEO | Security | Modernization | Report |"
+  );
+  sections.push(
+    "|------|------|---------|--------|-------------|-----|----------|---------------|--------|"
+  );
+  for (const site of rankSites(outcomes, (r) => r.scores.overall)) {
+    const { scores } = site.result;
+    sections.push(
+      `| ${site.rank} | [${site.name}](${site.url}) | ${scores.overall}/100 | ${
+        scores.rating
+      } | ${scores.performance} | ${scores.seo} | ${scores.security} | ${
+        scores.modernization
+      } | ${site.reportPath ? `[view](${site.reportPath})` : "–"} |`
+    );
+  }
+  sections.push("");
+
+  sections.push("## Rankings by Category\n");
+  for (const category of CATEGORIES) {
+    sections.push(`### ${category.label}\n`);
+    sections.push("| Rank | Site | Score |");
+    sections.push("|------|------|-------|");
+    for (const site of rankSites(outcomes, (r) => r.scores[category.key])) {
+      sections.push(
+        `| ${site.rank} | ${site.name} | ${site.result.scores[category.key]}/${
+          site.result.scores.maxScores[category.key]
+        } |`
+      );
+    }
+    sections.push("");
+  }
+
+  if (failures.length > 0) {
+    sections.push("## Failed Audits\n");
+    sections.push("| Site | Error |");
+    sections.push("|------|-------|");
+    for (const failure of failures) {
+      sections.push(`| ${siteUrl(failure)} | ${failure.error} |`);
+    }
+    sections.push("");
+  }
+
+  sections.push("---\n");
+  sections.push(
+    "*Generated by [wp-modernization-audit](https://github.com/salttechno/wp-modernization-audit)*"
+  );
+
+  return sections.join("\n");
+}
+
+function generatePortfolioJson(
+  outcomes: BatchSiteOutcome[],
+  generatedAt: string
+): string {
+  const failures = outcomes.filter((o) => !o.result);
+
+  const categoryRankings: Record<string, unknown[]> = {};
+  for (const category of CATEGORIES) {
+    categoryRankings[category.key] = rankSites(
+      outcomes,
+      (r) => r.scores[category.key]
+    ).map((site) => ({
+      rank: site.rank,
+      name: site.name,
+      url: site.url,
+      score: site.result.scores[category.key],
+      maxScore: site.result.scores.maxScores[category.key],
+    }));
+  }
+
+  const jsonOutput = {
+    meta: {
+      version: "0.4.0",
+      generatedAt,
+      sitesTotal: outcomes.length,
+      sitesSucceeded: outcomes.length - failures.length,
+      sitesFailed: failures.length,
+    },
+    ranking: rankSites(outcomes, (r) => r.scores.overall).map((site) => ({
+      rank: site.rank,
+      name: site.name,
+      url: site.url,
+      scores: site.result.scores,
+      reportPath: site.reportPath || null,
+    })),
+    categoryRankings,
+    failures: failures.map((failure) => ({
+      name: siteName(failure),
+      url: siteUrl(failure),
+      error: failure.error,
+    })),
+  };
+
+  return JSON.stringify(jsonOutput, null, 2);
+}
+
+function generatePortfolioHtml(
+  outcomes: BatchSiteOutcome[],
+  generatedAt: string
+): string {
+  const failures = outcomes.filter((o) => !o.result);
+
+  const overallRows = rankSites(outcomes, (r) => r.scores.overall)
+    .map((site) => {
+      const { scores } = site.result;
+      return `<tr>
+            <td>${site.rank}</td>
+            <td><a href="${escapeHtml(site.url)}">${escapeHtml(site.name)}</a></td>
+            <td><strong>${scores.overall}/100</strong></td>
+            <td>${escapeHtml(scores.rating.replace(/-/g, " "))}</td>
+            <td>${scores.performance}</td>
+            <td>${scores.seo}</td>
+            <td>${scores.security}</td>
+            <td>${scores.modernization}</td>
+            <td>${
+              site.reportPath
+                ? `<a href="${escapeHtml(site.reportPath)}">view</a>`
+                : "–"
+            }</td>
+          </tr>`;
+    })
+    .join("");
+
+  const categoryTables = CATEGORIES.map((category) => {
+    const rows = rankSites(outcomes, (r) => r.scores[category.key])
+      .map(
+        (site) =>
+          `<tr><td>${site.rank}</td><td>${escapeHtml(site.name)}</td><td>${
+            site.result.scores[category.key]
+          }/${site.result.scores.maxScores[category.key]}</td></tr>`
+      )
+      .join("");
+    return `
+      <div class="category">
+        <h3>${category.label}</h3>
+        <table>
+          <thead><tr><th>Rank</th><th>Site</th><th>Score</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>`;
+  }).join("");
+
+  const failureSection =
+    failures.length > 0
+      ? `
+    <div class="section">
+      <h2>Failed Audits</h2>
+      <table>
+        <thead><tr><th>Site</th><th>Error</th></tr></thead>
+        <tbody>${failures
+          .map(
+            (failure) =>
+              `<tr><td>${escapeHtml(siteUrl(failure))}</td><td>${escapeHtml(
+                failure.error || ""
+              )}</td></tr>`
+          )
+          .join("")}</tbody>
+      </table>
+    </div>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>WordPress Portfolio Audit Summary</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      background: #f5f7fa;
+      padding: 20px;
+    }
+    .container {
+      max-width: 1200px;
+      margin: 0 auto;
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 2px 20px rgba(0,0,0,0.1);
+      overflow: hidden;
+    }
+    header {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      padding: 40px;
+      text-align: center;
+    }
+    header h1 { font-size: 2.2em; margin-bottom: 10px; }
+    .section { padding: 40px; border-bottom: 1px solid #e5e7eb; }
+    .section h2 {
+      color: #1f2937;
+      margin-bottom: 20px;
+      border-left: 4px solid #667eea;
+      padding-left: 15px;
+    }
+    .category-grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
+      gap: 20px;
+    }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #f3f4f6; }
+    th { background: #f3f4f6; }
+    a { color: #667eea; }
+    footer { padding: 30px; text-align: center; background: #f9fafb; color: #6b7280; font-size: 0.9em; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <header>
+      <h1>📁 WordPress Portfolio Audit Summary</h1>
+      <div>${outcomes.length - failures.length}/${outcomes.length} sites audited</div>
+      <div>Generated: ${new Date(generatedAt).toLocaleString()}</div>
+    </header>
+    <div class="section">
+      <h2>Overall Ranking</h2>
+      <table>
+        <thead>
+          <tr><th>Rank</th><th>Site</th><th>Overall</th><th>Rating</th><th>Performance</th><th>SEO</th><th>Security</th><th>Modernization</th><th>Report</th></tr>
+        </thead>
+        <tbody>${overallRows}</tbody>
+      </table>
+    </div>
+    <div class="section">
+      <h2>Rankings by Category</h2>
+      <div class="category-grid">${categoryTables}
+      </div>
+    </div>${failureSection}
+    <footer>
+      <p>Generated by <a href="https://github.com/salttechno/wp-modernization-audit" target="_blank">wp-modernization-audit</a> v0.4.0</p>
+    </footer>
+  </div>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#039;",
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
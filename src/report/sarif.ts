@@ -0,0 +1,134 @@
+/**
+ * SARIF Report Generator - Exports analyzer issues as SARIF 2.1.0 results
+ * for code-scanning dashboards
+ */
+
+import { rankFindings } from "../analyzers/findings.js";
+import type {
+  AuditResult,
+  CategoryScores,
+  Finding,
+  FindingSeverity,
+} from "../types.js";
+
+type SarifLevel = "error" | "warning" | "note";
+
+const SEVERITY_LEVELS: Record<FindingSeverity, SarifLevel> = {
+  critical: "error",
+  high: "error",
+  medium: "warning",
+  low: "note",
+};
+
+const CATEGORY_LABELS: Record<keyof CategoryScores, string> = {
+  performance: "Performance",
+  seo: "SEO Foundations",
+  security: "WordPress Health & Security",
+  modernization: "Modernization Readiness",
+};
+
+interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { category: string; severity: FindingSeverity; tags: string[] };
+}
+
+export function generateSarifReport(result: AuditResult): string {
+  const rules: SarifRule[] = [];
+  const results: object[] = [];
+
+  const findings = rankFindings(
+    (Object.keys(CATEGORY_LABELS) as Array<keyof CategoryScores>).flatMap(
+      (category) => result.analyses[category].findings
+    )
+  );
+
+  for (const finding of findings) {
+    const level = SEVERITY_LEVELS[finding.severity];
+    let ruleIndex = rules.findIndex((rule) => rule.id === finding.id);
+    if (ruleIndex === -1) {
+      ruleIndex =
+        rules.push({
+          id: finding.id,
+          shortDescription: { text: finding.title },
+          defaultConfiguration: { level },
+          properties: {
+            category: CATEGORY_LABELS[finding.category],
+            severity: finding.severity,
+            tags: [finding.category],
+          },
+        }) - 1;
+    }
+
+    results.push({
+      ruleId: finding.id,
+      ruleIndex,
+      level,
+      message: {
+        text: finding.evidence
+          ? `${finding.title} (${finding.evidence})`
+          : finding.title,
+      },
+      locations: findingLocations(result, finding).map((uri) => ({
+        physicalLocation: { artifactLocation: { uri } },
+      })),
+      properties: { recommendation: finding.recommendation },
+    });
+  }
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "wp-modernization-audit",
+            version: "0.4.0",
+            informationUri:
+              "https://github.com/salttechno/wp-modernization-audit",
+            rules,
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            endTimeUtc: result.timestamp,
+          },
+        ],
+        results,
+        properties: {
+          url: result.url,
+          scores: result.scores,
+          wordpress: {
+            version: result.wpDetection.wpVersion ?? null,
+            theme: result.wpDetection.themeName ?? null,
+            plugins: result.wpDetection.plugins,
+          },
+          pageScores: result.pageScores.map((page) => ({
+            url: page.url,
+            overall: page.scores.overall,
+            performance: page.scores.performance,
+            seo: page.scores.seo,
+            security: page.scores.security,
+            modernization: page.scores.modernization,
+          })),
+        },
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * URLs of the pages a finding affects; site-wide findings point at the
+ * site URL
+ */
+function findingLocations(result: AuditResult, finding: Finding): string[] {
+  const urls = finding.pages
+    .map((path) => result.pages.find((page) => page.path === path)?.url)
+    .filter((url): url is string => !!url);
+  return urls.length > 0 ? urls : [result.url];
+}
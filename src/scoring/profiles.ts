@@ -0,0 +1,177 @@
+/**
+ * Scoring Profiles - Built-in category weights, check points and rating
+ * bands, plus resolution of user-defined profiles from the config file
+ */
+
+import type {
+  CategoryScores,
+  ProfileDefinition,
+  ScoringProfile,
+} from "../types.js";
+
+// Matches SCORING_RULES.md; every other profile starts from these points
+export const DEFAULT_PROFILE: ScoringProfile = {
+  name: "default",
+  description: "Balanced weighting for general WordPress audits",
+  weights: { performance: 30, seo: 25, security: 25, modernization: 20 },
+  vitalsShare: 30,
+  points: {
+    performance: {
+      htmlSize: { excellent: 6, good: 4, fair: 2, poor: 0 },
+      scriptLoad: { excellent: 8, good: 5, heavy: 1 },
+      imageOptimization: { excellent: 6, good: 3, poor: 0 },
+      caching: { excellent: 6, partial: 3, none: 0 },
+      stylesheets: 4,
+      // Scored as a separate sub-score when PageSpeed data exists
+      coreWebVitals: {
+        lcp: { good: 3, "needs-improvement": 1, poor: 0 },
+        cls: { good: 3, "needs-improvement": 1, poor: 0 },
+        inp: { good: 3, "needs-improvement": 1, poor: 0 },
+        ttfb: { good: 2, "needs-improvement": 1, poor: 0 },
+      },
+    },
+    seo: {
+      title: { excellent: 6, good: 4, missing: 0 },
+      metaDescription: { excellent: 6, good: 4, missing: 0 },
+      h1: { excellent: 5, issues: 2, missing: 0 },
+      canonical: 4,
+      robotsAndSitemap: { both: 4, one: 2, none: 0 },
+    },
+    security: {
+      https: { secure: 5, mixed: 2, insecure: 0 },
+      headers: { excellent: 6, partial: 3, none: 0 },
+      versionHidden: 3,
+      usernames: { hidden: 2, exposed: 0 },
+      updatePosture: {
+        unchecked: 5,
+        none: 5,
+        low: 4,
+        medium: 2,
+        high: 1,
+        critical: 0,
+      },
+      sensitiveFiles: {
+        unchecked: 4,
+        none: 4,
+        low: 3,
+        medium: 2,
+        high: 1,
+        critical: 0,
+      },
+    },
+    modernization: {
+      restApi: { full: 6, partial: 3, none: 0 },
+      contentEndpoints: { full: 5, partial: 2, none: 0 },
+      permalinks: { modern: 5, mixed: 2, legacy: 0 },
+      cdn: { yes: 4, partial: 2, no: 0 },
+    },
+  },
+  ratingBands: { healthy: 80, needsOptimization: 60, needsModernization: 40 },
+};
+
+export const BUILTIN_PROFILES: Record<string, ScoringProfile> = {
+  default: DEFAULT_PROFILE,
+  ecommerce: {
+    ...DEFAULT_PROFILE,
+    name: "ecommerce",
+    description: "Stores where page speed and trust drive conversions",
+    weights: { performance: 40, seo: 25, security: 25, modernization: 10 },
+  },
+  headless: {
+    ...DEFAULT_PROFILE,
+    name: "headless",
+    description: "Sites being prepared for a headless or decoupled front end",
+    weights: { performance: 20, seo: 15, security: 25, modernization: 40 },
+  },
+};
+
+/**
+ * Resolve a profile by name. User-defined profiles are layered over the
+ * profile they extend (default: "default"). Throws for unknown names,
+ * circular extends and invalid weights or bands.
+ */
+export function resolveProfile(
+  name: string,
+  customProfiles: Record<string, ProfileDefinition> = {},
+  seen: string[] = []
+): ScoringProfile {
+  if (seen.includes(name)) {
+    throw new Error(
+      `Scoring profile "${name}" extends itself (${[...seen, name].join(
+        " -> "
+      )})`
+    );
+  }
+
+  const definition = customProfiles[name];
+  if (!definition) {
+    const builtin = BUILTIN_PROFILES[name];
+    if (!builtin) {
+      const available = [
+        ...Object.keys(BUILTIN_PROFILES),
+        ...Object.keys(customProfiles),
+      ];
+      throw new Error(
+        `Unknown scoring profile "${name}". Available: ${available.join(", ")}`
+      );
+    }
+    return builtin;
+  }
+
+  const base = resolveProfile(definition.extends ?? "default", customProfiles, [
+    ...seen,
+    name,
+  ]);
+  const profile: ScoringProfile = {
+    name,
+    description: definition.description ?? base.description,
+    weights: { ...base.weights, ...definition.weights },
+    vitalsShare: definition.vitalsShare ?? base.vitalsShare,
+    points: mergeDeep(base.points, definition.points ?? {}),
+    ratingBands: { ...base.ratingBands, ...definition.ratingBands },
+  };
+  validateProfile(profile);
+  return profile;
+}
+
+function validateProfile(profile: ScoringProfile): void {
+  const total = (Object.keys(profile.weights) as Array<keyof CategoryScores>)
+    .map((key) => profile.weights[key])
+    .reduce((sum, weight) => sum + weight, 0);
+  if (total !== 100) {
+    throw new Error(
+      `Scoring profile "${profile.name}": weights must add up to 100 (got ${total})`
+    );
+  }
+
+  if (profile.vitalsShare < 0 || profile.vitalsShare > 100) {
+    throw new Error(
+      `Scoring profile "${profile.name}": vitalsShare must be between 0 and 100 (got ${profile.vitalsShare})`
+    );
+  }
+
+  const { healthy, needsOptimization, needsModernization } =
+    profile.ratingBands;
+  if (!(healthy > needsOptimization && needsOptimization > needsModernization)) {
+    throw new Error(
+      `Scoring profile "${profile.name}": rating bands must be in descending order (healthy > needsOptimization > needsModernization)`
+    );
+  }
+}
+
+function mergeDeep<T>(base: T, override: unknown): T {
+  if (
+    typeof base !== "object" ||
+    base === null ||
+    typeof override !== "object" ||
+    override === null
+  ) {
+    return (override ?? base) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...(base as object) };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeDeep((base as Record<string, unknown>)[key], value);
+  }
+  return merged as T;
+}
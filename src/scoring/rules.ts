@@ -1,272 +1,239 @@
 /**
- * Scoring Rules - Declarative configuration for scoring logic
+ * Scoring Rules - Applies a scoring profile's points to analysis results
  * Based on SCORING_RULES.md
  */
 
+import { DEFAULT_PROFILE } from "./profiles.js";
 import type {
   PerformanceAnalysis,
   SeoAnalysis,
   SecurityAnalysis,
   ModernizationAnalysis,
+  CategoryScoreResult,
+  PerformanceComposition,
+  RatingBands,
+  ScoreLineItem,
+  ScoringProfile,
 } from "../types.js";
 
 // ============================================================================
-// Performance Scoring (30 points total)
+// Performance Scoring (default: 30 points total)
 // ============================================================================
 
-export function scorePerformance(analysis: PerformanceAnalysis): number {
-  let score = 0;
-
-  // HTML size (0-6 pts)
-  switch (analysis.htmlSizeCategory) {
-    case "excellent":
-      score += 6;
-      break;
-    case "good":
-      score += 4;
-      break;
-    case "fair":
-      score += 2;
-      break;
-    case "poor":
-      score += 0;
-      break;
-  }
-
-  // Script load (0-8 pts)
-  switch (analysis.scriptLoadCategory) {
-    case "excellent":
-      score += 8;
-      break;
-    case "good":
-      score += 5;
-      break;
-    case "heavy":
-      score += 1;
-      break;
-  }
-
-  // Image optimization (0-6 pts)
-  switch (analysis.imageOptimization) {
-    case "excellent":
-      score += 6;
-      break;
-    case "good":
-      score += 3;
-      break;
-    case "poor":
-      score += 0;
-      break;
-  }
-
-  // Caching (0-6 pts)
-  switch (analysis.caching) {
-    case "excellent":
-      score += 6;
-      break;
-    case "partial":
-      score += 3;
-      break;
-    case "none":
-      score += 0;
-      break;
-  }
-
-  // CSS/Stylesheets (0-4 pts) - inferred from overall performance
-  // For MVP, we'll give a baseline score
-  score += 4;
-
-  // Core Web Vitals Bonus (v0.4.0) - Up to +11 bonus points if PageSpeed data available
-  // This doesn't penalize sites without API, but rewards those with good vitals
-  if (analysis.coreWebVitals) {
-    const vitals = analysis.coreWebVitals;
-
-    // LCP bonus (0-3 pts)
-    if (vitals.lcpStatus === "good") {
-      score += 3;
-    } else if (vitals.lcpStatus === "needs-improvement") {
-      score += 1;
-    }
-
-    // CLS bonus (0-3 pts)
-    if (vitals.clsStatus === "good") {
-      score += 3;
-    } else if (vitals.clsStatus === "needs-improvement") {
-      score += 1;
-    }
-
-    // INP bonus (0-3 pts)
-    if (vitals.inpStatus === "good") {
-      score += 3;
-    } else if (vitals.inpStatus === "needs-improvement") {
-      score += 1;
-    }
-
-    // TTFB bonus (0-2 pts)
-    if (vitals.ttfbStatus === "good") {
-      score += 2;
-    } else if (vitals.ttfbStatus === "needs-improvement") {
-      score += 1;
-    }
+/**
+ * Page checks and Core Web Vitals are scored separately. Without PageSpeed
+ * data the vitals share of the weight is redistributed to the page checks,
+ * so the category maximum is always the profile weight.
+ */
+export function scorePerformance(
+  analysis: PerformanceAnalysis,
+  profile: ScoringProfile = DEFAULT_PROFILE
+): CategoryScoreResult & { composition: PerformanceComposition } {
+  const points = profile.points.performance;
+  const weight = profile.weights.performance;
+
+  const pageItems: ScoreLineItem[] = [
+    lookup(
+      "HTML size",
+      "htmlSizeCategory",
+      analysis.htmlSizeCategory,
+      points.htmlSize
+    ),
+    lookup(
+      "Script load",
+      "scriptLoadCategory",
+      analysis.scriptLoadCategory,
+      points.scriptLoad
+    ),
+    lookup(
+      "Image optimization",
+      "imageOptimization",
+      analysis.imageOptimization,
+      points.imageOptimization
+    ),
+    lookup("Caching", "caching", analysis.caching, points.caching),
+    // CSS/Stylesheets - inferred from overall performance; baseline for MVP
+    baseline("Stylesheets", points.stylesheets),
+  ];
+
+  const vitals = analysis.coreWebVitals;
+  if (!vitals) {
+    const score = scaleItems(pageItems, weight);
+    return {
+      score,
+      breakdown: pageItems,
+      composition: {
+        pageChecks: { score, maxScore: weight },
+        coreWebVitals: null,
+      },
+    };
   }
 
-  // Max score is 30 (baseline) + 11 (web vitals bonus) = 41
-  // But we cap at reasonable performance score
-  return Math.min(score, 41);
+  const vitalsPoints = points.coreWebVitals;
+  const vitalsItems: ScoreLineItem[] = [
+    lookup(
+      "Largest Contentful Paint",
+      "lcpStatus",
+      vitals.lcpStatus,
+      vitalsPoints.lcp
+    ),
+    lookup(
+      "Cumulative Layout Shift",
+      "clsStatus",
+      vitals.clsStatus,
+      vitalsPoints.cls
+    ),
+    lookup(
+      "Interaction to Next Paint",
+      "inpStatus",
+      vitals.inpStatus,
+      vitalsPoints.inp
+    ),
+    lookup(
+      "Time to First Byte",
+      "ttfbStatus",
+      vitals.ttfbStatus,
+      vitalsPoints.ttfb
+    ),
+  ];
+
+  const vitalsWeight = Math.round((weight * profile.vitalsShare) / 100);
+  const pageWeight = weight - vitalsWeight;
+  const pageScore = scaleItems(pageItems, pageWeight);
+  const vitalsScore = scaleItems(vitalsItems, vitalsWeight);
+
+  return {
+    score: pageScore + vitalsScore,
+    breakdown: [...pageItems, ...vitalsItems],
+    composition: {
+      pageChecks: { score: pageScore, maxScore: pageWeight },
+      coreWebVitals: { score: vitalsScore, maxScore: vitalsWeight },
+    },
+  };
 }
 
 // ============================================================================
-// SEO Scoring (25 points total)
+// SEO Scoring (default: 25 points total)
 // ============================================================================
 
-export function scoreSeo(analysis: SeoAnalysis): number {
-  let score = 0;
-
-  // Title tags (0-6 pts)
-  switch (analysis.titleQuality) {
-    case "excellent":
-      score += 6;
-      break;
-    case "good":
-      score += 4;
-      break;
-    case "missing":
-      score += 0;
-      break;
-  }
-
-  // Meta descriptions (0-6 pts)
-  switch (analysis.metaDescriptionQuality) {
-    case "excellent":
-      score += 6;
-      break;
-    case "good":
-      score += 4;
-      break;
-    case "missing":
-      score += 0;
-      break;
-  }
-
-  // H1 usage (0-5 pts)
-  switch (analysis.h1Quality) {
-    case "excellent":
-      score += 5;
-      break;
-    case "issues":
-      score += 2;
-      break;
-    case "missing":
-      score += 0;
-      break;
-  }
-
-  // Canonical tags (0-4 pts)
-  if (analysis.hasCanonical) {
-    score += 4;
-  }
-
-  // Robots & Sitemap (0-4 pts)
-  if (analysis.hasRobotsTxt && analysis.hasSitemap) {
-    score += 4;
-  } else if (analysis.hasRobotsTxt || analysis.hasSitemap) {
-    score += 2;
-  }
-
-  return Math.min(score, 25);
+export function scoreSeo(
+  analysis: SeoAnalysis,
+  profile: ScoringProfile = DEFAULT_PROFILE
+): CategoryScoreResult {
+  const points = profile.points.seo;
+
+  const robotsAndSitemap =
+    analysis.hasRobotsTxt && analysis.hasSitemap
+      ? "both"
+      : analysis.hasRobotsTxt || analysis.hasSitemap
+      ? "one"
+      : "none";
+
+  const breakdown: ScoreLineItem[] = [
+    lookup("Title tags", "titleQuality", analysis.titleQuality, points.title),
+    lookup(
+      "Meta descriptions",
+      "metaDescriptionQuality",
+      analysis.metaDescriptionQuality,
+      points.metaDescription
+    ),
+    lookup("H1 headings", "h1Quality", analysis.h1Quality, points.h1),
+    flag(
+      "Canonical tags",
+      "hasCanonical",
+      analysis.hasCanonical,
+      points.canonical
+    ),
+    {
+      check: "robots.txt and sitemap.xml",
+      input: `hasRobotsTxt: ${analysis.hasRobotsTxt}, hasSitemap: ${analysis.hasSitemap}`,
+      points: points.robotsAndSitemap[robotsAndSitemap],
+      maxPoints: max(points.robotsAndSitemap),
+    },
+  ];
+
+  return { score: scaleItems(breakdown, profile.weights.seo), breakdown };
 }
 
 // ============================================================================
-// Security Scoring (25 points total)
+// Security Scoring (default: 25 points total)
 // ============================================================================
 
-export function scoreSecurity(analysis: SecurityAnalysis): number {
-  let score = 0;
-
-  // HTTPS usage (0-5 pts)
-  if (analysis.httpsStatus === "secure") {
-    score += 5;
-  }
-
-  // Security headers (0-10 pts)
-  switch (analysis.headersCoverage) {
-    case "excellent":
-      score += 10;
-      break;
-    case "partial":
-      score += 5;
-      break;
-    case "none":
-      score += 0;
-      break;
-  }
-
-  // Exposed WP version (0-5 pts)
-  if (analysis.versionExposure === "hidden") {
-    score += 5;
-  }
-
-  // Update posture (0-5 pts) - for MVP, give baseline score
-  // In future versions, this could check actual WP version against known latest
-  score += 5;
-
-  return Math.min(score, 25);
+export function scoreSecurity(
+  analysis: SecurityAnalysis,
+  profile: ScoringProfile = DEFAULT_PROFILE
+): CategoryScoreResult {
+  const points = profile.points.security;
+
+  const breakdown: ScoreLineItem[] = [
+    lookup("HTTPS", "httpsStatus", analysis.httpsStatus, points.https),
+    lookup(
+      "Security headers",
+      "headersCoverage",
+      analysis.headersCoverage,
+      points.headers
+    ),
+    {
+      check: "WordPress version exposure",
+      input: `versionExposure: ${analysis.versionExposure}`,
+      points: analysis.versionExposure === "hidden" ? points.versionHidden : 0,
+      maxPoints: points.versionHidden,
+    },
+    lookup(
+      "Username exposure",
+      "usernameExposure",
+      analysis.usernameExposure,
+      points.usernames
+    ),
+    lookup(
+      "Update posture",
+      "vulnerabilityStatus",
+      analysis.vulnerabilityStatus,
+      points.updatePosture
+    ),
+    lookup(
+      "Sensitive files",
+      "fileExposure",
+      analysis.fileExposure,
+      points.sensitiveFiles
+    ),
+  ];
+
+  return { score: scaleItems(breakdown, profile.weights.security), breakdown };
 }
 
 // ============================================================================
-// Modernization Scoring (20 points total)
+// Modernization Scoring (default: 20 points total)
 // ============================================================================
 
-export function scoreModernization(analysis: ModernizationAnalysis): number {
-  let score = 0;
-
-  // REST API availability (0-6 pts)
-  switch (analysis.restApiStatus) {
-    case "full":
-      score += 6;
-      break;
-    case "partial":
-      score += 3;
-      break;
-    case "none":
-      score += 0;
-      break;
-  }
-
-  // Content endpoints (0-5 pts) - covered by restApiStatus
-  if (analysis.restApiStatus === "full") {
-    score += 5;
-  } else if (analysis.restApiStatus === "partial") {
-    score += 2;
-  }
-
-  // URL structure (0-5 pts)
-  switch (analysis.permalinkModernity) {
-    case "modern":
-      score += 5;
-      break;
-    case "mixed":
-      score += 2;
-      break;
-    case "legacy":
-      score += 0;
-      break;
-  }
-
-  // CDN usage (0-4 pts)
-  switch (analysis.cdnUsage) {
-    case "yes":
-      score += 4;
-      break;
-    case "partial":
-      score += 2;
-      break;
-    case "no":
-      score += 0;
-      break;
-  }
-
-  return Math.min(score, 20);
+export function scoreModernization(
+  analysis: ModernizationAnalysis,
+  profile: ScoringProfile = DEFAULT_PROFILE
+): CategoryScoreResult {
+  const points = profile.points.modernization;
+
+  const breakdown: ScoreLineItem[] = [
+    lookup("REST API", "restApiStatus", analysis.restApiStatus, points.restApi),
+    // Content endpoints - covered by restApiStatus
+    lookup(
+      "Content endpoints",
+      "restApiStatus",
+      analysis.restApiStatus,
+      points.contentEndpoints
+    ),
+    lookup(
+      "Permalinks",
+      "permalinkModernity",
+      analysis.permalinkModernity,
+      points.permalinks
+    ),
+    lookup("CDN usage", "cdnUsage", analysis.cdnUsage, points.cdn),
+  ];
+
+  return {
+    score: scaleItems(breakdown, profile.weights.modernization),
+    breakdown,
+  };
 }
 
 // ============================================================================
@@ -274,10 +241,65 @@ export function scoreModernization(analysis: ModernizationAnalysis): number {
 // ============================================================================
 
 export function getRating(
-  overallScore: number
+  overallScore: number,
+  bands: RatingBands = DEFAULT_PROFILE.ratingBands
 ): "healthy" | "needs-optimization" | "needs-modernization" | "legacy" {
-  if (overallScore >= 80) return "healthy";
-  if (overallScore >= 60) return "needs-optimization";
-  if (overallScore >= 40) return "needs-modernization";
+  if (overallScore >= bands.healthy) return "healthy";
+  if (overallScore >= bands.needsOptimization) return "needs-optimization";
+  if (overallScore >= bands.needsModernization) return "needs-modernization";
   return "legacy";
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function max(table: Record<string, number>): number {
+  return Math.max(...Object.values(table));
+}
+
+// A check whose points come from a table keyed by an analysis value
+function lookup<K extends string>(
+  check: string,
+  field: string,
+  value: K,
+  table: Record<K, number>
+): ScoreLineItem {
+  return {
+    check,
+    input: `${field}: ${value}`,
+    points: table[value],
+    maxPoints: max(table),
+  };
+}
+
+function flag(
+  check: string,
+  field: string,
+  value: boolean,
+  points: number
+): ScoreLineItem {
+  return {
+    check,
+    input: `${field}: ${value}`,
+    points: value ? points : 0,
+    maxPoints: points,
+  };
+}
+
+// A check that is not measured yet and always earns its points
+function baseline(check: string, points: number): ScoreLineItem {
+  return { check, input: "baseline", points, maxPoints: points };
+}
+
+/**
+ * Convert the points of a set of checks to the category weight. With the
+ * default profile the two are equal and points pass through unchanged
+ * (except for performance when Core Web Vitals are measured).
+ */
+function scaleItems(items: ScoreLineItem[], weight: number): number {
+  const score = items.reduce((sum, item) => sum + item.points, 0);
+  const maxScore = items.reduce((sum, item) => sum + item.maxPoints, 0);
+  if (maxScore <= 0) return 0;
+  return Math.min(Math.round((score / maxScore) * weight), weight);
+}
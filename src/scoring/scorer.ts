@@ -9,11 +9,15 @@ import {
   scoreModernization,
   getRating,
 } from "./rules.js";
+import { DEFAULT_PROFILE } from "./profiles.js";
 import type {
   PerformanceAnalysis,
   SeoAnalysis,
   SecurityAnalysis,
   ModernizationAnalysis,
+  CategoryScores,
+  PageScore,
+  ScoringProfile,
   ScoringResult,
 } from "../types.js";
 
@@ -21,22 +25,58 @@ export function calculateScores(
   performanceAnalysis: PerformanceAnalysis,
   seoAnalysis: SeoAnalysis,
   securityAnalysis: SecurityAnalysis,
-  modernizationAnalysis: ModernizationAnalysis
+  modernizationAnalysis: ModernizationAnalysis,
+  profile: ScoringProfile = DEFAULT_PROFILE
 ): ScoringResult {
-  const performance = scorePerformance(performanceAnalysis);
-  const seo = scoreSeo(seoAnalysis);
-  const security = scoreSecurity(securityAnalysis);
-  const modernization = scoreModernization(modernizationAnalysis);
+  const performance = scorePerformance(performanceAnalysis, profile);
+  const seo = scoreSeo(seoAnalysis, profile);
+  const security = scoreSecurity(securityAnalysis, profile);
+  const modernization = scoreModernization(modernizationAnalysis, profile);
 
-  const overall = performance + seo + security + modernization;
-  const rating = getRating(overall);
+  const overall =
+    performance.score + seo.score + security.score + modernization.score;
+  const rating = getRating(overall, profile.ratingBands);
 
   return {
-    performance,
-    seo,
-    security,
-    modernization,
+    performance: performance.score,
+    seo: seo.score,
+    security: security.score,
+    modernization: modernization.score,
     overall,
     rating,
+    profile: profile.name,
+    maxScores: { ...profile.weights },
+    composition: { performance: performance.composition },
+    breakdown: {
+      performance: performance.breakdown,
+      seo: seo.breakdown,
+      security: security.breakdown,
+      modernization: modernization.breakdown,
+    },
   };
 }
+
+/**
+ * The lowest-scoring page in each category (ties go to the earlier page).
+ * Categories where every page scores the same are left out.
+ */
+export function findWorstPages(
+  pageScores: PageScore[]
+): Partial<Record<keyof CategoryScores, PageScore>> {
+  const worst: Partial<Record<keyof CategoryScores, PageScore>> = {};
+  const categories: Array<keyof CategoryScores> = [
+    "performance",
+    "seo",
+    "security",
+    "modernization",
+  ];
+
+  for (const category of categories) {
+    const scores = pageScores.map((page) => page.scores[category]);
+    const lowest = Math.min(...scores);
+    if (lowest < Math.max(...scores)) {
+      worst[category] = pageScores[scores.indexOf(lowest)];
+    }
+  }
+  return worst;
+}
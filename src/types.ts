@@ -6,17 +6,132 @@
 // Configuration Types
 // ============================================================================
 
+export type ReportFormat = "md" | "html" | "json" | "sarif" | "junit";
+
+// Formats for documents that summarize several audits (portfolio, diff)
+export type SummaryFormat = "md" | "html" | "json";
+
 export interface AuditConfig {
   url: string;
   pages: string[];
   apiUrl?: string;
-  format: "md" | "html" | "json";
-  outPath: string;
-  verbose: boolean;
+  format?: ReportFormat; // Used by the CLI when writing the report
+  outPath?: string; // Used by the CLI when writing the report
+  verbose?: boolean;
   autoPages?: boolean;
   maxPages?: number;
   psApiKey?: string; // v0.4.0: PageSpeed Insights API key
   psStrategy?: "mobile" | "desktop" | "both"; // v0.4.0: PageSpeed strategy
+  concurrency?: number; // Pages fetched and collected in parallel (default: 1)
+  hostConcurrency?: number; // Max in-flight requests per host (default: 2)
+  requestDelayMs?: number; // Min delay between requests to one host (default: 0)
+  scoringProfile?: string | ScoringProfile; // Built-in name or resolved profile (default: "default")
+  request?: RequestOptions; // Credentials and headers for protected or staging sites
+  probePluginReadmes?: boolean; // Request each plugin's readme.txt for its version
+  probeSensitivePaths?: boolean; // Request well-known files that should not be public
+  reportUsernames?: boolean; // Include enumerable usernames in the result
+  advisories?: Advisory[]; // Known vulnerabilities to match detected versions against
+  record?: string; // Directory to record every response to
+  replay?: string; // Directory to replay recorded responses from instead of the network
+}
+
+// Credentials and headers sent with requests to the audited site
+export interface RequestOptions {
+  userAgent?: string; // Sent to every host
+  headers?: Record<string, string>; // Sent to the audited host only
+  auth?: { username: string; password: string }; // HTTP basic auth, audited host only
+  cookies?: Cookie[]; // Sent wherever the cookie's domain and path match
+}
+
+// A cookie loaded from a Netscape-format cookie jar file
+export interface Cookie {
+  domain: string; // Without a leading dot
+  includeSubdomains: boolean;
+  path: string;
+  secure: boolean;
+  expires: number; // Unix seconds; 0 for session cookies
+  name: string;
+  value: string;
+}
+
+// What was sent with requests, safe to publish (no secret values)
+export interface RequestSummary {
+  userAgent?: string;
+  authenticated: boolean; // Basic auth was used
+  headers: string[]; // Custom header names
+  cookies: number; // Cookies loaded from the jar
+}
+
+// Contents of wpaudit.config.json (every key optional; CLI flags win)
+export interface FileConfig {
+  $schema?: string;
+  url?: string;
+  pages?: string[];
+  apiUrl?: string;
+  format?: ReportFormat;
+  out?: string;
+  autoPages?: boolean;
+  maxPages?: number;
+  concurrency?: number;
+  hostConcurrency?: number;
+  requestDelay?: number; // milliseconds
+  verbose?: boolean;
+  pageSpeed?: {
+    apiKey?: string;
+    strategy?: "mobile" | "desktop" | "both";
+  };
+  thresholds?: Thresholds;
+  profile?: string; // Scoring profile to use (built-in or from "profiles")
+  profiles?: Record<string, ProfileDefinition>;
+  auth?: string; // "user:password" for HTTP basic auth
+  headers?: Record<string, string>;
+  cookieJar?: string; // Path to a Netscape-format cookie file
+  userAgent?: string;
+  probePluginReadmes?: boolean;
+  probeSensitivePaths?: boolean;
+  reportUsernames?: boolean;
+  advisories?: string; // Path to a JSON or CSV advisory file
+  record?: string;
+  replay?: string;
+}
+
+// CI gate thresholds checked after an audit completes
+export interface Thresholds {
+  minScore?: number; // Minimum overall score
+  minCategoryScores?: Partial<CategoryScores>;
+  failOnIssues?: string[]; // Finding IDs, title substrings or /regex/ patterns
+}
+
+export interface ThresholdViolation {
+  type: "overall" | "category" | "issue";
+  message: string;
+}
+
+// Progress events emitted by audit() while it runs
+export type AuditProgressEvent =
+  | { type: "discovery:start"; url: string }
+  | { type: "discovery:complete"; sitemapUrls: number; pages: string[] }
+  | { type: "audit:start"; url: string; pages: string[] }
+  | { type: "site:complete"; site: SiteResult }
+  | { type: "page:start"; path: string; url: string }
+  | {
+      type: "page:skipped";
+      path: string;
+      url: string;
+      status: number;
+      error?: string;
+    }
+  | { type: "page:complete"; path: string; url: string }
+  | { type: "wordpress:start" }
+  | { type: "wordpress:complete"; detection: WpDetectionResult }
+  | { type: "modernization:start" }
+  | { type: "analysis:start" }
+  | { type: "warning"; message: string }
+  | { type: "archive:saved"; file: string; entries: number }
+  | { type: "audit:complete"; result: AuditResult };
+
+export interface AuditOptions {
+  onProgress?: (event: AuditProgressEvent) => void;
 }
 
 // ============================================================================
@@ -26,20 +141,116 @@ export interface AuditConfig {
 export interface HttpResult {
   url: string;
   status: number;
-  headers: Record<string, string>;
+  headers: Record<string, string>; // Repeated headers are joined with ", "
+  setCookies: string[]; // Each Set-Cookie header along the redirect chain
   body: string;
   finalUrl: string;
+  redirects: RedirectHop[]; // Redirects followed from url to finalUrl, in order
   error?: string;
 }
 
+// One redirect response in a chain
+export interface RedirectHop {
+  url: string;
+  status: number; // 301, 302, 303, 307 or 308
+  location: string; // Absolute URL the response pointed to
+  latencyMs: number; // Time until the response headers arrived
+}
+
+// An audited page whose redirects never ended on a response: a loop, or
+// more hops than the HTTP collector follows
+export interface RedirectFailure {
+  path: string;
+  url: string;
+  redirects: RedirectHop[];
+  error: string;
+}
+
 export interface WpDetectionResult {
   isWordPress: boolean;
   wpVersion?: string;
   themeName?: string;
-  plugins: string[];
+  themeVersion?: string; // From the theme stylesheet's ?ver= value
+  plugins: DetectedPlugin[];
   detectionMethods: string[];
 }
 
+// A plugin found in the page markup and what is known about its version
+export interface DetectedPlugin {
+  slug: string;
+  version?: string;
+  method: "readme" | "asset-query" | "path"; // Where the version came from ("path": no version found)
+  confidence: "high" | "medium" | "low" | "none"; // How reliable the version is
+}
+
+// A known vulnerability from a user-supplied advisory file
+export interface Advisory {
+  id: string; // e.g. "CVE-2024-1234"
+  type: "core" | "plugin" | "theme";
+  slug?: string; // Plugin or theme slug; not used for core advisories
+  title: string;
+  severity: FindingSeverity;
+  affected: string; // Version range, e.g. ">=8.0 <8.2.2 || <7.9"
+  fixedIn?: string; // First version with the fix
+  references?: string[]; // Advisory URLs
+}
+
+// An advisory that applies to a detected component
+export interface VulnerabilityMatch {
+  advisory: Advisory;
+  component: string; // "WordPress", or the plugin or theme slug
+  installedVersion: string;
+  confidence: DetectedPlugin["confidence"]; // How reliable the installed version is
+}
+
+// Site-wide facts collected once per audit rather than per page
+export interface SiteResult {
+  hasRobotsTxt: boolean;
+  hasSitemap: boolean;
+  hasRestApi: boolean;
+  restApiNamespaces: string[];
+  redirectProbes: RedirectProbe[];
+  sensitivePaths?: SensitivePath[]; // Only when sensitive path probing is enabled
+  userEnumeration: UserEnumeration;
+}
+
+// Usernames (author slugs) anyone can list through public WordPress URLs
+export interface UserEnumeration {
+  restApiStatus: number; // Status of /wp-json/wp/v2/users; 0 when the request failed
+  restApiUsers: number; // Users listed by the REST API
+  authorIdsProbed: number; // /?author=N requests made
+  authorArchiveUsers: number; // Of those, requests that revealed an author slug
+  exposedUsers: number; // Distinct slugs found through either channel
+  usernames?: string[]; // The slugs themselves, only when reporting usernames is enabled
+}
+
+// A well-known file or endpoint that should not be public on a WordPress site
+export interface SensitivePath {
+  check:
+    | "readme"
+    | "license"
+    | "config-backup"
+    | "debug-log"
+    | "uploads-listing"
+    | "xmlrpc";
+  path: string;
+  status: number; // 0 when the request failed
+  // exposed: the content is served; protected: access is refused or the
+  // content is hidden; absent: not found (including soft 404 pages)
+  exposure: "exposed" | "protected" | "absent";
+  error?: string;
+}
+
+// How the site answers a variant of its base URL
+export interface RedirectProbe {
+  variant: "http" | "www"; // http:// instead of https://, or the other www host
+  url: string;
+  status: number; // 0 when the variant could not be reached
+  finalUrl: string;
+  redirects: RedirectHop[];
+  error?: string;
+}
+
 export interface SeoResult {
   title?: string;
   metaDescription?: string;
@@ -71,9 +282,53 @@ export interface SecurityResult {
   isHttps: boolean;
   hasXContentTypeOptions: boolean;
   hasXFrameOptions: boolean;
-  hasContentSecurityPolicy: boolean;
+  hasContentSecurityPolicy: boolean; // An enforced policy (report-only does not count)
   exposedWpVersion: boolean;
   securityHeaders: Record<string, string>;
+  policyWeaknesses: PolicyWeakness[]; // Problems in the CSP and HSTS headers
+  cookies: SetCookie[]; // Cookies set by the page, without their values
+  mixedContent: MixedContentResource[]; // http:// subresources of an HTTPS page
+}
+
+// An http:// resource loaded by an HTTPS page
+export interface MixedContentResource {
+  url: string;
+  // Active content (scripts, stylesheets, frames) is blocked by browsers and
+  // can rewrite the page; passive content (images, media) is only tampered with
+  type: "active" | "passive";
+  source: string; // Where it was found, e.g. "script[src]", "img[srcset]", "style url()"
+}
+
+// Attributes of a cookie from a Set-Cookie header
+export interface SetCookie {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: string; // "Strict", "Lax" or "None" as sent; absent when not set
+  session: boolean; // A login or session cookie (wordpress_logged_in_*, PHPSESSID, ...)
+  issues: CookieIssue[];
+}
+
+export type CookieIssue =
+  | "missing-secure" // Only checked on HTTPS pages
+  | "missing-httponly"
+  | "missing-samesite";
+
+// A weakness of a Content-Security-Policy or Strict-Transport-Security header
+export interface PolicyWeakness {
+  id:
+    | "csp-report-only" // Only Content-Security-Policy-Report-Only is sent
+    | "csp-unsafe-inline"
+    | "csp-unsafe-eval"
+    | "csp-wildcard-source" // *, http:, https: or data: as a script source
+    | "csp-missing-default-src"
+    | "csp-missing-object-src"
+    | "csp-missing-frame-ancestors"
+    | "hsts-missing" // HTTPS response without a valid HSTS header
+    | "hsts-max-age-short"
+    | "hsts-no-include-subdomains"
+    | "hsts-no-preload";
+  evidence: string; // Directive or header value behind the weakness
 }
 
 export interface ModernizationResult {
@@ -101,6 +356,20 @@ export interface LighthouseData {
 // Analyzer Result Types
 // ============================================================================
 
+export type FindingSeverity = "critical" | "high" | "medium" | "low";
+
+// A single problem reported by an analyzer. Its recommendation is also
+// listed in the analysis' recommendations.
+export interface Finding {
+  id: string; // Stable rule ID, e.g. "SEC-CSP-MISSING"
+  category: keyof CategoryScores;
+  severity: FindingSeverity;
+  title: string; // Human-readable description of the problem
+  recommendation: string;
+  pages: string[]; // Paths of the affected pages; empty for site-wide findings
+  evidence?: string; // Observed value that triggered the finding
+}
+
 export interface PerformanceAnalysis {
   htmlSizeCategory: "excellent" | "good" | "fair" | "poor";
   scriptLoadCategory: "excellent" | "good" | "heavy";
@@ -113,7 +382,7 @@ export interface PerformanceAnalysis {
     inpStatus: "good" | "needs-improvement" | "poor";
     ttfbStatus: "good" | "needs-improvement" | "poor";
   };
-  issues: string[];
+  findings: Finding[];
   recommendations: string[];
 }
 
@@ -124,16 +393,26 @@ export interface SeoAnalysis {
   hasCanonical: boolean;
   hasRobotsTxt: boolean;
   hasSitemap: boolean;
-  issues: string[];
+  findings: Finding[];
   recommendations: string[];
 }
 
 export interface SecurityAnalysis {
-  httpsStatus: "secure" | "insecure";
+  httpsStatus: "secure" | "mixed" | "insecure"; // mixed: only some pages use HTTPS
   headersCoverage: "excellent" | "partial" | "none";
   versionExposure: "hidden" | "exposed";
   overallPosture: "strong" | "moderate" | "weak";
-  issues: string[];
+  inconsistentHeaders: string[]; // Security headers that differ between pages
+  vulnerabilities: VulnerabilityMatch[];
+  // Most severe known vulnerability; "unchecked" when no advisories were given
+  vulnerabilityStatus: "unchecked" | "none" | FindingSeverity;
+  exposedPaths: string[]; // Sensitive paths served publicly (when probed)
+  // Most severe exposed sensitive path; "unchecked" when paths were not probed
+  fileExposure: "unchecked" | "none" | FindingSeverity;
+  usernameExposure: "hidden" | "exposed";
+  insecureCookies: string[]; // Names of cookies with at least one issue
+  mixedContent: "none" | "passive" | "active"; // Worst mixed content on any page
+  findings: Finding[];
   recommendations: string[];
 }
 
@@ -142,7 +421,7 @@ export interface ModernizationAnalysis {
   permalinkModernity: "modern" | "mixed" | "legacy";
   cdnUsage: "yes" | "partial" | "no";
   headlessReadiness: "ready" | "needs-work" | "not-ready";
-  issues: string[];
+  findings: Finding[];
   recommendations: string[];
 }
 
@@ -165,15 +444,117 @@ export interface PageResult {
 // ============================================================================
 
 export interface CategoryScores {
-  performance: number; // 0-30 baseline, up to 41 with Core Web Vitals bonus (v0.4.0)
+  performance: number; // 0-30
   seo: number; // 0-25
   security: number; // 0-25
   modernization: number; // 0-20
 }
 
+// One scoring check: what it measured and the points it earned
+export interface ScoreLineItem {
+  check: string;
+  input: string; // Analysis value behind the points, e.g. "htmlSizeCategory: fair"
+  points: number;
+  maxPoints: number;
+}
+
+// Score for one category with the checks behind it
+export interface CategoryScoreResult {
+  score: number; // Check points scaled to the category weight
+  breakdown: ScoreLineItem[];
+}
+
+// A weighted part of a category score
+export interface ScoreComponent {
+  score: number;
+  maxScore: number;
+}
+
+// How the performance score was put together
+export interface PerformanceComposition {
+  pageChecks: ScoreComponent; // HTML size, scripts, images, caching, stylesheets
+  coreWebVitals: ScoreComponent | null; // null without PageSpeed data; its share goes to pageChecks
+}
+
 export interface ScoringResult extends CategoryScores {
-  overall: number; // 0-100 baseline, up to 111 with Core Web Vitals bonus (v0.4.0)
+  overall: number; // 0-100, the sum of the category scores
   rating: "healthy" | "needs-optimization" | "needs-modernization" | "legacy";
+  profile: string; // Name of the scoring profile used
+  maxScores: CategoryScores; // Category weights from the profile
+  composition: { performance: PerformanceComposition };
+  breakdown: Record<keyof CategoryScores, ScoreLineItem[]>; // Per-check points
+}
+
+// ============================================================================
+// Scoring Profile Types
+// ============================================================================
+
+type VitalStatus = "good" | "needs-improvement" | "poor";
+
+// Points awarded for each outcome of each scoring check
+export interface ScoringPoints {
+  performance: {
+    htmlSize: Record<PerformanceAnalysis["htmlSizeCategory"], number>;
+    scriptLoad: Record<PerformanceAnalysis["scriptLoadCategory"], number>;
+    imageOptimization: Record<PerformanceAnalysis["imageOptimization"], number>;
+    caching: Record<PerformanceAnalysis["caching"], number>;
+    stylesheets: number; // Baseline until stylesheets are analyzed
+    coreWebVitals: Record<
+      "lcp" | "cls" | "inp" | "ttfb",
+      Record<VitalStatus, number>
+    >;
+  };
+  seo: {
+    title: Record<SeoAnalysis["titleQuality"], number>;
+    metaDescription: Record<SeoAnalysis["metaDescriptionQuality"], number>;
+    h1: Record<SeoAnalysis["h1Quality"], number>;
+    canonical: number;
+    robotsAndSitemap: { both: number; one: number; none: number };
+  };
+  security: {
+    https: Record<SecurityAnalysis["httpsStatus"], number>;
+    headers: Record<SecurityAnalysis["headersCoverage"], number>;
+    versionHidden: number;
+    usernames: Record<SecurityAnalysis["usernameExposure"], number>;
+    updatePosture: Record<SecurityAnalysis["vulnerabilityStatus"], number>;
+    sensitiveFiles: Record<SecurityAnalysis["fileExposure"], number>;
+  };
+  modernization: {
+    restApi: Record<ModernizationAnalysis["restApiStatus"], number>;
+    contentEndpoints: Record<ModernizationAnalysis["restApiStatus"], number>;
+    permalinks: Record<ModernizationAnalysis["permalinkModernity"], number>;
+    cdn: Record<ModernizationAnalysis["cdnUsage"], number>;
+  };
+}
+
+// Minimum overall score for each rating; anything lower is "legacy"
+export interface RatingBands {
+  healthy: number;
+  needsOptimization: number;
+  needsModernization: number;
+}
+
+export interface ScoringProfile {
+  name: string;
+  description?: string;
+  weights: CategoryScores; // Maximum points per category; must add up to 100
+  vitalsShare: number; // Percent of the performance weight from Core Web Vitals when measured
+  points: ScoringPoints;
+  ratingBands: RatingBands;
+}
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// A user-defined profile in wpaudit.config.json, layered over another profile
+export interface ProfileDefinition {
+  extends?: string; // Base profile (default: "default")
+  description?: string;
+  weights?: Partial<CategoryScores>;
+  vitalsShare?: number;
+  points?: DeepPartial<ScoringPoints>;
+  ratingBands?: Partial<RatingBands>;
 }
 
 // ============================================================================
@@ -183,7 +564,9 @@ export interface ScoringResult extends CategoryScores {
 export interface AuditResult {
   url: string;
   pages: PageResult[];
+  redirectFailures: RedirectFailure[]; // Requested pages that never stopped redirecting
   timestamp: string;
+  site: SiteResult;
   wpDetection: WpDetectionResult;
   scores: ScoringResult;
   analyses: {
@@ -192,5 +575,104 @@ export interface AuditResult {
     security: SecurityAnalysis;
     modernization: ModernizationAnalysis;
   };
-  topIssues: string[];
+  topIssues: Finding[]; // Most severe findings across all categories
+  pageScores: PageScore[]; // Each page scored on its own, in audit order
+  request: RequestSummary;
+}
+
+// Scores and analyses for a single page. Modernization is site-wide, so
+// every page shares the site's modernization analysis.
+export interface PageScore {
+  path: string;
+  url: string;
+  scores: ScoringResult;
+  analyses: AuditResult["analyses"];
+}
+
+// ============================================================================
+// Batch / Portfolio Types
+// ============================================================================
+
+// One entry of a batch site list; unset fields fall back to batch defaults
+export interface BatchSite {
+  url: string;
+  name?: string;
+  pages?: string[];
+  apiUrl?: string;
+  autoPages?: boolean;
+  maxPages?: number;
+}
+
+export interface BatchSiteOutcome {
+  site: BatchSite;
+  result?: AuditResult;
+  error?: string;
+  reportPath?: string; // Set once the site's report has been written
+}
+
+export type BatchProgressEvent =
+  | { type: "site:start"; site: BatchSite; index: number; total: number }
+  | {
+      type: "site:complete";
+      site: BatchSite;
+      index: number;
+      total: number;
+      result: AuditResult;
+    }
+  | {
+      type: "site:failed";
+      site: BatchSite;
+      index: number;
+      total: number;
+      error: string;
+    };
+
+export interface BatchOptions {
+  onProgress?: (event: BatchProgressEvent) => void;
+  onAuditProgress?: (site: BatchSite, event: AuditProgressEvent) => void;
+}
+
+// ============================================================================
+// Report Diff Types
+// ============================================================================
+
+export type DiffScoreKey = "overall" | keyof CategoryScores;
+
+export interface ScoreChange {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface MetricChange {
+  metric: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  regressed: boolean;
+}
+
+export interface PageDiff {
+  path: string;
+  change: "changed" | "unchanged" | "added" | "removed";
+  metrics: MetricChange[];
+}
+
+export interface ReportDiff {
+  before: { url: string; generatedAt: string };
+  after: { url: string; generatedAt: string };
+  scores: Record<DiffScoreKey, ScoreChange>;
+  rating: { before: string; after: string };
+  issues: Record<keyof CategoryScores, { new: string[]; resolved: string[] }>;
+  wordpress: {
+    versionBefore: string | null;
+    versionAfter: string | null;
+    themeBefore: string | null;
+    themeAfter: string | null;
+    pluginsAdded: string[];
+    pluginsRemoved: string[];
+    pluginsUpdated: Array<{ slug: string; before: string; after: string }>;
+  };
+  pages: PageDiff[];
+  regressions: string[];
 }
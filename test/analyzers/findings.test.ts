@@ -0,0 +1,106 @@
+/**
+ * Findings tests - Building, ranking and identifying analyzer findings
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createFindingList,
+  rankFindings,
+  SEVERITY_ORDER,
+} from "../../src/analyzers/findings.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type { Finding, FindingSeverity } from "../../src/types.js";
+
+const ID_PREFIXES = {
+  performance: "PERF",
+  seo: "SEO",
+  security: "SEC",
+  modernization: "MOD",
+};
+
+function finding(id: string, severity: FindingSeverity): Finding {
+  return {
+    id,
+    severity,
+    category: "seo",
+    title: id,
+    recommendation: `Fix ${id}`,
+    pages: [],
+  };
+}
+
+describe("createFindingList()", () => {
+  it("adds the category and records each recommendation once", () => {
+    const { findings, recommendations, add } = createFindingList("security");
+    const recommendation = "Send the missing headers";
+
+    add({
+      id: "SEC-A",
+      severity: "low",
+      title: "A",
+      recommendation,
+    });
+    add({
+      id: "SEC-B",
+      severity: "high",
+      title: "B",
+      recommendation,
+      pages: ["/"],
+    });
+
+    expect(findings).toEqual([
+      {
+        category: "security",
+        pages: [],
+        id: "SEC-A",
+        severity: "low",
+        title: "A",
+        recommendation,
+      },
+      {
+        category: "security",
+        pages: ["/"],
+        id: "SEC-B",
+        severity: "high",
+        title: "B",
+        recommendation,
+      },
+    ]);
+    expect(recommendations).toEqual([recommendation]);
+  });
+});
+
+describe("rankFindings()", () => {
+  it("sorts by severity and keeps analyzer order within a severity", () => {
+    const findings = [
+      finding("low-1", "low"),
+      finding("high-1", "high"),
+      finding("critical-1", "critical"),
+      finding("high-2", "high"),
+      finding("medium-1", "medium"),
+    ];
+
+    expect(rankFindings(findings).map((f) => f.id)).toEqual([
+      "critical-1",
+      "high-1",
+      "high-2",
+      "medium-1",
+      "low-1",
+    ]);
+    expect(findings[0].id).toBe("low-1");
+  });
+});
+
+describe("audit findings", () => {
+  it("use category-prefixed IDs and surface the most severe as top issues", async () => {
+    const result = await auditMockSite({ securityHeaders: false });
+    const all = Object.values(result.analyses).flatMap((a) => a.findings);
+
+    for (const item of all) {
+      expect(item.id).toMatch(/^[A-Z]+(-[A-Z0-9]+)+$/);
+      expect(item.id.startsWith(`${ID_PREFIXES[item.category]}-`)).toBe(true);
+      expect(SEVERITY_ORDER).toContain(item.severity);
+    }
+    expect(result.topIssues).toEqual(rankFindings(all).slice(0, 5));
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Redirect Check tests - Findings for page redirects and the http:// and
+ * www host variants probed once per site
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { createFindingList } from "../../src/analyzers/findings.js";
+import {
+  addRedirectPerformanceFindings,
+  addRedirectSeoFindings,
+} from "../../src/analyzers/redirects.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type {
+  AuditResult,
+  PageResult,
+  RedirectFailure,
+  RedirectHop,
+  RedirectProbe,
+} from "../../src/types.js";
+
+const SITE = "https://example.test";
+
+let result: AuditResult;
+
+beforeAll(async () => {
+  result = await auditMockSite();
+});
+
+function hop(url: string, location: string, status = 301): RedirectHop {
+  return { url, status, location, latencyMs: 12 };
+}
+
+// An audited page that ended on finalUrl after the given redirects
+function page(
+  path: string,
+  redirects: RedirectHop[] = [],
+  finalUrl = `${SITE}${path}`
+): PageResult {
+  const template = result.pages[0];
+  return {
+    ...template,
+    path,
+    url: `${SITE}${path}`,
+    httpResult: { ...template.httpResult, finalUrl, redirects },
+  };
+}
+
+function probe(
+  variant: RedirectProbe["variant"],
+  url: string,
+  finalUrl: string,
+  redirects: RedirectHop[] = [],
+  overrides: Partial<RedirectProbe> = {}
+): RedirectProbe {
+  return { variant, url, status: 200, finalUrl, redirects, ...overrides };
+}
+
+function seoFindings(
+  pages: PageResult[],
+  probes: RedirectProbe[] = [],
+  failures: RedirectFailure[] = []
+) {
+  const { findings, add } = createFindingList("seo");
+  addRedirectSeoFindings(
+    add,
+    pages,
+    { ...result.site, redirectProbes: probes },
+    failures
+  );
+  return findings;
+}
+
+function performanceFindings(
+  pages: PageResult[],
+  probes: RedirectProbe[] = []
+) {
+  const { findings, add } = createFindingList("performance");
+  addRedirectPerformanceFindings(add, pages, {
+    ...result.site,
+    redirectProbes: probes,
+  });
+  return findings;
+}
+
+const HTTP_TO_HTTPS = probe("http", "http://example.test/", `${SITE}/`, [
+  hop("http://example.test/", `${SITE}/`),
+]);
+const WWW_TO_APEX = probe("www", "https://www.example.test/", `${SITE}/`, [
+  hop("https://www.example.test/", `${SITE}/`),
+]);
+
+describe("addRedirectSeoFindings()", () => {
+  it("finds nothing when both variants redirect to the audited host", () => {
+    expect(seoFindings([page("/")], [HTTP_TO_HTTPS, WWW_TO_APEX])).toEqual([]);
+  });
+
+  it("reports an http:// variant that is served without redirecting", () => {
+    const findings = seoFindings(
+      [page("/")],
+      [probe("http", "http://example.test/", "http://example.test/")]
+    );
+
+    expect(findings).toMatchObject([
+      {
+        id: "SEO-REDIRECT-HTTPS-MISSING",
+        severity: "high",
+        pages: ["http://example.test/"],
+      },
+    ]);
+  });
+
+  it("reports a second host that serves the site", () => {
+    const findings = seoFindings(
+      [page("/")],
+      [probe("www", "https://www.example.test/", "https://www.example.test/")]
+    );
+
+    expect(findings).toMatchObject([
+      {
+        id: "SEO-REDIRECT-HOST-INCONSISTENT",
+        severity: "medium",
+        pages: ["https://www.example.test/"],
+      },
+    ]);
+    expect(findings[0].recommendation).toContain(
+      "Redirect www.example.test to example.test"
+    );
+  });
+
+  it("reports temporary redirects on pages and probes", () => {
+    const findings = seoFindings(
+      [
+        page(
+          "/old/",
+          [hop(`${SITE}/old/`, `${SITE}/new/`, 302)],
+          `${SITE}/new/`
+        ),
+      ],
+      [
+        probe("http", "http://example.test/", `${SITE}/`, [
+          hop("http://example.test/", `${SITE}/`, 307),
+        ]),
+      ]
+    );
+
+    expect(findings).toMatchObject([
+      {
+        id: "SEO-REDIRECT-TEMPORARY",
+        pages: ["/old/", "http://example.test/"],
+        evidence: `${SITE}/old/ -> ${SITE}/new/ (302)`,
+      },
+    ]);
+  });
+
+  it("tells redirect loops apart from chains over the hop limit", () => {
+    const loop: RedirectFailure = {
+      path: "/loop/",
+      url: `${SITE}/loop/`,
+      redirects: [
+        hop(`${SITE}/loop/`, `${SITE}/loop-b/`),
+        hop(`${SITE}/loop-b/`, `${SITE}/loop/`),
+      ],
+      error: "Redirect loop",
+    };
+    const tooMany: RedirectFailure = {
+      path: "/far/",
+      url: `${SITE}/far/`,
+      redirects: [1, 2, 3].map((n) =>
+        hop(`${SITE}/far/${n}`, `${SITE}/far/${n + 1}`)
+      ),
+      error: "Too many redirects",
+    };
+    const findings = seoFindings([page("/")], [], [loop, tooMany]);
+
+    expect(findings).toMatchObject([
+      {
+        id: "SEO-REDIRECT-LOOP",
+        severity: "critical",
+        pages: ["/loop/"],
+        evidence: "Redirect loop",
+      },
+      {
+        id: "SEO-REDIRECT-TOO-MANY",
+        severity: "high",
+        pages: ["/far/"],
+        evidence: "Too many redirects",
+      },
+    ]);
+  });
+
+  it("reports a probed variant that stopped at the hop limit", () => {
+    const redirects = [1, 2].map((n) =>
+      hop(`http://example.test/${n}`, `http://example.test/${n + 1}`)
+    );
+    const findings = seoFindings(
+      [page("/")],
+      [
+        probe(
+          "http",
+          "http://example.test/",
+          "http://example.test/3",
+          redirects,
+          {
+            status: 301,
+            error: "Too many redirects",
+          }
+        ),
+      ]
+    );
+
+    expect(findings.map((f) => f.id)).toEqual(["SEO-REDIRECT-TOO-MANY"]);
+    expect(findings[0].pages).toEqual(["http://example.test/"]);
+  });
+});
+
+describe("addRedirectPerformanceFindings()", () => {
+  it("reports URLs that take more than one hop, with the longest chain", () => {
+    const twoHops = [
+      hop("http://www.example.test/", "https://www.example.test/"),
+      hop("https://www.example.test/", `${SITE}/`),
+    ];
+    const findings = performanceFindings(
+      [page("/old/", [hop(`${SITE}/old/`, `${SITE}/new/`)], `${SITE}/new/`)],
+      [
+        HTTP_TO_HTTPS,
+        probe("www", "http://www.example.test/", `${SITE}/`, twoHops),
+      ]
+    );
+
+    expect(findings).toEqual([
+      {
+        id: "PERF-REDIRECT-CHAIN",
+        severity: "medium",
+        category: "performance",
+        title: "1 URL(s) redirect through more than one hop",
+        recommendation:
+          "Point redirects straight at the final URL so each request needs a single hop",
+        pages: ["http://www.example.test/"],
+        evidence:
+          "http://www.example.test/ (301, 12 ms) -> " +
+          "https://www.example.test/ (301, 12 ms) -> https://example.test/",
+      },
+    ]);
+  });
+
+  it("finds nothing for single-hop redirects", () => {
+    expect(
+      performanceFindings([page("/")], [HTTP_TO_HTTPS, WWW_TO_APEX])
+    ).toEqual([]);
+  });
+});
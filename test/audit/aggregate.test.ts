@@ -0,0 +1,124 @@
+/**
+ * Aggregation tests - Security results merged across every audited page
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { analyzeSecurity } from "../../src/analyzers/security.js";
+import { aggregateSecurity } from "../../src/audit/aggregate.js";
+import { collectSecurityData } from "../../src/collectors/securityCollector.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type { PageResult } from "../../src/types.js";
+
+const HEADERS = {
+  "x-content-type-options": "nosniff",
+  "x-frame-options": "SAMEORIGIN",
+  "content-security-policy":
+    "default-src 'self'; object-src 'none'; frame-ancestors 'self'",
+};
+
+let template: PageResult;
+
+beforeAll(async () => {
+  template = (await auditMockSite()).pages[0];
+});
+
+// A page whose security result comes from the given response
+function page(
+  url: string,
+  headers: Record<string, string> = HEADERS,
+  html = ""
+): PageResult {
+  return {
+    ...template,
+    path: new URL(url).pathname,
+    url,
+    securityResult: collectSecurityData(url, headers, html),
+  };
+}
+
+const findingIds = (pages: PageResult[]) =>
+  analyzeSecurity(aggregateSecurity(pages), pages).findings.map((f) => f.id);
+
+describe("aggregateSecurity()", () => {
+  it("counts a protection only when every page has it", () => {
+    const { "x-frame-options": _, ...withoutFrameOptions } = HEADERS;
+    const pages = [
+      page("http://example.test/"),
+      page("http://example.test/about/"),
+      page("http://example.test/blog/", withoutFrameOptions),
+    ];
+    const aggregated = aggregateSecurity(pages);
+
+    expect(aggregated.hasXContentTypeOptions).toBe(true);
+    expect(aggregated.hasXFrameOptions).toBe(false);
+    expect(aggregated.securityHeaders).not.toHaveProperty("x-frame-options");
+    expect(aggregated._aggregation).toMatchObject({
+      totalPages: 3,
+      inconsistentHeaders: ["x-frame-options"],
+      inconsistentPages: ["/blog/"],
+    });
+
+    const finding = analyzeSecurity(aggregated, pages).findings.find(
+      (f) => f.id === "SEC-HEADERS-INCONSISTENT"
+    );
+    expect(finding).toMatchObject({
+      pages: ["/blog/"],
+      evidence: "x-frame-options",
+    });
+  });
+
+  it("reports HTTPS as mixed when only some pages use it", () => {
+    const pages = [
+      page("https://example.test/"),
+      page("http://example.test/about/"),
+    ];
+    const aggregated = aggregateSecurity(pages);
+    const analysis = analyzeSecurity(aggregated, pages);
+
+    expect(aggregated.isHttps).toBe(false);
+    expect(aggregated._aggregation.httpsPages).toBe(1);
+    expect(analysis.httpsStatus).toBe("mixed");
+    expect(
+      analysis.findings.find((f) => f.id === "SEC-HTTPS-MIXED")?.pages
+    ).toEqual(["/about/"]);
+  });
+
+  it("reports a weakness found on any page", () => {
+    const generator = '<meta name="generator" content="WordPress 6.4.2">';
+    const pages = [
+      page("http://example.test/"),
+      page("http://example.test/about/", HEADERS, generator),
+    ];
+
+    expect(aggregateSecurity(pages).exposedWpVersion).toBe(true);
+    expect(findingIds(pages)).toContain("SEC-WP-VERSION-EXPOSED");
+    expect(findingIds(pages.slice(0, 1))).not.toContain(
+      "SEC-WP-VERSION-EXPOSED"
+    );
+  });
+
+  it("treats headers that differ only in case or spacing as the same", () => {
+    const pages = [
+      page("http://example.test/"),
+      page("http://example.test/about/", {
+        ...HEADERS,
+        "x-frame-options": "sameorigin ",
+      }),
+    ];
+
+    expect(aggregateSecurity(pages)._aggregation.inconsistentHeaders).toEqual(
+      []
+    );
+  });
+
+  it("counts no protection when no page loaded", () => {
+    const aggregated = aggregateSecurity([]);
+
+    expect(aggregated).toMatchObject({
+      isHttps: false,
+      hasXContentTypeOptions: false,
+      hasContentSecurityPolicy: false,
+      _aggregation: { httpsPages: 0, totalPages: 0 },
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Worker Pool tests - Bounded concurrency with results in input order
+ */
+
+import { describe, expect, it } from "vitest";
+import { runPool } from "../../src/audit/pool.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("runPool()", () => {
+  it("keeps the input order when later tasks finish first", async () => {
+    const delays = [40, 5, 20, 0];
+    const finished: number[] = [];
+
+    const results = await runPool(delays, 4, async (delay, index) => {
+      await sleep(delay);
+      finished.push(index);
+      return `page ${index}`;
+    });
+
+    expect(results).toEqual(["page 0", "page 1", "page 2", "page 3"]);
+    expect(finished).not.toEqual([0, 1, 2, 3]);
+  });
+
+  it("never runs more than the given number of tasks at once", async () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    let running = 0;
+    let peak = 0;
+
+    await runPool(items, 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(5);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("runs tasks one at a time with a concurrency of 1 or less", async () => {
+    for (const concurrency of [1, 0]) {
+      const order: string[] = [];
+      await runPool(["a", "b", "c"], concurrency, async (item) => {
+        order.push(`start ${item}`);
+        await sleep(1);
+        order.push(`end ${item}`);
+      });
+
+      expect(order).toEqual([
+        "start a",
+        "end a",
+        "start b",
+        "end b",
+        "start c",
+        "end c",
+      ]);
+    }
+  });
+
+  it("resolves an empty list without calling the worker", async () => {
+    let calls = 0;
+    expect(await runPool([], 4, async () => calls++)).toEqual([]);
+    expect(calls).toBe(0);
+  });
+
+  it("rejects when a task fails", async () => {
+    await expect(
+      runPool([1, 2, 3], 2, async (item) => {
+        if (item === 2) throw new Error("page 2 failed");
+        return item;
+      })
+    ).rejects.toThrow("page 2 failed");
+  });
+});
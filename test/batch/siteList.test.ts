@@ -0,0 +1,140 @@
+/**
+ * Site List tests - Parsing plain text, CSV and JSON batch site lists
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseSiteList } from "../../src/batch/siteList.js";
+
+describe("parseSiteList() plain text", () => {
+  it("ignores blank lines and # comments", () => {
+    const content = [
+      "# Client portfolio",
+      "https://one.example",
+      "",
+      "   ",
+      "https://two.example  # staging is separate",
+      "\t# indented comment",
+    ].join("\n");
+
+    expect(parseSiteList(content, "sites.txt")).toEqual([
+      { url: "https://one.example" },
+      { url: "https://two.example" },
+    ]);
+  });
+
+  it("handles Windows line endings", () => {
+    expect(
+      parseSiteList("https://one.example\r\nhttps://two.example\r\n", "x")
+    ).toHaveLength(2);
+  });
+
+  it("names the file and line of an invalid URL", () => {
+    expect(() =>
+      parseSiteList("https://one.example\n\nnot a url\n", "sites.txt")
+    ).toThrow('sites.txt line 3: invalid URL "not a url"');
+  });
+
+  it("rejects a list with only comments", () => {
+    expect(() => parseSiteList("# nothing yet\n\n", "sites.txt")).toThrow(
+      "sites.txt: no sites found"
+    );
+  });
+});
+
+describe("parseSiteList() CSV", () => {
+  it("reads the columns named in the header row", () => {
+    const content = [
+      "name,url,pages,maxPages",
+      '"Client, One",https://one.example,/|/shop,5',
+      ",https://two.example,,",
+    ].join("\n");
+
+    expect(parseSiteList(content, "sites.csv")).toEqual([
+      {
+        url: "https://one.example",
+        name: "Client, One",
+        pages: ["/", "/shop"],
+        maxPages: 5,
+      },
+      { url: "https://two.example" },
+    ]);
+  });
+
+  it("uses url, name, pages without a header row", () => {
+    expect(
+      parseSiteList("https://one.example,One,/ /about/\n", "sites.csv")
+    ).toEqual([
+      { url: "https://one.example", name: "One", pages: ["/", "/about/"] },
+    ]);
+  });
+
+  it("rejects unknown columns and invalid URLs", () => {
+    expect(() => parseSiteList("url,owner\n", "sites.csv")).toThrow(
+      'sites.csv line 1: unknown column "owner"'
+    );
+    expect(() =>
+      parseSiteList("url\nhttps://one.example\nftp//broken\n", "sites.csv")
+    ).toThrow('sites.csv line 3: invalid URL "ftp//broken"');
+  });
+});
+
+describe("parseSiteList() JSON", () => {
+  it("accepts an array or a sites object of strings and objects", () => {
+    const sites = [
+      "https://one.example",
+      { url: "https://two.example", autoPages: true, maxPages: 20 },
+    ];
+    const expected = [
+      { url: "https://one.example" },
+      { url: "https://two.example", autoPages: true, maxPages: 20 },
+    ];
+
+    expect(parseSiteList(JSON.stringify(sites), "sites.json")).toEqual(
+      expected
+    );
+    expect(parseSiteList(JSON.stringify({ sites }), "sites.json")).toEqual(
+      expected
+    );
+  });
+
+  it("names the entry of an invalid site", () => {
+    expect(() =>
+      parseSiteList('["https://one.example", "nope"]', "sites.json")
+    ).toThrow('sites.json sites[1]: invalid URL "nope"');
+    expect(() =>
+      parseSiteList(
+        '[{ "url": "https://one.example", "maxPages": 0 }]',
+        "s.json"
+      )
+    ).toThrow('s.json sites[0]: "maxPages" must be a positive integer');
+    expect(() => parseSiteList("[", "sites.json")).toThrow(
+      "sites.json: invalid JSON"
+    );
+  });
+});
+
+describe("parseSiteList() duplicates", () => {
+  it("audits a repeated entry once", () => {
+    const content = [
+      "https://one.example",
+      "https://two.example",
+      "https://one.example",
+    ].join("\n");
+
+    expect(parseSiteList(content, "sites.txt")).toEqual([
+      { url: "https://one.example" },
+      { url: "https://two.example" },
+    ]);
+  });
+
+  it("keeps the same URL with different pages or options", () => {
+    const sites = [
+      { url: "https://one.example", pages: ["/"] },
+      { url: "https://one.example", pages: ["/shop/"] },
+      { url: "https://one.example", pages: ["/"] },
+      { url: "https://one.example", pages: ["/"], name: "One" },
+    ];
+
+    expect(parseSiteList(JSON.stringify(sites), "sites.json")).toHaveLength(3);
+  });
+});
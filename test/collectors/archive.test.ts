@@ -0,0 +1,86 @@
+/**
+ * Record and Replay tests - An audit recorded from a mock site replays
+ * offline with the same results
+ */
+
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { audit } from "../../src/audit/index.js";
+import { archiveFileFor } from "../../src/collectors/archive.js";
+import { buildJsonReport } from "../../src/report/json.js";
+import { startMockWordPress } from "../fixtures/mockWordPress.js";
+import type { AuditConfig, AuditResult } from "../../src/types.js";
+
+let dir: string;
+let siteUrl: string;
+let recorded: AuditResult;
+
+const config: Partial<AuditConfig> = {
+  pages: ["/", "/about/", "/old/"],
+  probePluginReadmes: true,
+  probeSensitivePaths: true,
+};
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "wp-audit-archive-"));
+  const site = await startMockWordPress({
+    securityHeaders: false,
+    exposedFiles: ["/readme.html"],
+    redirects: { "/old/": "/about/" },
+  });
+  siteUrl = site.url;
+  try {
+    recorded = await audit({ url: siteUrl, ...config, record: dir });
+  } finally {
+    // Replays below must not reach the site
+    await site.close();
+  }
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// The JSON report without the fields that name the run itself
+function comparable(result: AuditResult) {
+  const { meta, ...report } = buildJsonReport(result);
+  return { url: meta.url, pagesAudited: meta.pagesAudited, ...report };
+}
+
+describe("record and replay", () => {
+  it("writes every response of the run to the site's archive", async () => {
+    const har = JSON.parse(
+      await readFile(archiveFileFor(dir, siteUrl), "utf8")
+    );
+    const urls = har.log.entries.map((entry: any) => entry.request.url);
+
+    expect(urls).toContain(`${siteUrl}/about/`);
+    expect(urls).toContain(`${siteUrl}/readme.html`);
+    expect(
+      urls.some((url: string) => url.startsWith(`${siteUrl}/wp-json/wp/v2/`))
+    ).toBe(true);
+  });
+
+  it("replays the recorded audit offline with identical results", async () => {
+    const replayed = await audit({ url: siteUrl, ...config, replay: dir });
+
+    expect(replayed.pages.map((page) => page.httpResult.finalUrl)).toEqual([
+      `${siteUrl}/`,
+      `${siteUrl}/about/`,
+      `${siteUrl}/about/`,
+    ]);
+    expect(comparable(replayed)).toEqual(comparable(recorded));
+    expect(replayed.scores).toEqual(recorded.scores);
+    expect(replayed.topIssues.map((finding) => finding.id)).toEqual(
+      recorded.topIssues.map((finding) => finding.id)
+    );
+  });
+
+  it("fails a replay of a site that was never recorded", async () => {
+    await expect(
+      audit({ url: "http://unrecorded.example", pages: ["/"], replay: dir })
+    ).rejects.toThrow("No recorded archive found");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Security Collector tests - HSTS, CSP, cookie and mixed content checks on
+ * a single page's headers and HTML
+ */
+
+import { describe, expect, it } from "vitest";
+import { analyzeSecurity } from "../../src/analyzers/security.js";
+import { collectSecurityData } from "../../src/collectors/securityCollector.js";
+
+describe("collectSecurityData() header and content checks", () => {
+  const weaknessIds = (headers: Record<string, string>) =>
+    collectSecurityData(
+      "https://example.test/",
+      headers,
+      ""
+    ).policyWeaknesses.map((weakness) => weakness.id);
+
+  it("reads security headers case-insensitively", () => {
+    const result = collectSecurityData(
+      "http://example.test/",
+      {
+        "X-Content-Type-Options": "nosniff",
+        "x-frame-options": "SAMEORIGIN",
+        "Referrer-Policy": "no-referrer",
+        Server: "nginx",
+      },
+      ""
+    );
+
+    expect(result).toMatchObject({
+      isHttps: false,
+      hasXContentTypeOptions: true,
+      hasXFrameOptions: true,
+      hasContentSecurityPolicy: false,
+    });
+    expect(Object.keys(result.securityHeaders)).toEqual([
+      "x-content-type-options",
+      "x-frame-options",
+      "referrer-policy",
+    ]);
+  });
+
+  it("does not count a report-only CSP as enforced", () => {
+    const result = collectSecurityData(
+      "http://example.test/",
+      { "Content-Security-Policy-Report-Only": "default-src 'self'" },
+      ""
+    );
+
+    expect(result.hasContentSecurityPolicy).toBe(false);
+    expect(result.policyWeaknesses.map((weakness) => weakness.id)).toEqual([
+      "csp-report-only",
+    ]);
+  });
+
+  it("detects a WordPress version in the generator tag", () => {
+    const page = (generator: string) =>
+      collectSecurityData(
+        "http://example.test/",
+        {},
+        `<meta name="generator" content="${generator}">`
+      ).exposedWpVersion;
+
+    expect(page("WordPress 6.4.2")).toBe(true);
+    expect(page("WordPress")).toBe(false);
+  });
+
+  it("flags a missing or invalid HSTS header on HTTPS pages", () => {
+    expect(weaknessIds({})).toEqual(["hsts-missing"]);
+    expect(
+      weaknessIds({ "Strict-Transport-Security": "includeSubDomains" })
+    ).toEqual(["hsts-missing"]);
+  });
+
+  it("grades the HSTS max-age, includeSubDomains and preload", () => {
+    expect(
+      weaknessIds({ "Strict-Transport-Security": "max-age=86400" })
+    ).toEqual([
+      "hsts-max-age-short",
+      "hsts-no-include-subdomains",
+      "hsts-no-preload",
+    ]);
+    expect(
+      weaknessIds({
+        "Strict-Transport-Security":
+          "max-age=63072000; includeSubDomains; preload",
+      })
+    ).toEqual([]);
+  });
+
+  it("only evaluates HSTS over HTTPS", () => {
+    const result = collectSecurityData("http://example.test/", {}, "");
+    expect(result.policyWeaknesses).toEqual([]);
+  });
+
+  it("expects Secure on cookies set over HTTPS", () => {
+    const cookies = collectSecurityData("https://example.test/", {}, "", [
+      "PHPSESSID=abc; path=/; HttpOnly; SameSite=Strict",
+      "wp-settings-1=x; path=/; Secure; HttpOnly; SameSite=Lax",
+    ]).cookies;
+
+    expect(cookies.map((cookie) => [cookie.name, cookie.issues])).toEqual([
+      ["PHPSESSID", ["missing-secure"]],
+      ["wp-settings-1", []],
+    ]);
+    expect(cookies[0].session).toBe(true);
+  });
+
+  it("ignores 'unsafe-inline' when nonces are used", () => {
+    expect(
+      weaknessIds({
+        "strict-transport-security":
+          "max-age=63072000; includeSubDomains; preload",
+        "content-security-policy":
+          "default-src 'self'; script-src 'nonce-abc' 'unsafe-inline'; object-src 'none'; frame-ancestors 'none'",
+      })
+    ).toEqual([]);
+  });
+
+  it("classifies active and passive mixed content on HTTPS pages", () => {
+    const html = `<html><head>
+      <script src="http://cdn.example.test/app.js"></script>
+      <script src="//cdn.example.test/relative.js"></script>
+      <link rel="stylesheet" href="HTTP://cdn.example.test/site.css">
+      <style>
+        @import url("http://fonts.example.test/fonts.css");
+        .hero { background: url('http://example.test/hero.jpg'); }
+      </style>
+    </head><body>
+      <iframe src="http://video.example.test/embed/1"></iframe>
+      <img src="https://example.test/a.jpg"
+        srcset="https://example.test/a-2x.jpg 2x, http://example.test/a-3x.jpg 3x">
+      <picture><source srcset="http://example.test/b.webp"></picture>
+      <div style="background-image: url(http://example.test/bg.png)"></div>
+    </body></html>`;
+    const secData = collectSecurityData("https://example.test/", {}, html);
+
+    expect(
+      secData.mixedContent.map(({ type, source, url }) => [type, source, url])
+    ).toEqual([
+      ["active", "script[src]", "http://cdn.example.test/app.js"],
+      ["active", "link[href]", "HTTP://cdn.example.test/site.css"],
+      ["active", "iframe[src]", "http://video.example.test/embed/1"],
+      ["passive", "img[srcset]", "http://example.test/a-3x.jpg"],
+      ["passive", "source[srcset]", "http://example.test/b.webp"],
+      ["passive", "style url()", "http://example.test/bg.png"],
+      ["active", "style @import", "http://fonts.example.test/fonts.css"],
+      ["passive", "style url()", "http://example.test/hero.jpg"],
+    ]);
+
+    const analysis = analyzeSecurity(secData);
+    const active = analysis.findings.find(
+      (finding) => finding.id === "SEC-MIXED-CONTENT-ACTIVE"
+    );
+    expect(analysis.mixedContent).toBe("active");
+    expect(analysis.overallPosture).toBe("weak");
+    expect(active?.severity).toBe("high");
+    expect(active?.evidence).toBe(
+      "http://cdn.example.test/app.js, HTTP://cdn.example.test/site.css, http://video.example.test/embed/1, http://fonts.example.test/fonts.css"
+    );
+    expect(analysis.findings.map((finding) => finding.id)).toContain(
+      "SEC-MIXED-CONTENT-PASSIVE"
+    );
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Config File tests - Validation errors name the offending key, and
+ * relative paths resolve against the config file
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  findConfigFile,
+  loadConfigFile,
+  validateConfig,
+} from "../../src/config/configFile.js";
+
+describe("validateConfig()", () => {
+  const validate = (data: unknown) => () =>
+    validateConfig(data, "wpaudit.config.json");
+
+  it("accepts a complete config", () => {
+    const config = {
+      url: "https://example.test",
+      pages: ["/", "/shop/"],
+      format: "sarif",
+      concurrency: 4,
+      pageSpeed: { strategy: "desktop" },
+      thresholds: {
+        minScore: 70,
+        minCategoryScores: { security: 15 },
+        failOnIssues: ["SEC-CSP-MISSING", "/^SEC-VULN-/"],
+      },
+      profile: "strict",
+      profiles: { strict: { extends: "ecommerce", vitalsShare: 50 } },
+      headers: { "X-Staging": "1" },
+    };
+    expect(validate(config)()).toEqual(config);
+  });
+
+  it("names unknown and invalid keys, including nested ones", () => {
+    expect(validate([])).toThrow(
+      "Invalid config file wpaudit.config.json: expected a JSON object"
+    );
+    expect(validate({ urls: [] })).toThrow('Unknown key "urls"');
+    expect(validate({ url: "example.test" })).toThrow(
+      '"url" must be an absolute URL (got "example.test")'
+    );
+    expect(validate({ format: "pdf" })).toThrow(
+      '"format" must be one of: md, html, json, sarif, junit'
+    );
+    expect(validate({ maxPages: 0 })).toThrow(
+      '"maxPages" must be an integer >= 1'
+    );
+    expect(validate({ pageSpeed: { key: "x" } })).toThrow(
+      'Unknown key "pageSpeed.key"'
+    );
+    expect(validate({ headers: { "X-Token": 1 } })).toThrow(
+      '"headers.X-Token" must be a non-empty string'
+    );
+    expect(validate({ thresholds: { failOnIssues: ["/(/"] } })).toThrow(
+      '"thresholds.failOnIssues": Invalid issue pattern /(/'
+    );
+  });
+
+  it("resolves custom profiles while validating", () => {
+    expect(validate({ profiles: { mine: { extends: "missing" } } })).toThrow(
+      "Invalid config file wpaudit.config.json:"
+    );
+  });
+});
+
+describe("loadConfigFile()", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "wp-audit-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves relative paths against the config file's directory", async () => {
+    const configDir = path.join(dir, "ci");
+    await mkdir(configDir);
+    const configPath = path.join(configDir, "wpaudit.config.json");
+    const absoluteOut = path.join(dir, "reports", "site.md");
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        advisories: "advisories.json",
+        cookieJar: "../cookies.txt",
+        record: "archives",
+        out: absoluteOut,
+      })
+    );
+
+    const loaded = loadConfigFile(configPath);
+
+    expect(loaded?.config).toEqual({
+      advisories: path.join(configDir, "advisories.json"),
+      cookieJar: path.join(dir, "cookies.txt"),
+      record: path.join(configDir, "archives"),
+      out: absoluteOut,
+    });
+  });
+
+  it("discovers wpaudit.config.json in a directory", async () => {
+    expect(findConfigFile(dir)).toBeNull();
+
+    const configPath = path.join(dir, "wpaudit.config.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({ url: "https://example.test" })
+    );
+    expect(findConfigFile(dir)).toBe(configPath);
+    expect(loadConfigFile(configPath)).toEqual({
+      path: configPath,
+      config: { url: "https://example.test" },
+    });
+  });
+
+  it("reports a missing or unparsable file", async () => {
+    const configPath = path.join(dir, "broken.json");
+    expect(() => loadConfigFile(configPath)).toThrow(
+      `Config file not found: ${configPath}`
+    );
+
+    await writeFile(configPath, "{ url: ");
+    expect(() => loadConfigFile(configPath)).toThrow(
+      `Could not parse config file ${configPath}`
+    );
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Report Diff tests - Comparing JSON reports of a site before and after a
+ * change, including reports written before findings had IDs
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { diffReports } from "../../src/diff/index.js";
+import { buildJsonReport } from "../../src/report/json.js";
+import type { JsonReport } from "../../src/report/json.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+
+let before: JsonReport;
+let after: JsonReport;
+
+beforeAll(async () => {
+  // The site adds its security headers and updates WooCommerce
+  before = buildJsonReport(await auditMockSite({ securityHeaders: false }));
+  after = buildJsonReport(
+    await auditMockSite({
+      plugins: [
+        { slug: "woocommerce", version: "8.3.0" },
+        { slug: "contact-form-7", version: "5.8.4" },
+      ],
+    })
+  );
+});
+
+/**
+ * The same report as written by older versions: issues are plain titles and
+ * plugins plain slugs
+ */
+function toLegacyReport(report: JsonReport): JsonReport {
+  const legacy = JSON.parse(JSON.stringify(report));
+  for (const category of Object.values<any>(legacy.findings)) {
+    category.issues = category.issues.map((issue: any) => issue.title);
+  }
+  legacy.wordpress.plugins = legacy.wordpress.plugins.map(
+    (plugin: any) => plugin.slug
+  );
+  return legacy;
+}
+
+describe("diffReports()", () => {
+  it("reports score deltas and a regression for each drop", () => {
+    const diff = diffReports(before, after);
+
+    expect(diff.scores.security).toEqual({
+      before: before.scores.security,
+      after: after.scores.security,
+      delta: after.scores.security - before.scores.security,
+    });
+    expect(diff.scores.security.delta).toBeGreaterThan(0);
+    expect(diff.scores.seo.delta).toBe(0);
+
+    const reverse = diffReports(after, before);
+    expect(reverse.scores.security.delta).toBe(-diff.scores.security.delta);
+    expect(reverse.regressions).toContain(
+      `security score dropped from ${after.scores.security} to ${before.scores.security} (${reverse.scores.security.delta})`
+    );
+  });
+
+  it("lists resolved and new findings but not unchanged ones", () => {
+    const diff = diffReports(before, after);
+    const headersMissing =
+      "Critical security headers are missing (SEC-HEADERS-MISSING)";
+
+    expect(diff.issues.security.resolved).toContain(headersMissing);
+    expect(diff.issues.security.new).toEqual([]);
+    expect(diff.regressions.some((r) => r.startsWith("New "))).toBe(false);
+
+    // Both sites are served over HTTP, so that finding is unchanged
+    const httpsMissing = "Site is not using HTTPS (SEC-HTTPS-MISSING)";
+    expect(diff.issues.security.resolved).not.toContain(httpsMissing);
+    expect(diff.issues.security.new).not.toContain(httpsMissing);
+
+    const reverse = diffReports(after, before);
+    expect(reverse.issues.security.new).toContain(headersMissing);
+    expect(reverse.issues.security.resolved).toEqual([]);
+    expect(reverse.regressions).toContain(
+      `New security issue: ${headersMissing}`
+    );
+  });
+
+  it("compares plugin versions and pages", () => {
+    const diff = diffReports(before, after);
+
+    expect(diff.wordpress.pluginsUpdated).toEqual([
+      { slug: "woocommerce", before: "8.2.1", after: "8.3.0" },
+    ]);
+    expect(diff.wordpress.pluginsAdded).toEqual([]);
+    expect(diff.wordpress.pluginsRemoved).toEqual([]);
+    expect(diff.pages.map((page) => page.path)).toEqual(["/"]);
+  });
+
+  it("reads reports whose issues are plain strings", () => {
+    const diff = diffReports(toLegacyReport(before), after);
+
+    // Legacy titles match current findings by title
+    expect(diff.issues.security.resolved).toEqual([
+      "Critical security headers are missing",
+    ]);
+    expect(diff.issues.security.new).toEqual([]);
+    expect(diff.issues.modernization).toEqual({ new: [], resolved: [] });
+    expect(diff.wordpress.pluginsUpdated).toEqual([]);
+    expect(diff.wordpress.pluginsAdded).toEqual([]);
+  });
+});
@@ -0,0 +1,838 @@
+/**
+ * End-to-end tests - Run the full audit pipeline against mock WordPress
+ * sites and check the AuditResult produced for each variant
+ */
+
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { audit } from "../../src/audit/index.js";
+import * as library from "../../src/index.js";
+import { parseAdvisories } from "../../src/advisories/index.js";
+import { archiveFileFor } from "../../src/collectors/archive.js";
+import { generateJsonReport } from "../../src/report/json.js";
+import { generateMarkdownReport } from "../../src/report/markdown.js";
+import { findWorstPages } from "../../src/scoring/scorer.js";
+import { startMockWordPress } from "../fixtures/mockWordPress.js";
+import type {
+  MockSiteOptions,
+  MockWordPress,
+} from "../fixtures/mockWordPress.js";
+import type {
+  AuditConfig,
+  AuditProgressEvent,
+  AuditResult,
+} from "../../src/types.js";
+
+let site: MockWordPress | null = null;
+
+afterEach(async () => {
+  await site?.close();
+  site = null;
+});
+
+async function auditMock(
+  variant: Partial<MockSiteOptions> = {},
+  config: Partial<AuditConfig> = {}
+): Promise<{ result: AuditResult; events: AuditProgressEvent[] }> {
+  site = await startMockWordPress(variant);
+  const events: AuditProgressEvent[] = [];
+  const result = await audit(
+    { url: site.url, pages: ["/"], ...config },
+    { onProgress: (event) => events.push(event) }
+  );
+  return { result, events };
+}
+
+function findingIds(result: AuditResult): string[] {
+  return Object.values(result.analyses).flatMap((analysis) =>
+    analysis.findings.map((finding) => finding.id)
+  );
+}
+
+describe("audit() against a mock WordPress site", () => {
+  it("detects the version, theme and plugins of a default site", async () => {
+    const { result } = await auditMock();
+
+    expect(result.wpDetection).toMatchObject({
+      isWordPress: true,
+      wpVersion: "6.4.2",
+      themeName: "astra",
+    });
+    expect(result.wpDetection.plugins.map((plugin) => plugin.slug)).toEqual(
+      expect.arrayContaining(["woocommerce", "contact-form-7"])
+    );
+    expect(result.wpDetection.detectionMethods).toEqual(
+      expect.arrayContaining(["meta-generator", "wp-paths", "rest-api"])
+    );
+    expect(result.analyses.security.versionExposure).toBe("exposed");
+    expect(findingIds(result)).toContain("SEC-WP-VERSION-EXPOSED");
+  });
+
+  it("reports a hidden version when the generator tag is removed", async () => {
+    const { result } = await auditMock({ wpVersion: null });
+
+    expect(result.wpDetection.isWordPress).toBe(true);
+    expect(result.wpDetection.wpVersion).toBeUndefined();
+    expect(result.analyses.security.versionExposure).toBe("hidden");
+    expect(findingIds(result)).not.toContain("SEC-WP-VERSION-EXPOSED");
+  });
+
+  it("detects a different theme and plugin set", async () => {
+    const { result } = await auditMock({
+      theme: "twentytwentyfour",
+      plugins: [{ slug: "wordpress-seo", version: "21.5" }],
+    });
+
+    expect(result.wpDetection.themeName).toBe("twentytwentyfour");
+    expect(result.wpDetection.plugins.map((plugin) => plugin.slug)).toEqual([
+      "wordpress-seo",
+    ]);
+  });
+
+  it("ignores asset versions that are not version-shaped", async () => {
+    const { result } = await auditMock({
+      themeVersion: "1%3Cimg%20src%3Dx%20onerror%3Dalert(1)%3E",
+    });
+
+    expect(result.wpDetection.themeName).toBe("astra");
+    expect(result.wpDetection.themeVersion).toBeUndefined();
+  });
+
+  it("reads plugin versions from asset query strings", async () => {
+    const { result } = await auditMock({
+      plugins: [
+        { slug: "woocommerce", version: "8.2.1" },
+        // Enqueued with the core version instead of its own
+        { slug: "legacy-slider", version: "2.0.0", assetVersion: "6.4.2" },
+      ],
+    });
+
+    expect(result.wpDetection.plugins).toEqual([
+      {
+        slug: "woocommerce",
+        version: "8.2.1",
+        method: "asset-query",
+        confidence: "medium",
+      },
+      {
+        slug: "legacy-slider",
+        version: "6.4.2",
+        method: "asset-query",
+        confidence: "low",
+      },
+    ]);
+  });
+
+  it("prefers the readme.txt Stable tag when probing is enabled", async () => {
+    const { result } = await auditMock(
+      {
+        plugins: [
+          { slug: "legacy-slider", version: "2.0.0", assetVersion: "6.4.2" },
+        ],
+      },
+      { probePluginReadmes: true }
+    );
+
+    expect(result.wpDetection.plugins).toEqual([
+      {
+        slug: "legacy-slider",
+        version: "2.0.0",
+        method: "readme",
+        confidence: "high",
+      },
+    ]);
+    expect(site!.requests).toContain(
+      "/wp-content/plugins/legacy-slider/readme.txt"
+    );
+  });
+
+  it("records plugins without a version when none is exposed", async () => {
+    const { result } = await auditMock(
+      { wpVersion: null, pluginReadmes: false },
+      { probePluginReadmes: true }
+    );
+
+    expect(result.wpDetection.plugins).toContainEqual({
+      slug: "woocommerce",
+      method: "path",
+      confidence: "none",
+    });
+  });
+
+  it("matches detected versions against a local advisory file", async () => {
+    const advisories = parseAdvisories(
+      [
+        "id,type,slug,title,severity,affected,fixedIn",
+        "CVE-2024-0001,core,,Stored XSS in blocks,medium,>=6.4 <6.4.3,6.4.3",
+        "CVE-2024-0002,plugin,woocommerce,SQL injection,critical,,8.2.2",
+        "CVE-2024-0003,plugin,woocommerce,Old CSRF,high,<7.0,7.0",
+        'CVE-2024-0004,theme,astra,"Open redirect, reflected",low,<=1.0.0,',
+        "CVE-2024-0005,plugin,contact-form-7,Fixed upload bug,high,,5.8.4",
+      ].join("\n"),
+      "advisories.csv"
+    );
+    const { result } = await auditMock({}, { advisories });
+    const security = result.analyses.security;
+
+    expect(result.wpDetection.themeVersion).toBe("1.0.0");
+    expect(
+      security.vulnerabilities.map((match) => [
+        match.advisory.id,
+        match.component,
+        match.installedVersion,
+      ])
+    ).toEqual([
+      ["CVE-2024-0002", "woocommerce", "8.2.1"],
+      ["CVE-2024-0001", "WordPress", "6.4.2"],
+      ["CVE-2024-0004", "astra", "1.0.0"],
+    ]);
+    expect(security.vulnerabilityStatus).toBe("critical");
+    expect(security.overallPosture).toBe("weak");
+    expect(security.findings).toContainEqual(
+      expect.objectContaining({
+        id: "SEC-VULN-CVE-2024-0002",
+        severity: "critical",
+        recommendation: 'Update "woocommerce" to 8.2.2 or later',
+      })
+    );
+    expect(
+      result.scores.breakdown.security.find(
+        (item) => item.check === "Update posture"
+      )
+    ).toMatchObject({ input: "vulnerabilityStatus: critical", points: 0 });
+  });
+
+  it("reports no vulnerabilities when no advisory applies", async () => {
+    const advisories = parseAdvisories(
+      JSON.stringify({
+        advisories: [
+          {
+            id: "CVE-2023-0001",
+            type: "core",
+            title: "Fixed long ago",
+            severity: "high",
+            fixedIn: "6.2",
+          },
+        ],
+      }),
+      "advisories.json"
+    );
+    const { result } = await auditMock({}, { advisories });
+
+    expect(result.analyses.security.vulnerabilities).toEqual([]);
+    expect(result.analyses.security.vulnerabilityStatus).toBe("none");
+    expect(findingIds(result).some((id) => id.startsWith("SEC-VULN-"))).toBe(
+      false
+    );
+  });
+
+  it("flags exposed sensitive files when probing is enabled", async () => {
+    const { result } = await auditMock(
+      {
+        exposedFiles: [
+          "/readme.html",
+          "/wp-config.php.bak",
+          "/wp-content/debug.log",
+          "/wp-content/uploads/",
+          "/xmlrpc.php",
+        ],
+        forbiddenPaths: ["/license.txt"],
+      },
+      { probeSensitivePaths: true }
+    );
+    const exposure = Object.fromEntries(
+      result.site.sensitivePaths!.map((item) => [item.path, item.exposure])
+    );
+
+    expect(exposure).toMatchObject({
+      "/readme.html": "exposed",
+      "/license.txt": "protected",
+      "/wp-config.php.bak": "exposed",
+      "/wp-config.php.old": "absent",
+      "/wp-content/debug.log": "exposed",
+      "/wp-content/uploads/": "exposed",
+      "/xmlrpc.php": "exposed",
+    });
+    expect(findingIds(result)).toEqual(
+      expect.arrayContaining([
+        "SEC-CONFIG-BACKUP-EXPOSED",
+        "SEC-DEBUG-LOG-EXPOSED",
+        "SEC-UPLOADS-LISTING",
+        "SEC-XMLRPC-ENABLED",
+        "SEC-README-EXPOSED",
+      ])
+    );
+    expect(findingIds(result)).not.toContain("SEC-LICENSE-EXPOSED");
+    expect(result.analyses.security.overallPosture).toBe("weak");
+    expect(result.analyses.security.fileExposure).toBe("critical");
+    expect(
+      result.scores.breakdown.security.find(
+        (item) => item.check === "Sensitive files"
+      )
+    ).toMatchObject({ points: 0, maxPoints: 4 });
+  });
+
+  it("lowers the security score for an exposed config backup", async () => {
+    const { result: clean } = await auditMock(
+      {},
+      { probeSensitivePaths: true }
+    );
+    await site?.close();
+    const { result: exposed } = await auditMock(
+      { exposedFiles: ["/wp-config.php.bak"] },
+      { probeSensitivePaths: true }
+    );
+
+    expect(clean.analyses.security.fileExposure).toBe("none");
+    expect(exposed.scores.security).toBeLessThan(clean.scores.security);
+    expect(exposed.pageScores[0].scores.security).toBe(exposed.scores.security);
+  });
+
+  it("does not mistake soft 404 pages for exposed files", async () => {
+    const { result } = await auditMock(
+      { softNotFound: true },
+      { probeSensitivePaths: true }
+    );
+
+    expect(
+      result.site.sensitivePaths!.map((item) => item.exposure)
+    ).not.toContain("exposed");
+    // A 200 without a listing means the uploads index is hidden
+    expect(
+      result.site.sensitivePaths!.find(
+        (item) => item.check === "uploads-listing"
+      )?.exposure
+    ).toBe("protected");
+    expect(result.analyses.security.exposedPaths).toEqual([]);
+  });
+
+  it("requests no sensitive paths unless probing is enabled", async () => {
+    const { result } = await auditMock({ exposedFiles: ["/readme.html"] });
+
+    expect(result.site.sensitivePaths).toBeUndefined();
+    expect(site!.requests).not.toContain("/readme.html");
+  });
+
+  it("counts usernames exposed by the REST API and author archives", async () => {
+    const { result } = await auditMock({
+      users: [
+        { id: 1, slug: "admin" },
+        { id: 2, slug: "editor" },
+        { id: 7, slug: "guest-author" },
+      ],
+    });
+
+    expect(result.site.userEnumeration).toEqual({
+      restApiStatus: 200,
+      restApiUsers: 3,
+      authorIdsProbed: 5,
+      authorArchiveUsers: 2,
+      exposedUsers: 3,
+    });
+    expect(result.analyses.security.usernameExposure).toBe("exposed");
+    expect(findingIds(result)).toEqual(
+      expect.arrayContaining([
+        "SEC-USERS-REST-EXPOSED",
+        "SEC-USERS-AUTHOR-ENUMERATION",
+      ])
+    );
+    // Usernames stay out of the result unless asked for
+    expect(JSON.stringify(result.analyses)).not.toContain("guest-author");
+  });
+
+  it("lists usernames only when reporting them is enabled", async () => {
+    const { result } = await auditMock({}, { reportUsernames: true });
+
+    expect(result.site.userEnumeration.usernames).toEqual(["admin", "editor"]);
+  });
+
+  it("decodes author slugs and keeps malformed escapes as received", async () => {
+    const { result } = await auditMock(
+      {
+        users: [
+          { id: 1, slug: "caf%C3%A9" },
+          { id: 2, slug: "bad%zz" },
+        ],
+        restUsers: false,
+      },
+      { reportUsernames: true }
+    );
+
+    expect(result.site.userEnumeration).toMatchObject({
+      authorArchiveUsers: 2,
+      usernames: ["café", "bad%zz"],
+    });
+  });
+
+  it("scores hidden usernames when both channels are blocked", async () => {
+    const { result } = await auditMock({
+      restUsers: false,
+      authorArchives: false,
+    });
+
+    expect(result.site.userEnumeration).toMatchObject({
+      restApiStatus: 401,
+      exposedUsers: 0,
+    });
+    expect(result.analyses.security.usernameExposure).toBe("hidden");
+    expect(
+      result.scores.breakdown.security.find(
+        (item) => item.check === "Username exposure"
+      )
+    ).toMatchObject({ points: 2, maxPoints: 2 });
+  });
+
+  it("scores REST API readiness when the API is enabled", async () => {
+    const { result } = await auditMock();
+
+    expect(result.site.hasRestApi).toBe(true);
+    expect(result.site.restApiNamespaces).toContain("wp/v2");
+    expect(result.analyses.modernization.restApiStatus).toBe("full");
+  });
+
+  it("handles a site with the REST API disabled", async () => {
+    const { result } = await auditMock({ restApi: false });
+
+    expect(result.site.hasRestApi).toBe(false);
+    expect(result.analyses.modernization.restApiStatus).toBe("none");
+    expect(result.wpDetection.detectionMethods).not.toContain("rest-api");
+    // Still recognised as WordPress from the page markup
+    expect(result.wpDetection.isWordPress).toBe(true);
+    expect(result.scores.modernization).toBeLessThan(
+      result.scores.maxScores.modernization
+    );
+  });
+
+  it("gives full header coverage when security headers are sent", async () => {
+    const { result } = await auditMock();
+
+    expect(result.analyses.security.headersCoverage).toBe("excellent");
+    expect(findingIds(result)).not.toContain("SEC-HEADERS-MISSING");
+  });
+
+  it("flags missing security headers", async () => {
+    const { result } = await auditMock({ securityHeaders: false });
+
+    expect(result.analyses.security.headersCoverage).toBe("none");
+    expect(findingIds(result)).toContain("SEC-HEADERS-MISSING");
+    // Served over plain HTTP by the mock
+    expect(result.analyses.security.httpsStatus).toBe("insecure");
+  });
+
+  it("grades each weakness of the Content-Security-Policy", async () => {
+    const { result } = await auditMock({
+      contentSecurityPolicy:
+        "script-src 'self' 'unsafe-inline' 'unsafe-eval' *",
+    });
+    const ids = findingIds(result);
+
+    expect(result.pages[0].securityResult.hasContentSecurityPolicy).toBe(true);
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        "SEC-CSP-UNSAFE-INLINE",
+        "SEC-CSP-UNSAFE-EVAL",
+        "SEC-CSP-WILDCARD",
+        "SEC-CSP-DEFAULT-SRC-MISSING",
+        "SEC-CSP-OBJECT-SRC-MISSING",
+        "SEC-CSP-FRAME-ANCESTORS-MISSING",
+      ])
+    );
+    const wildcard = result.analyses.security.findings.find(
+      (finding) => finding.id === "SEC-CSP-WILDCARD"
+    );
+    expect(wildcard?.severity).toBe("medium");
+    expect(wildcard?.evidence).toBe("script-src *");
+    expect(wildcard?.pages).toEqual(["/"]);
+  });
+
+  it("raises no CSP findings for a strict policy", async () => {
+    const { result } = await auditMock();
+
+    expect(findingIds(result).filter((id) => id.startsWith("SEC-CSP"))).toEqual(
+      []
+    );
+  });
+
+  it("does not count a report-only policy as a CSP", async () => {
+    const { result } = await auditMock({ cspReportOnly: true });
+
+    expect(result.pages[0].securityResult.hasContentSecurityPolicy).toBe(false);
+    expect(result.analyses.security.headersCoverage).toBe("partial");
+    expect(findingIds(result)).toEqual(
+      expect.arrayContaining(["SEC-CSP-REPORT-ONLY", "SEC-CSP-MISSING"])
+    );
+  });
+
+  it("flags cookies set without HttpOnly or SameSite", async () => {
+    const { result } = await auditMock({
+      cookies: [
+        "wordpress_logged_in_0123456789abcdef0123456789abcdef=admin%7C1700000000; path=/; HttpOnly; SameSite=Lax",
+        "wp_woocommerce_session_0123=abc%7C%7C1700000000; path=/",
+        "woocommerce_items_in_cart=1; expires=Thu, 01 Jan 2099 00:00:00 GMT; path=/; SameSite=Lax",
+        "wordpress_test_cookie=deleted; Max-Age=0; path=/",
+      ],
+    });
+    const { findings, insecureCookies } = result.analyses.security;
+    const byId = (id: string) => findings.find((finding) => finding.id === id);
+
+    expect(
+      result.pages[0].securityResult.cookies.map((cookie) => cookie.name)
+    ).toEqual([
+      "wordpress_logged_in_0123456789abcdef0123456789abcdef",
+      "wp_woocommerce_session_0123",
+      "woocommerce_items_in_cart",
+    ]);
+    // A session cookie readable by scripts raises the severity
+    expect(byId("SEC-COOKIE-NO-HTTPONLY")?.severity).toBe("high");
+    expect(byId("SEC-COOKIE-NO-HTTPONLY")?.evidence).toBe(
+      "wp_woocommerce_session_0123, woocommerce_items_in_cart"
+    );
+    expect(byId("SEC-COOKIE-NO-HTTPONLY")?.pages).toEqual(["/"]);
+    expect(byId("SEC-COOKIE-NO-SAMESITE")?.severity).toBe("low");
+    // Secure is not expected over plain HTTP
+    expect(byId("SEC-COOKIE-NO-SECURE")).toBeUndefined();
+    expect(insecureCookies).toEqual([
+      "wp_woocommerce_session_0123",
+      "woocommerce_items_in_cart",
+    ]);
+    // Cookie values are not kept in the security results
+    expect(
+      JSON.stringify([result.pages[0].securityResult, result.analyses.security])
+    ).not.toContain("1700000000");
+  });
+
+  it("raises no cookie findings when no cookies are set", async () => {
+    const { result } = await auditMock();
+
+    expect(result.analyses.security.insecureCookies).toEqual([]);
+    expect(
+      findingIds(result).filter((id) => id.startsWith("SEC-COOKIE"))
+    ).toEqual([]);
+  });
+
+  it("reports no mixed content for pages served over HTTP", async () => {
+    const { result } = await auditMock();
+
+    // The mock's http:// assets are same-protocol, not mixed content
+    expect(result.pages[0].securityResult.mixedContent).toEqual([]);
+    expect(result.analyses.security.mixedContent).toBe("none");
+  });
+
+  it("redacts credentials but no other request values from the JSON report", async () => {
+    const token = "s3cr3t-session-token";
+    const { result } = await auditMock(
+      { redirects: { "/login/": `/?session=${token}` } },
+      {
+        pages: ["/login/"],
+        request: {
+          headers: { "X-Session-Token": token, Accept: "text/html" },
+          cookies: [
+            {
+              domain: "127.0.0.1",
+              includeSubdomains: false,
+              path: "/",
+              secure: false,
+              expires: 0,
+              name: "consent",
+              value: "true",
+            },
+          ],
+        },
+      }
+    );
+    const json = generateJsonReport(result);
+
+    expect(json).not.toContain(token);
+    expect(result.pages[0].httpResult.finalUrl).toContain("session=[REDACTED]");
+    // Short, harmless values such as "true" are left alone
+    const report = JSON.parse(json);
+    expect(report.wordpress.detected).toBe(true);
+    expect(report.meta.request.headers).toEqual(["X-Session-Token", "Accept"]);
+  });
+
+  it("reports missing and multiple H1s under fixed IDs on any page count", async () => {
+    const variant = { h1Counts: { "/about/": 0, "/blog/": 2 } };
+    const { result } = await auditMock(variant, {
+      pages: ["/", "/about/", "/blog/"],
+    });
+    const h1Findings = result.analyses.seo.findings.filter((finding) =>
+      finding.id.startsWith("SEO-H1-")
+    );
+
+    expect(h1Findings.map((finding) => [finding.id, finding.pages])).toEqual([
+      ["SEO-H1-MISSING", ["/about/"]],
+      ["SEO-H1-MULTIPLE", ["/blog/"]],
+    ]);
+    await site?.close();
+
+    const single = await auditMock(variant, { pages: ["/about/"] });
+    expect(findingIds(single.result)).toContain("SEO-H1-MISSING");
+  });
+
+  it("discovers pages from a urlset sitemap", async () => {
+    const { result } = await auditMock(
+      { sitemap: "urlset" },
+      { autoPages: true, maxPages: 10 }
+    );
+
+    expect(result.site.hasSitemap).toBe(true);
+    expect(result.pages.map((page) => page.path)).toEqual([
+      "/",
+      "/about/",
+      "/blog/",
+    ]);
+  });
+
+  it("discovers pages through a sitemap index", async () => {
+    const { result } = await auditMock(
+      { sitemap: "index" },
+      { autoPages: true, maxPages: 10 }
+    );
+
+    expect(result.site.hasSitemap).toBe(true);
+    expect(result.pages.map((page) => page.path).sort()).toEqual([
+      "/",
+      "/about/",
+      "/blog/",
+    ]);
+    expect(site!.requests).toEqual(
+      expect.arrayContaining(["/page-sitemap.xml", "/post-sitemap.xml"])
+    );
+  });
+
+  it("requests site-wide resources once per run", async () => {
+    await auditMock({}, { pages: ["/", "/about/", "/blog/"], concurrency: 2 });
+    const count = (path: string) =>
+      site!.requests.filter((request) => request === path).length;
+
+    for (const path of ["/robots.txt", "/sitemap.xml", "/wp-json/"]) {
+      expect(count(path), path).toBe(1);
+    }
+  });
+
+  it("shares the sitemap between page discovery and site checks", async () => {
+    await auditMock({}, { autoPages: true, maxPages: 10 });
+
+    expect(
+      site!.requests.filter((request) => request === "/sitemap.xml")
+    ).toHaveLength(1);
+  });
+
+  it("falls back to the homepage without a sitemap", async () => {
+    const { result, events } = await auditMock(
+      { sitemap: "none" },
+      { autoPages: true }
+    );
+
+    expect(result.site.hasSitemap).toBe(false);
+    expect(result.pages.map((page) => page.path)).toEqual(["/"]);
+    expect(events).toContainEqual({
+      type: "discovery:complete",
+      sitemapUrls: 0,
+      pages: ["/"],
+    });
+  });
+
+  it("skips failing pages and still audits the rest", async () => {
+    const { result, events } = await auditMock(
+      { failingPaths: ["/blog/"] },
+      { pages: ["/", "/blog/", "/about/"] }
+    );
+
+    expect(result.pages.map((page) => page.path)).toEqual(["/", "/about/"]);
+    expect(result.pageScores).toHaveLength(2);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "page:skipped",
+        path: "/blog/",
+        status: 500,
+      })
+    );
+  });
+
+  it("waits for slow endpoints and keeps the requested page order", async () => {
+    const { result } = await auditMock(
+      { slowPaths: { "/": 400 } },
+      { pages: ["/", "/about/"], concurrency: 2 }
+    );
+
+    expect(result.pages.map((page) => page.path)).toEqual(["/", "/about/"]);
+    expect(result.pages[0].httpResult.status).toBe(200);
+  });
+
+  it("keeps the recordings of concurrent audits apart", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "wp-audit-"));
+    const other = await startMockWordPress();
+    try {
+      site = await startMockWordPress({ slowPaths: { "/": 200 } });
+      const [recorded, plain] = await Promise.all([
+        audit({ url: site.url, pages: ["/"], record: dir }),
+        audit({ url: other.url, pages: ["/"] }),
+      ]);
+
+      expect(recorded.pages).toHaveLength(1);
+      expect(plain.pages).toHaveLength(1);
+      const archive = await readFile(archiveFileFor(dir, site.url), "utf8");
+      expect(archive).toContain(site.url);
+      expect(archive).not.toContain(other.url);
+    } finally {
+      await other.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports a redirect loop on an audited page as a finding", async () => {
+    const loop = { redirects: { "/": "/home/", "/home/": "/" } };
+    const { result } = await auditMock(loop, { pages: ["/", "/about/"] });
+    const loopFinding = () =>
+      result.analyses.seo.findings.find(
+        (finding) => finding.id === "SEO-REDIRECT-LOOP"
+      );
+
+    expect(result.pages.map((page) => page.path)).toEqual(["/about/"]);
+    expect(result.redirectFailures.map((failure) => failure.path)).toEqual([
+      "/",
+    ]);
+    expect(loopFinding()).toMatchObject({
+      severity: "critical",
+      pages: ["/"],
+    });
+    expect(loopFinding()?.evidence).toContain("Redirect loop");
+  });
+
+  it("reports a redirect chain over the hop limit apart from loops", async () => {
+    const chain = {
+      redirects: {
+        "/a/": "/b/",
+        "/b/": "/c/",
+        "/c/": "/d/",
+        "/d/": "/e/",
+        "/e/": "/f/",
+        "/f/": "/g/",
+      },
+    };
+    const { result } = await auditMock(chain, { pages: ["/a/", "/about/"] });
+    const ids = result.analyses.seo.findings.map((finding) => finding.id);
+
+    expect(result.redirectFailures.map((failure) => failure.path)).toEqual([
+      "/a/",
+    ]);
+    expect(ids).toContain("SEO-REDIRECT-TOO-MANY");
+    expect(ids).not.toContain("SEO-REDIRECT-LOOP");
+    expect(
+      result.analyses.seo.findings.find(
+        (finding) => finding.id === "SEO-REDIRECT-TOO-MANY"
+      )
+    ).toMatchObject({
+      severity: "high",
+      pages: ["/a/"],
+      evidence: expect.stringContaining("Too many redirects"),
+    });
+  });
+
+  it("completes the audit when the base URL loops", async () => {
+    const loop = { redirects: { "/": "/home/", "/home/": "/" } };
+    const { result } = await auditMock(loop, { pages: ["/"] });
+
+    expect(result.pages).toEqual([]);
+    expect(findingIds(result)).toContain("SEO-REDIRECT-LOOP");
+    expect(result.analyses.security.overallPosture).not.toBe("strong");
+    expect(JSON.parse(generateJsonReport(result)).rawData).toMatchObject({
+      redirectFailures: [{ path: "/" }],
+      pages: [],
+    });
+  });
+
+  it("rejects when no page can be fetched", async () => {
+    await expect(
+      auditMock({ failingPaths: ["/"] }, { pages: ["/"] })
+    ).rejects.toThrow("No pages could be successfully audited.");
+  });
+
+  it("scores each page on its own and names the weakest", async () => {
+    const { result } = await auditMock(
+      { h1Counts: { "/about/": 0 } },
+      { pages: ["/", "/about/", "/blog/"] }
+    );
+    const [home, about, blog] = result.pageScores;
+
+    expect(about.scores.seo).toBeLessThan(home.scores.seo);
+    expect(blog.scores.seo).toBe(home.scores.seo);
+    expect(about.analyses.seo.findings.map((f) => f.id)).toContain(
+      "SEO-H1-MISSING"
+    );
+    expect(home.analyses.seo.findings.map((f) => f.id)).not.toContain(
+      "SEO-H1-MISSING"
+    );
+    expect(findWorstPages(result.pageScores).seo).toBe(about);
+
+    const markdown = generateMarkdownReport(result);
+    expect(markdown).toContain("## Page-by-Page Scores");
+    expect(markdown).toContain(
+      `- SEO: \`/about/\` (${about.scores.seo}/${result.scores.maxScores.seo})`
+    );
+    const { pageScores } = JSON.parse(generateJsonReport(result));
+    expect(pageScores.worstPages.seo).toBe("/about/");
+    expect(pageScores.pages[1].issues).toContain("SEO-H1-MISSING");
+  });
+
+  it("produces a complete, consistent score summary", async () => {
+    const { result } = await auditMock({}, { pages: ["/", "/about/"] });
+    const { scores } = result;
+
+    expect(scores.overall).toBe(
+      scores.performance + scores.seo + scores.security + scores.modernization
+    );
+    expect(scores.overall).toBeGreaterThan(0);
+    expect(scores.overall).toBeLessThanOrEqual(100);
+    expect(result.pageScores.map((page) => page.path)).toEqual([
+      "/",
+      "/about/",
+    ]);
+    expect(result.topIssues.length).toBeLessThanOrEqual(5);
+  });
+});
+
+describe("audit() library API", () => {
+  it("reports progress through events without printing", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const { result, events } = await auditMock(
+        {},
+        { pages: ["/", "/about/"] }
+      );
+      const types = events.map((event) => event.type);
+
+      expect(log).not.toHaveBeenCalled();
+      expect(warn).not.toHaveBeenCalled();
+      expect(types[0]).toBe("audit:start");
+      expect(types.at(-1)).toBe("audit:complete");
+      expect(types.filter((type) => type === "page:complete")).toHaveLength(2);
+      expect(types.indexOf("site:complete")).toBeLessThan(
+        types.indexOf("page:start")
+      );
+      expect(events.at(-1)).toEqual({ type: "audit:complete", result });
+    } finally {
+      log.mockRestore();
+      warn.mockRestore();
+    }
+  });
+
+  it("rejects invalid input instead of exiting", async () => {
+    await expect(library.audit({ url: "not a url" })).rejects.toThrow();
+  });
+
+  it("renders every format from the package entry point", async () => {
+    const { result } = await auditMock();
+
+    for (const format of ["md", "html", "json", "sarif", "junit"] as const) {
+      expect(library.generateReport(result, format)).toContain(result.url);
+    }
+    expect(JSON.parse(library.generateReport(result, "json")).meta.url).toBe(
+      result.url
+    );
+  });
+});
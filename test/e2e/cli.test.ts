@@ -0,0 +1,70 @@
+/**
+ * CLI end-to-end tests - Run the command line entry point against a mock
+ * WordPress site and check its exit codes
+ */
+
+import { execFile } from "child_process";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startMockWordPress } from "../fixtures/mockWordPress.js";
+import type { MockWordPress } from "../fixtures/mockWordPress.js";
+
+const ROOT = path.resolve(__dirname, "../..");
+const TSX = path.join(ROOT, "node_modules/.bin/tsx");
+const CLI = path.join(ROOT, "src/cli/index.ts");
+
+let site: MockWordPress;
+let dir: string;
+
+beforeAll(async () => {
+  site = await startMockWordPress({ securityHeaders: false });
+  dir = await mkdtemp(path.join(os.tmpdir(), "wp-audit-cli-"));
+});
+
+afterAll(async () => {
+  await site.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Run the CLI in an empty directory (so no config file is picked up) and
+ * resolve with its exit code
+ */
+function runCli(args: string[]): Promise<number> {
+  return new Promise((resolve) => {
+    execFile(TSX, [CLI, ...args], { cwd: dir, timeout: 60000 }, (error) =>
+      resolve(error ? Number(error.code ?? 1) : 0)
+    );
+  });
+}
+
+describe("wp-modernization-audit CLI gate", () => {
+  const auditArgs = () => [
+    "--url",
+    site.url,
+    "--format",
+    "json",
+    "--out",
+    path.join(dir, "report.json"),
+  ];
+
+  it("exits with 4 when a finding matches --fail-on-issue", async () => {
+    expect(
+      await runCli([...auditArgs(), "--fail-on-issue", "SEC-HEADERS-MISSING"])
+    ).toBe(4);
+  }, 60000);
+
+  it("exits with 0 when every threshold passes", async () => {
+    expect(
+      await runCli([
+        ...auditArgs(),
+        "--min-score",
+        "0",
+        "--fail-on-issue",
+        "no such issue",
+      ])
+    ).toBe(0);
+  }, 60000);
+});
@@ -0,0 +1,22 @@
+/**
+ * Audit Result Fixture - Audits a mock WordPress site once and returns the
+ * result, for tests of the modules that consume an AuditResult (reports,
+ * gate, diff)
+ */
+
+import { audit } from "../../src/audit/index.js";
+import { startMockWordPress } from "./mockWordPress.js";
+import type { MockSiteOptions } from "./mockWordPress.js";
+import type { AuditConfig, AuditResult } from "../../src/types.js";
+
+export async function auditMockSite(
+  variant: Partial<MockSiteOptions> = {},
+  config: Partial<AuditConfig> = {}
+): Promise<AuditResult> {
+  const site = await startMockWordPress(variant);
+  try {
+    return await audit({ url: site.url, pages: ["/"], ...config });
+  } finally {
+    await site.close();
+  }
+}
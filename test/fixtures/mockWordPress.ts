@@ -0,0 +1,404 @@
+/**
+ * Mock WordPress Server - Local HTTP server emulating configurable WordPress
+ * sites (version, theme, plugins, REST API, users, headers, sitemaps,
+ * exposed files, slow and failing endpoints) for end-to-end tests
+ */
+
+import { createServer } from "http";
+import type { ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+export interface MockPlugin {
+  slug: string;
+  version: string;
+  assetVersion?: string; // ?ver= on its assets when it differs from version
+}
+
+export interface MockUser {
+  id: number;
+  slug: string;
+}
+
+export interface MockSiteOptions {
+  wpVersion: string | null; // null hides the generator tag and ?ver= values
+  theme: string;
+  themeVersion: string; // ?ver= of the theme stylesheet
+  plugins: MockPlugin[];
+  pluginReadmes: boolean; // Serve readme.txt with a "Stable tag" per plugin
+  restApi: boolean; // false answers /wp-json/ routes with 404
+  users: MockUser[];
+  restUsers: boolean; // List users at /wp-json/wp/v2/users (false answers 401)
+  authorArchives: boolean; // Redirect /?author=N to /author/<slug>/
+  securityHeaders: boolean; // X-Content-Type-Options, X-Frame-Options, CSP
+  contentSecurityPolicy: string; // CSP sent when securityHeaders is on
+  cspReportOnly: boolean; // Send the CSP as Content-Security-Policy-Report-Only
+  cookies: string[]; // Set-Cookie headers sent with every page
+  sitemap: "urlset" | "index" | "none";
+  pages: string[]; // Paths served as HTML pages
+  slowPaths: Record<string, number>; // Path -> response delay in ms
+  h1Counts: Record<string, number>; // Path -> number of H1 headings (default 1)
+  failingPaths: string[]; // Paths answered with a 500
+  redirects: Record<string, string>; // Path -> Location answered with a 301
+  exposedFiles: string[]; // Sensitive paths served with realistic content (see EXPOSED_FILES)
+  forbiddenPaths: string[]; // Paths answered with a 403
+  softNotFound: boolean; // Answer unknown paths with a 200 page instead of a 404
+}
+
+export interface MockWordPress {
+  url: string; // Base URL, e.g. http://127.0.0.1:54321
+  requests: string[]; // Paths requested so far, in order
+  close(): Promise<void>;
+}
+
+export const DEFAULT_SITE: MockSiteOptions = {
+  wpVersion: "6.4.2",
+  theme: "astra",
+  themeVersion: "1.0.0",
+  plugins: [
+    { slug: "woocommerce", version: "8.2.1" },
+    { slug: "contact-form-7", version: "5.8.4" },
+  ],
+  pluginReadmes: true,
+  restApi: true,
+  users: [
+    { id: 1, slug: "admin" },
+    { id: 2, slug: "editor" },
+  ],
+  restUsers: true,
+  authorArchives: true,
+  securityHeaders: true,
+  contentSecurityPolicy:
+    "default-src 'self'; object-src 'none'; frame-ancestors 'self'",
+  cspReportOnly: false,
+  cookies: [],
+  sitemap: "urlset",
+  pages: ["/", "/about/", "/blog/"],
+  slowPaths: {},
+  h1Counts: {},
+  failingPaths: [],
+  redirects: {},
+  exposedFiles: [],
+  forbiddenPaths: [],
+  softNotFound: false,
+};
+
+const DEBUG_LOG_LINE =
+  '[18-Oct-2026 10:00:00 UTC] PHP Warning:  Undefined array key "id" in /var/www/html/wp-content/plugins/legacy-slider/slider.php on line 42\n';
+
+// Content served for each path in MockSiteOptions.exposedFiles
+const EXPOSED_FILES: Record<string, { contentType: string; body: string }> = {
+  "/readme.html": {
+    contentType: "text/html",
+    body: "<!DOCTYPE html><html><head><title>WordPress &#8250; ReadMe</title></head><body><h1>WordPress</h1></body></html>",
+  },
+  "/license.txt": {
+    contentType: "text/plain",
+    body: "WordPress - Web publishing software\n\nCopyright 2011-2024 by the contributors\n",
+  },
+  "/wp-config.php.bak": {
+    contentType: "application/octet-stream",
+    body: "<?php\ndefine( 'DB_NAME', 'wordpress' );\ndefine( 'DB_PASSWORD', 'hunter2' );\n$table_prefix = 'wp_';\n",
+  },
+  "/wp-content/debug.log": {
+    contentType: "text/plain",
+    // Large enough that only the start should be read
+    body: DEBUG_LOG_LINE.repeat(2000),
+  },
+  "/wp-content/uploads/": {
+    contentType: "text/html",
+    body: '<html><head><title>Index of /wp-content/uploads</title></head><body><h1>Index of /wp-content/uploads</h1><a href="2024/">2024/</a></body></html>',
+  },
+  "/xmlrpc.php": {
+    contentType: "text/plain",
+    body: "XML-RPC server accepts POST requests only.",
+  },
+};
+
+/**
+ * Start a mock site on a free local port. Options not given fall back to
+ * DEFAULT_SITE.
+ */
+export async function startMockWordPress(
+  overrides: Partial<MockSiteOptions> = {}
+): Promise<MockWordPress> {
+  const options: MockSiteOptions = { ...DEFAULT_SITE, ...overrides };
+  const requests: string[] = [];
+  let baseUrl = "";
+
+  const server = createServer((req, res) => {
+    const { pathname: path, searchParams } = new URL(
+      req.url ?? "/",
+      "http://localhost"
+    );
+    requests.push(path);
+
+    const delay = options.slowPaths[path] ?? 0;
+    setTimeout(() => handle(options, baseUrl, path, searchParams, res), delay);
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+function handle(
+  options: MockSiteOptions,
+  baseUrl: string,
+  path: string,
+  query: URLSearchParams,
+  res: ServerResponse
+): void {
+  if (options.failingPaths.includes(path)) {
+    return send(res, 500, "text/html", "<h1>Internal Server Error</h1>");
+  }
+
+  if (path in options.redirects) {
+    return redirect(res, options.redirects[path]);
+  }
+
+  if (options.forbiddenPaths.includes(path)) {
+    return send(res, 403, "text/html", "<h1>Forbidden</h1>");
+  }
+
+  const exposed = options.exposedFiles.includes(path) && EXPOSED_FILES[path];
+  if (exposed) {
+    return send(res, 200, exposed.contentType, exposed.body);
+  }
+
+  const author = query.get("author");
+  if (path === "/" && author !== null) {
+    const user = options.users.find((u) => String(u.id) === author);
+    if (!user || !options.authorArchives) {
+      return send(res, 404, "text/html", "<h1>Not Found</h1>");
+    }
+    return redirect(res, `/author/${user.slug}/`);
+  }
+
+  const authorPage = path.match(/^\/author\/([^/]+)\/$/);
+  if (authorPage && options.users.some((u) => u.slug === authorPage[1])) {
+    return send(res, 200, "text/html", renderPage(options, baseUrl, path));
+  }
+
+  if (options.pages.includes(path)) {
+    const headers: Record<string, string | string[]> = {
+      "cache-control": "public, max-age=600",
+    };
+    if (options.cookies.length > 0) {
+      headers["set-cookie"] = options.cookies;
+    }
+    if (options.securityHeaders) {
+      headers["x-content-type-options"] = "nosniff";
+      headers["x-frame-options"] = "SAMEORIGIN";
+      headers[
+        options.cspReportOnly
+          ? "content-security-policy-report-only"
+          : "content-security-policy"
+      ] = options.contentSecurityPolicy;
+    }
+    const html = renderPage(options, baseUrl, path);
+    return send(res, 200, "text/html", html, headers);
+  }
+
+  const readme = path.match(/^\/wp-content\/plugins\/([^/]+)\/readme\.txt$/);
+  const plugin = readme && options.plugins.find((p) => p.slug === readme[1]);
+  if (plugin && options.pluginReadmes) {
+    return send(
+      res,
+      200,
+      "text/plain",
+      `=== ${plugin.slug} ===\nRequires at least: 6.0\nStable tag: ${plugin.version}\n`
+    );
+  }
+
+  if (path === "/robots.txt") {
+    return send(
+      res,
+      200,
+      "text/plain",
+      `User-agent: *\nDisallow: /wp-admin/\nSitemap: ${baseUrl}/sitemap.xml\n`
+    );
+  }
+
+  const sitemap = renderSitemap(options, baseUrl, path);
+  if (sitemap) {
+    return "redirect" in sitemap
+      ? redirect(res, sitemap.redirect)
+      : send(res, 200, "application/xml", sitemap.body);
+  }
+
+  if (path === "/wp-json/wp/v2/users" && options.restApi) {
+    return options.restUsers
+      ? send(
+          res,
+          200,
+          "application/json",
+          JSON.stringify(
+            options.users.map((u) => ({ id: u.id, slug: u.slug, name: u.slug }))
+          )
+        )
+      : send(
+          res,
+          401,
+          "application/json",
+          JSON.stringify({ code: "rest_user_cannot_view" })
+        );
+  }
+
+  if (path.startsWith("/wp-json/") && options.restApi) {
+    const rest = renderRest(path);
+    if (rest !== undefined) {
+      return send(res, 200, "application/json", JSON.stringify(rest));
+    }
+  }
+
+  if (options.softNotFound) {
+    return send(res, 200, "text/html", renderPage(options, baseUrl, "/"));
+  }
+
+  send(res, 404, "text/html", "<h1>Not Found</h1>");
+}
+
+function renderPage(
+  options: MockSiteOptions,
+  baseUrl: string,
+  path: string
+): string {
+  const ver = (version: string) =>
+    options.wpVersion === null ? "" : `?ver=${version}`;
+  const title = path === "/" ? "Home" : path.replace(/\//g, "");
+
+  const assets = [
+    `<link rel="stylesheet" href="${baseUrl}/wp-content/themes/${
+      options.theme
+    }/style.css${ver(options.themeVersion)}">`,
+    `<link rel="stylesheet" href="${baseUrl}/wp-includes/css/dist/block-library/style.min.css${ver(
+      options.wpVersion ?? ""
+    )}">`,
+    ...options.plugins.map(
+      (plugin) =>
+        `<script src="${baseUrl}/wp-content/plugins/${
+          plugin.slug
+        }/assets/js/frontend.js${ver(
+          plugin.assetVersion ?? plugin.version
+        )}" defer></script>`
+    ),
+  ];
+
+  const headings = `<h1>${title}</h1>\n`.repeat(options.h1Counts[path] ?? 1);
+  const links = options.pages
+    .map((page) => `<a href="${baseUrl}${page}">${page}</a>`)
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title} - Mock WordPress Site for Testing</title>
+<meta name="description" content="A mock WordPress page used by the end-to-end tests of the audit pipeline.">
+<link rel="canonical" href="${baseUrl}${path}">
+${
+  options.wpVersion === null
+    ? ""
+    : `<meta name="generator" content="WordPress ${options.wpVersion}">`
+}
+${assets.join("\n")}
+</head>
+<body>
+${headings}<img src="${baseUrl}/wp-content/uploads/hero.webp" alt="Hero" loading="lazy" width="800" height="400">
+${links}
+</body>
+</html>`;
+}
+
+/**
+ * Sitemap responses. The index variant mimics Yoast: /sitemap.xml
+ * redirects to /sitemap_index.xml, which lists one sitemap per post type.
+ */
+function renderSitemap(
+  options: MockSiteOptions,
+  baseUrl: string,
+  path: string
+): { body: string } | { redirect: string } | null {
+  const urlset = (paths: string[]) =>
+    `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${paths
+  .map(
+    (page) =>
+      `<url><loc>${baseUrl}${page}</loc><priority>${
+        page === "/" ? "1.0" : "0.8"
+      }</priority></url>`
+  )
+  .join("\n")}
+</urlset>`;
+
+  if (options.sitemap === "urlset" && path === "/sitemap.xml") {
+    return { body: urlset(options.pages) };
+  }
+
+  if (options.sitemap === "index") {
+    if (path === "/sitemap.xml") {
+      return { redirect: "/sitemap_index.xml" };
+    }
+    if (path === "/sitemap_index.xml") {
+      return {
+        body: `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+<sitemap><loc>${baseUrl}/page-sitemap.xml</loc></sitemap>
+<sitemap><loc>${baseUrl}/post-sitemap.xml</loc></sitemap>
+</sitemapindex>`,
+      };
+    }
+    // Home and the first page in one sitemap, the rest in the other
+    if (path === "/page-sitemap.xml") {
+      return { body: urlset(options.pages.slice(0, 2)) };
+    }
+    if (path === "/post-sitemap.xml") {
+      return { body: urlset(options.pages.slice(2)) };
+    }
+  }
+
+  return null;
+}
+
+function renderRest(path: string): unknown {
+  switch (path) {
+    case "/wp-json/":
+      return {
+        name: "Mock WordPress Site",
+        namespaces: ["oembed/1.0", "wp/v2"],
+        routes: { "/wp/v2/posts": {}, "/wp/v2/pages": {} },
+      };
+    case "/wp-json/wp/v2/posts":
+    case "/wp-json/wp/v2/pages":
+      return [{ id: 1, slug: "hello-world" }];
+    default:
+      return undefined;
+  }
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  contentType: string,
+  body: string,
+  headers: Record<string, string | string[]> = {}
+): void {
+  res.writeHead(status, { "content-type": contentType, ...headers });
+  res.end(body);
+}
+
+function redirect(res: ServerResponse, location: string): void {
+  res.writeHead(301, { location });
+  res.end();
+}
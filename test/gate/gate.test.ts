@@ -0,0 +1,77 @@
+/**
+ * CI gate tests - Score thresholds and issue patterns checked against an
+ * audit result
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  evaluateThresholds,
+  validateIssuePattern,
+} from "../../src/gate/index.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type { AuditResult } from "../../src/types.js";
+
+let result: AuditResult;
+
+beforeAll(async () => {
+  // Two findings mention usernames: the REST API and author archives
+  result = await auditMockSite({ securityHeaders: false });
+});
+
+const issueViolations = (pattern: string) =>
+  evaluateThresholds(result, { failOnIssues: [pattern] });
+
+describe("evaluateThresholds()", () => {
+  it("passes when every threshold is met", () => {
+    expect(
+      evaluateThresholds(result, {
+        minScore: 0,
+        minCategoryScores: { security: 0 },
+      })
+    ).toEqual([]);
+  });
+
+  it("reports the overall and category scores below their minimum", () => {
+    const violations = evaluateThresholds(result, {
+      minScore: 101,
+      minCategoryScores: { security: result.scores.security + 1, seo: 0 },
+    });
+
+    expect(violations.map((violation) => violation.type)).toEqual([
+      "overall",
+      "category",
+    ]);
+    expect(violations[1].message).toContain("security score");
+  });
+
+  it("matches findings by ID, by text and by regular expression", () => {
+    expect(issueViolations("SEC-HEADERS-MISSING")).toHaveLength(1);
+    expect(issueViolations("sec-headers-missing")).toHaveLength(1);
+    expect(issueViolations("security headers are MISSING")).toHaveLength(1);
+    expect(issueViolations("/^Critical security/")).toHaveLength(1);
+    expect(issueViolations("no such issue")).toEqual([]);
+    expect(issueViolations("SEC-HEADERS-MISSING")[0]).toMatchObject({
+      type: "issue",
+      message: expect.stringContaining("(SEC-HEADERS-MISSING)"),
+    });
+  });
+
+  it("matches every finding when the pattern has the g or y flag", () => {
+    expect(issueViolations("/usernames/i")).toHaveLength(2);
+    expect(issueViolations("/usernames/gi")).toHaveLength(2);
+    expect(issueViolations("/usernames/iy")).toHaveLength(2);
+  });
+});
+
+describe("validateIssuePattern()", () => {
+  it("accepts plain text and valid regular expressions", () => {
+    expect(() => validateIssuePattern("not using HTTPS")).not.toThrow();
+    expect(() => validateIssuePattern("/missing .* header/gi")).not.toThrow();
+  });
+
+  it("rejects an invalid regular expression", () => {
+    expect(() => validateIssuePattern("/missing (/")).toThrow(
+      "Invalid issue pattern /missing (/"
+    );
+  });
+});
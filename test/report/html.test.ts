@@ -0,0 +1,43 @@
+/**
+ * HTML report tests - Values taken from the audited site are escaped
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { generateHtmlReport } from "../../src/report/html.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type { AuditResult } from "../../src/types.js";
+
+const PAYLOAD = "<img src=x onerror=alert(1)>";
+
+let result: AuditResult;
+
+beforeAll(async () => {
+  result = await auditMockSite();
+});
+
+describe("generateHtmlReport()", () => {
+  it("escapes the detected theme and WordPress version", () => {
+    const html = generateHtmlReport({
+      ...result,
+      wpDetection: {
+        ...result.wpDetection,
+        wpVersion: PAYLOAD,
+        themeName: PAYLOAD,
+        themeVersion: PAYLOAD,
+      },
+    });
+
+    expect(html).not.toContain(PAYLOAD);
+    expect(html).toContain("&lt;img src=x onerror=alert(1)&gt;");
+  });
+
+  it("escapes finding IDs", () => {
+    const [first, ...rest] = result.topIssues;
+    const html = generateHtmlReport({
+      ...result,
+      topIssues: [{ ...first, id: PAYLOAD }, ...rest],
+    });
+
+    expect(html).not.toContain(PAYLOAD);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * JUnit report tests - Failure counts per suite and XML escaping
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { generateJunitReport } from "../../src/report/junit.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type { AuditResult } from "../../src/types.js";
+
+let result: AuditResult;
+
+beforeAll(async () => {
+  result = await auditMockSite(
+    { securityHeaders: false },
+    { pages: ["/", "/about/"] }
+  );
+});
+
+// The opening tag and body of each <testsuite>
+function suites(xml: string): Array<{ attributes: string; body: string }> {
+  return [...xml.matchAll(/<testsuite ([^>]*)>([\s\S]*?)<\/testsuite>/g)].map(
+    ([, attributes, body]) => ({ attributes, body })
+  );
+}
+
+const count = (text: string, pattern: RegExp) =>
+  (text.match(pattern) ?? []).length;
+
+const attribute = (attributes: string, name: string) =>
+  Number(new RegExp(`${name}="(\\d+)"`).exec(attributes)?.[1]);
+
+describe("generateJunitReport()", () => {
+  it("counts the tests and failures of every suite", () => {
+    const xml = generateJunitReport(result);
+    const all = suites(xml);
+
+    expect(
+      all.map((suite) => /name="([^"]*)"/.exec(suite.attributes)?.[1])
+    ).toEqual([
+      "Performance",
+      "SEO Foundations",
+      "WordPress Health &amp; Security",
+      "Modernization Readiness",
+      "Pages",
+    ]);
+
+    for (const { attributes, body } of all) {
+      expect(attribute(attributes, "tests")).toBe(count(body, /<testcase /g));
+      expect(attribute(attributes, "failures")).toBe(count(body, /<failure /g));
+    }
+
+    const root = /<testsuites ([^>]*)>/.exec(xml)![1];
+    const sum = (name: string) =>
+      all.reduce(
+        (total, suite) => total + attribute(suite.attributes, name),
+        0
+      );
+    expect(attribute(root, "tests")).toBe(sum("tests"));
+    expect(attribute(root, "failures")).toBe(sum("failures"));
+  });
+
+  it("fails the security suite for its issues and failing checks", () => {
+    const security = suites(generateJunitReport(result))[2];
+
+    expect(security.body).toContain(
+      "[SEC-HEADERS-MISSING] Critical security headers are missing"
+    );
+    expect(security.body).toMatch(
+      /<failure message="Security headers: none" type="none"\/>/
+    );
+  });
+
+  it("escapes text taken from the site and findings", () => {
+    const [finding, ...rest] = result.analyses.security.findings;
+    const xml = generateJunitReport({
+      ...result,
+      url: 'http://example.test/?a=1&b="2"',
+      analyses: {
+        ...result.analyses,
+        security: {
+          ...result.analyses.security,
+          findings: [{ ...finding, title: "<script>'x'</script>" }, ...rest],
+        },
+      },
+    });
+
+    expect(xml).not.toContain("<script>");
+    expect(xml).toContain("&lt;script&gt;&apos;x&apos;&lt;/script&gt;");
+    expect(xml).toContain(
+      'name="wp-modernization-audit: http://example.test/?a=1&amp;b=&quot;2&quot;"'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * SARIF report tests - One rule per finding ID, severity levels and page
+ * URL locations
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { generateSarifReport } from "../../src/report/sarif.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type { AuditResult } from "../../src/types.js";
+
+let result: AuditResult;
+let run: any;
+
+beforeAll(async () => {
+  result = await auditMockSite(
+    { securityHeaders: false },
+    { pages: ["/", "/about/"] }
+  );
+  run = JSON.parse(generateSarifReport(result)).runs[0];
+});
+
+const resultFor = (id: string) =>
+  run.results.find((item: any) => item.ruleId === id);
+
+describe("generateSarifReport()", () => {
+  it("defines one rule per finding ID and links each result to it", () => {
+    const ids = run.tool.driver.rules.map((rule: any) => rule.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        "SEC-HTTPS-MISSING",
+        "SEC-HEADERS-MISSING",
+        "MOD-CDN-MISSING",
+      ])
+    );
+    for (const item of run.results) {
+      expect(run.tool.driver.rules[item.ruleIndex].id).toBe(item.ruleId);
+    }
+    expect(run.results).toHaveLength(
+      Object.values(result.analyses).flatMap((a) => a.findings).length
+    );
+  });
+
+  it("maps severities to SARIF levels", () => {
+    expect(resultFor("SEC-HTTPS-MISSING").level).toBe("error"); // critical
+    expect(resultFor("SEC-WP-VERSION-EXPOSED").level).toBe("warning"); // medium
+    expect(resultFor("MOD-CDN-MISSING").level).toBe("note"); // low
+
+    const rule = run.tool.driver.rules.find(
+      (item: any) => item.id === "SEC-HTTPS-MISSING"
+    );
+    expect(rule).toMatchObject({
+      defaultConfiguration: { level: "error" },
+      properties: { severity: "critical", tags: ["security"] },
+    });
+  });
+
+  it("locates findings on the affected pages or the site URL", () => {
+    const uris = (id: string) =>
+      resultFor(id).locations.map(
+        (location: any) => location.physicalLocation.artifactLocation.uri
+      );
+
+    expect(uris("SEC-HEADERS-MISSING")).toEqual(
+      result.pages.map((page) => page.url)
+    );
+    expect(uris("SEC-USERS-REST-EXPOSED")).toEqual([result.url]);
+  });
+});
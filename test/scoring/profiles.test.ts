@@ -0,0 +1,82 @@
+/**
+ * Scoring Profile tests - Built-in and config file profiles, extends chains
+ * and validation
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  BUILTIN_PROFILES,
+  DEFAULT_PROFILE,
+  resolveProfile,
+} from "../../src/scoring/profiles.js";
+
+describe("resolveProfile()", () => {
+  it("returns the built-in profiles, each weighted to 100", () => {
+    for (const name of Object.keys(BUILTIN_PROFILES)) {
+      const profile = resolveProfile(name);
+      const total = Object.values(profile.weights).reduce((a, b) => a + b, 0);
+
+      expect(profile.name).toBe(name);
+      expect(total).toBe(100);
+    }
+  });
+
+  it("layers a custom profile over the profile it extends", () => {
+    const profile = resolveProfile("shop", {
+      shop: {
+        extends: "ecommerce",
+        description: "Our stores",
+        points: { security: { versionHidden: 5 } },
+        ratingBands: { healthy: 85 },
+      },
+    });
+
+    expect(profile).toMatchObject({
+      name: "shop",
+      description: "Our stores",
+      weights: BUILTIN_PROFILES.ecommerce.weights,
+      vitalsShare: DEFAULT_PROFILE.vitalsShare,
+      ratingBands: { ...DEFAULT_PROFILE.ratingBands, healthy: 85 },
+    });
+    expect(profile.points.security.versionHidden).toBe(5);
+    expect(profile.points.security.https).toEqual(
+      DEFAULT_PROFILE.points.security.https
+    );
+  });
+
+  it("rejects unknown names and circular extends", () => {
+    expect(() => resolveProfile("nope", { mine: {} })).toThrow(
+      'Unknown scoring profile "nope". Available: default, ecommerce, headless, mine'
+    );
+    expect(() =>
+      resolveProfile("a", { a: { extends: "b" }, b: { extends: "a" } })
+    ).toThrow('Scoring profile "a" extends itself (a -> b -> a)');
+  });
+
+  it("rejects weights that do not add up to 100 and unordered bands", () => {
+    expect(() =>
+      resolveProfile("custom", { custom: { weights: { seo: 35 } } })
+    ).toThrow('Scoring profile "custom": weights must add up to 100 (got 110)');
+    expect(() =>
+      resolveProfile("custom", {
+        custom: { ratingBands: { needsOptimization: 90 } },
+      })
+    ).toThrow("rating bands must be in descending order");
+  });
+
+  it("rejects a vitalsShare outside 0 to 100", () => {
+    for (const vitalsShare of [-10, 101]) {
+      expect(() =>
+        resolveProfile("custom", { custom: { vitalsShare } })
+      ).toThrow("vitalsShare must be between 0 and 100");
+    }
+  });
+
+  it("accepts the vitalsShare bounds", () => {
+    for (const vitalsShare of [0, 100]) {
+      expect(
+        resolveProfile("custom", { custom: { vitalsShare } }).vitalsShare
+      ).toBe(vitalsShare);
+    }
+  });
+});
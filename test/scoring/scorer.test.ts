@@ -0,0 +1,228 @@
+/**
+ * Scorer tests - Category scores scaled to the profile weights, the Core
+ * Web Vitals share of the performance score and the per-check breakdown
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { generateHtmlReport } from "../../src/report/html.js";
+import { buildJsonReport } from "../../src/report/json.js";
+import { generateMarkdownReport } from "../../src/report/markdown.js";
+import { resolveProfile } from "../../src/scoring/profiles.js";
+import { calculateScores, findWorstPages } from "../../src/scoring/scorer.js";
+import { auditMockSite } from "../fixtures/auditResult.js";
+import type {
+  AuditResult,
+  CategoryScores,
+  PerformanceAnalysis,
+} from "../../src/types.js";
+
+const CATEGORIES: Array<keyof CategoryScores> = [
+  "performance",
+  "seo",
+  "security",
+  "modernization",
+];
+
+let result: AuditResult;
+let analyses: AuditResult["analyses"];
+
+beforeAll(async () => {
+  // Start from a real site's analyses and override the scored fields
+  result = await auditMockSite({ securityHeaders: false });
+  analyses = result.analyses;
+});
+
+const GOOD_VITALS: PerformanceAnalysis["coreWebVitals"] = {
+  lcpStatus: "good",
+  clsStatus: "good",
+  inpStatus: "good",
+  ttfbStatus: "good",
+};
+
+// Analyses that earn every point; vitals are undefined without PageSpeed data
+function bestAnalyses(vitals: PerformanceAnalysis["coreWebVitals"]) {
+  return {
+    performance: {
+      ...analyses.performance,
+      htmlSizeCategory: "excellent",
+      scriptLoadCategory: "excellent",
+      imageOptimization: "excellent",
+      caching: "excellent",
+      coreWebVitals: vitals,
+    },
+    seo: {
+      ...analyses.seo,
+      titleQuality: "excellent",
+      metaDescriptionQuality: "excellent",
+      h1Quality: "excellent",
+      hasCanonical: true,
+      hasRobotsTxt: true,
+      hasSitemap: true,
+    },
+    security: {
+      ...analyses.security,
+      httpsStatus: "secure",
+      headersCoverage: "excellent",
+      versionExposure: "hidden",
+      usernameExposure: "hidden",
+      vulnerabilityStatus: "none",
+      fileExposure: "none",
+    },
+    modernization: {
+      ...analyses.modernization,
+      restApiStatus: "full",
+      permalinkModernity: "modern",
+      cdnUsage: "yes",
+    },
+  } as const;
+}
+
+function score(
+  best: ReturnType<typeof bestAnalyses>,
+  profile = resolveProfile("default")
+) {
+  return calculateScores(
+    best.performance,
+    best.seo,
+    best.security,
+    best.modernization,
+    profile
+  );
+}
+
+describe("calculateScores()", () => {
+  it("caps a perfect site at 100, with or without Core Web Vitals", () => {
+    for (const vitals of [GOOD_VITALS, undefined]) {
+      const scores = score(bestAnalyses(vitals));
+
+      expect(scores.overall).toBe(100);
+      expect(scores.rating).toBe("healthy");
+      expect(scores.performance).toBe(scores.maxScores.performance);
+    }
+  });
+
+  it("gives the vitals share of performance to page checks without PageSpeed data", () => {
+    const withVitals = score(bestAnalyses(GOOD_VITALS)).composition.performance;
+    const withoutVitals = score(bestAnalyses(undefined)).composition
+      .performance;
+
+    expect(withVitals).toEqual({
+      pageChecks: { score: 21, maxScore: 21 },
+      coreWebVitals: { score: 9, maxScore: 9 },
+    });
+    expect(withoutVitals).toEqual({
+      pageChecks: { score: 30, maxScore: 30 },
+      coreWebVitals: null,
+    });
+  });
+
+  it("weights poor vitals by the profile's vitalsShare", () => {
+    const poor = bestAnalyses({
+      lcpStatus: "poor",
+      clsStatus: "poor",
+      inpStatus: "poor",
+      ttfbStatus: "poor",
+    });
+    const share = (vitalsShare: number) =>
+      score(poor, resolveProfile("custom", { custom: { vitalsShare } }))
+        .performance;
+
+    expect(share(0)).toBe(30);
+    expect(share(30)).toBe(21);
+    expect(share(100)).toBe(0);
+  });
+
+  it("scales each category to the profile weight", () => {
+    const scores = score(bestAnalyses(GOOD_VITALS), resolveProfile("headless"));
+
+    expect(scores.maxScores).toEqual({
+      performance: 20,
+      seo: 15,
+      security: 25,
+      modernization: 40,
+    });
+    expect(scores.modernization).toBe(40);
+    expect(scores.overall).toBe(100);
+  });
+});
+
+describe("score breakdown", () => {
+  it("lists checks whose points add up to each default category score", () => {
+    for (const category of CATEGORIES) {
+      const items = result.scores.breakdown[category];
+      const points = items.reduce((sum, item) => sum + item.points, 0);
+      const maxPoints = items.reduce((sum, item) => sum + item.maxPoints, 0);
+
+      expect(points, category).toBe(result.scores[category]);
+      expect(maxPoints, category).toBe(result.scores.maxScores[category]);
+      for (const item of items) {
+        expect(item.points).toBeGreaterThanOrEqual(0);
+        expect(item.points).toBeLessThanOrEqual(item.maxPoints);
+      }
+    }
+  });
+
+  it("records the analysis value behind each check", () => {
+    expect(result.scores.breakdown.security).toContainEqual({
+      check: "Security headers",
+      input: "headersCoverage: none",
+      points: 0,
+      maxPoints: 6,
+    });
+    expect(result.scores.breakdown.seo.map((item) => item.check)).toEqual([
+      "Title tags",
+      "Meta descriptions",
+      "H1 headings",
+      "Canonical tags",
+      "robots.txt and sitemap.xml",
+    ]);
+  });
+
+  it("is shown in the Markdown, HTML and JSON reports", () => {
+    const count = (text: string, needle: string) =>
+      text.split(needle).length - 1;
+
+    expect(
+      count(generateMarkdownReport(result), "How this score was calculated")
+    ).toBe(4);
+    expect(
+      count(generateHtmlReport(result), '<details class="breakdown">')
+    ).toBe(4);
+    expect(buildJsonReport(result).scores.breakdown).toEqual(
+      result.scores.breakdown
+    );
+  });
+
+  it("notes when check points are scaled to a different weight", () => {
+    const best = bestAnalyses(undefined);
+    const scores = score(best, resolveProfile("headless"));
+    const markdown = generateMarkdownReport({ ...result, scores });
+
+    expect(markdown).toContain(
+      "_Check points are scaled to the category weight: 40/40._"
+    );
+  });
+});
+
+describe("findWorstPages()", () => {
+  const page = (path: string, seo: number, security: number) => ({
+    ...result.pageScores[0],
+    path,
+    scores: { ...result.scores, seo, security },
+  });
+
+  it("picks the lowest page per category, the earlier one on ties", () => {
+    const pages = [page("/", 20, 10), page("/a/", 15, 12), page("/b/", 15, 10)];
+    const worst = findWorstPages(pages);
+
+    expect(worst.seo?.path).toBe("/a/");
+    expect(worst.security?.path).toBe("/");
+  });
+
+  it("leaves out categories where every page scores the same", () => {
+    const worst = findWorstPages([page("/", 20, 10), page("/a/", 20, 12)]);
+
+    expect(Object.keys(worst)).toEqual(["security"]);
+    expect(findWorstPages([page("/", 20, 10)])).toEqual({});
+  });
+});